@@ -12,6 +12,8 @@ import ChatPage from "@/pages/chat";
 import VersionsPage from "@/pages/versions";
 import MemoryPage from "@/pages/memory";
 import BoundariesPage from "@/pages/boundaries";
+import PhrasesPage from "@/pages/phrases";
+import FeedbackPage from "@/pages/feedback";
 import SettingsPage from "@/pages/settings";
 import DiagnosticsPage from "@/pages/diagnostics";
 import NotFound from "@/pages/not-found";
@@ -41,6 +43,8 @@ function NovaApp() {
   const nova = useNovaState();
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [hasAutoSelected, setHasAutoSelected] = useState(false);
+  // Message to scroll to once the chat page shows its conversation (memory provenance)
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
 
   useEffect(() => {
     checkAuth();
@@ -117,26 +121,6 @@ function NovaApp() {
     [nova],
   );
 
-  const handleSendMessage = useCallback(
-    async (
-      conversationId: string,
-      content: string,
-      role: "user" | "assistant" = "user",
-    ) => {
-      await nova.addMessage(conversationId, {
-        role,
-        content,
-      });
-
-      const conv = nova.state.conversations.find((c) => c.id === conversationId);
-      if (conv && conv.messages.length === 0 && role === "user") {
-        const title = content.slice(0, 40) + (content.length > 40 ? "..." : "");
-        await nova.updateConversation(conversationId, { title });
-      }
-    },
-    [nova],
-  );
-
   if (authState === "loading") {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -167,13 +151,24 @@ function NovaApp() {
             conversations={nova.state.conversations}
             versions={nova.state.versions}
             currentMood={nova.state.currentMood}
-            settings={nova.state.settings}
             onNewConversation={handleNewConversation}
-            onSelectConversation={setCurrentConversationId}
-            onSendMessage={handleSendMessage}
+            onSelectConversation={(id) => {
+              setCurrentConversationId(id);
+              setFocusMessageId(null);
+            }}
+            onTurnComplete={nova.recordTurn}
+            onMessageUpdated={(conversationId, message) =>
+              nova.updateMessage(conversationId, message.id, message)
+            }
+            onBranchChanged={nova.replaceMessages}
             onExport={nova.exportData}
+            memories={nova.state.memories}
+            onCreateMemory={nova.createMemory}
+            onMemoriesReferenced={nova.noteMemoryReferences}
             currentConversationId={currentConversationId}
             setCurrentConversationId={setCurrentConversationId}
+            focusMessageId={focusMessageId}
+            onMessageFocused={() => setFocusMessageId(null)}
           />
         </Route>
         <Route path="/versions">
@@ -194,6 +189,10 @@ function NovaApp() {
             onCreateMemory={nova.createMemory}
             onUpdateMemory={nova.updateMemory}
             onDeleteMemory={nova.deleteMemory}
+            onOpenMessage={(conversationId, messageId) => {
+              setCurrentConversationId(conversationId);
+              setFocusMessageId(messageId);
+            }}
           />
         </Route>
         <Route path="/boundaries">
@@ -207,6 +206,18 @@ function NovaApp() {
             onReset={nova.resetState}
           />
         </Route>
+        <Route path="/phrases">
+          <PhrasesPage
+            conversations={nova.state.conversations}
+            versions={nova.state.versions}
+          />
+        </Route>
+        <Route path="/feedback">
+          <FeedbackPage
+            conversations={nova.state.conversations}
+            versions={nova.state.versions}
+          />
+        </Route>
         <Route path="/settings">
           <SettingsPage
             settings={nova.state.settings}
@@ -1,5 +1,17 @@
+import { useState } from "react";
 import { motion, useReducedMotion } from "framer-motion";
-import { Message } from "@/lib/types";
+import {
+  BookmarkPlus,
+  Brain,
+  ChevronLeft,
+  ChevronRight,
+  MessageSquarePlus,
+  Pencil,
+  RefreshCw,
+  ThumbsDown,
+  ThumbsUp,
+} from "lucide-react";
+import { FeedbackRating, Memory, Message, MessageFeedback } from "@/lib/types";
 import { NovaAvatar } from "./NovaAvatar";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
@@ -7,10 +19,64 @@ import { format } from "date-fns";
 interface ChatMessageProps {
   message: Message;
   isLast?: boolean;
+  // Only passed for the last reply, and only while no turn is in flight.
+  onRegenerate?: () => void;
+  onSelectAlternate?: (index: number) => void;
+  // User messages only: re-send with new text on a new branch.
+  onEdit?: (content: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  // Nova's replies only: the rating of the reply currently shown, if any.
+  feedback?: MessageFeedback | null;
+  onRate?: (rating: FeedbackRating, note?: string) => void;
+  onClearRating?: () => void;
+  // Saved messages only: open the create-memory dialog with this message.
+  onRemember?: () => void;
+  // Briefly marked after a jump from a memory's provenance.
+  highlighted?: boolean;
+  // Nova's replies only: memories this reply cited.
+  citedMemories?: Memory[];
 }
 
-export function ChatMessage({ message, isLast }: ChatMessageProps) {
+export function ChatMessage({
+  message,
+  isLast,
+  onRegenerate,
+  onSelectAlternate,
+  onEdit,
+  onSwitchBranch,
+  feedback,
+  onRate,
+  onClearRating,
+  onRemember,
+  highlighted,
+  citedMemories,
+}: ChatMessageProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState<string | null>(null);
   const isUser = message.role === "user";
+  const alternates = message.alternates ?? [];
+  const alternateIndex = message.alternateIndex ?? 0;
+  const canSwitch = alternates.length > 1 && !!onSelectAlternate && !message.isStreaming;
+  const siblingIds = message.siblingIds ?? [];
+  const branchIndex = siblingIds.indexOf(message.id);
+  const canSwitchBranch = siblingIds.length > 1 && branchIndex >= 0 && !!onSwitchBranch;
+
+  const submitEdit = () => {
+    const content = draft?.trim();
+    setDraft(null);
+    if (content && content !== message.content) onEdit?.(content);
+  };
+
+  // Clicking the active thumb clears the rating.
+  const rate = (rating: FeedbackRating) => {
+    if (feedback?.rating === rating) onClearRating?.();
+    else onRate?.(rating, feedback?.note ?? undefined);
+  };
+
+  const submitNote = () => {
+    if (feedback) onRate?.(feedback.rating, noteDraft?.trim() || undefined);
+    setNoteDraft(null);
+  };
 
   return (
     <motion.div
@@ -23,6 +89,7 @@ export function ChatMessage({ message, isLast }: ChatMessageProps) {
         isUser ? "justify-end" : "justify-start",
       )}
       data-testid={`message-${message.id}`}
+      data-message-id={message.id}
     >
       {!isUser && (
         <div className="flex-shrink-0 mt-1">
@@ -36,38 +103,219 @@ export function ChatMessage({ message, isLast }: ChatMessageProps) {
           isUser ? "items-end" : "items-start",
         )}
       >
-        <div
-          className={cn(
-            "px-4 py-3 rounded-2xl text-sm leading-relaxed",
-            isUser
-              ? "bg-gradient-to-br from-purple-600 to-violet-500 text-white rounded-br-sm shadow-lg shadow-purple-500/20"
-              : "bg-card/80 backdrop-blur-sm border border-purple-500/20 text-foreground rounded-bl-sm shadow-lg shadow-purple-500/5",
-            message.isStreaming && !isUser && "border-purple-500/40",
-          )}
-          style={
-            !isUser
-              ? {
-                  boxShadow:
-                    "0 0 20px rgba(168, 85, 247, 0.08), 0 4px 12px rgba(0,0,0,0.15)",
+        {draft !== null ? (
+          <div className="flex flex-col items-end gap-2 w-full min-w-[16rem]">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                } else if (e.key === "Escape") {
+                  setDraft(null);
                 }
-              : undefined
-          }
-        >
-          {message.content}
-          {message.isStreaming && (
-            <motion.span
-              className="inline-block ml-1 text-purple-400"
-              animate={{ opacity: [1, 0] }}
-              transition={{ duration: 0.5, repeat: Infinity }}
+              }}
+              autoFocus
+              rows={3}
+              className="w-full resize-none rounded-2xl border border-purple-500/40 bg-card/80 px-4 py-3 text-sm focus:outline-none"
+              data-testid={`input-edit-${message.id}`}
+            />
+            <div className="flex gap-2 text-xs">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-2 py-1 rounded text-muted-foreground hover:text-foreground"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitEdit}
+                className="px-2 py-1 rounded bg-purple-600 text-white hover:bg-purple-500"
+                data-testid={`button-save-edit-${message.id}`}
+              >
+                Send
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div
+            className={cn(
+              "px-4 py-3 rounded-2xl text-sm leading-relaxed",
+              isUser
+                ? "bg-gradient-to-br from-purple-600 to-violet-500 text-white rounded-br-sm shadow-lg shadow-purple-500/20"
+                : "bg-card/80 backdrop-blur-sm border border-purple-500/20 text-foreground rounded-bl-sm shadow-lg shadow-purple-500/5",
+              message.isStreaming && !isUser && "border-purple-500/40",
+              highlighted && "ring-2 ring-purple-400/70",
+            )}
+            style={
+              !isUser
+                ? {
+                    boxShadow:
+                      "0 0 20px rgba(168, 85, 247, 0.08), 0 4px 12px rgba(0,0,0,0.15)",
+                  }
+                : undefined
+            }
+          >
+            {message.content}
+            {message.isStreaming && (
+              <motion.span
+                className="inline-block ml-1 text-purple-400"
+                animate={{ opacity: [1, 0] }}
+                transition={{ duration: 0.5, repeat: Infinity }}
+              >
+                ▋
+              </motion.span>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-1 px-1 text-[10px] text-muted-foreground/60">
+          {canSwitchBranch && (
+            <>
+              <button
+                onClick={() => onSwitchBranch(siblingIds[branchIndex - 1])}
+                disabled={branchIndex === 0}
+                className="p-0.5 rounded hover:text-foreground disabled:opacity-30"
+                aria-label="Previous branch"
+                data-testid={`button-branch-prev-${message.id}`}
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </button>
+              <span data-testid={`text-branch-${message.id}`}>
+                {branchIndex + 1}/{siblingIds.length}
+              </span>
+              <button
+                onClick={() => onSwitchBranch(siblingIds[branchIndex + 1])}
+                disabled={branchIndex === siblingIds.length - 1}
+                className="p-0.5 rounded hover:text-foreground disabled:opacity-30"
+                aria-label="Next branch"
+                data-testid={`button-branch-next-${message.id}`}
+              >
+                <ChevronRight className="w-3 h-3" />
+              </button>
+            </>
+          )}
+          {canSwitch && (
+            <>
+              <button
+                onClick={() => onSelectAlternate(alternateIndex - 1)}
+                disabled={alternateIndex === 0}
+                className="p-0.5 rounded hover:text-foreground disabled:opacity-30"
+                aria-label="Previous reply"
+                data-testid={`button-alternate-prev-${message.id}`}
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </button>
+              <span data-testid={`text-alternate-${message.id}`}>
+                {alternateIndex + 1}/{alternates.length}
+              </span>
+              <button
+                onClick={() => onSelectAlternate(alternateIndex + 1)}
+                disabled={alternateIndex === alternates.length - 1}
+                className="p-0.5 rounded hover:text-foreground disabled:opacity-30"
+                aria-label="Next reply"
+                data-testid={`button-alternate-next-${message.id}`}
+              >
+                <ChevronRight className="w-3 h-3" />
+              </button>
+            </>
+          )}
+          <span>{format(new Date(message.timestamp), "h:mm a")}</span>
+          {onEdit && draft === null && (
+            <button
+              onClick={() => setDraft(message.content)}
+              className="p-0.5 rounded hover:text-foreground"
+              aria-label="Edit message"
+              data-testid={`button-edit-${message.id}`}
             >
-              ▋
-            </motion.span>
+              <Pencil className="w-3 h-3" />
+            </button>
+          )}
+          {onRegenerate && !message.isStreaming && (
+            <button
+              onClick={onRegenerate}
+              className="p-0.5 rounded hover:text-foreground"
+              aria-label="Regenerate reply"
+              data-testid={`button-regenerate-${message.id}`}
+            >
+              <RefreshCw className="w-3 h-3" />
+            </button>
+          )}
+          {onRemember && !message.isStreaming && (
+            <button
+              onClick={onRemember}
+              className="p-0.5 rounded hover:text-foreground"
+              aria-label="Remember this"
+              title="Remember this"
+              data-testid={`button-remember-${message.id}`}
+            >
+              <BookmarkPlus className="w-3 h-3" />
+            </button>
+          )}
+          {onRate && !message.isStreaming && (
+            <>
+              {(["up", "down"] as const).map((rating) => {
+                const Icon = rating === "up" ? ThumbsUp : ThumbsDown;
+                return (
+                  <button
+                    key={rating}
+                    onClick={() => rate(rating)}
+                    className={cn(
+                      "p-0.5 rounded hover:text-foreground",
+                      feedback?.rating === rating && "text-purple-400",
+                    )}
+                    aria-label={rating === "up" ? "Good reply" : "Bad reply"}
+                    aria-pressed={feedback?.rating === rating}
+                    data-testid={`button-rate-${rating}-${message.id}`}
+                  >
+                    <Icon className="w-3 h-3" />
+                  </button>
+                );
+              })}
+              {feedback && noteDraft === null && (
+                <button
+                  onClick={() => setNoteDraft(feedback.note ?? "")}
+                  className="p-0.5 rounded hover:text-foreground"
+                  aria-label={feedback.note ? "Edit note" : "Add note"}
+                  title={feedback.note ?? undefined}
+                  data-testid={`button-feedback-note-${message.id}`}
+                >
+                  <MessageSquarePlus className="w-3 h-3" />
+                </button>
+              )}
+            </>
           )}
         </div>
-
-        <span className="text-[10px] text-muted-foreground/60 px-1">
-          {format(new Date(message.timestamp), "h:mm a")}
-        </span>
+        {citedMemories && citedMemories.length > 0 && (
+          <ul
+            className="flex flex-col gap-0.5 px-1 text-[10px] text-muted-foreground/70"
+            data-testid={`list-cited-memories-${message.id}`}
+          >
+            {citedMemories.map((memory) => (
+              <li key={memory.id} className="flex items-center gap-1 max-w-xs">
+                <Brain className="w-3 h-3 flex-shrink-0 text-purple-400/70" />
+                <span className="truncate" title={memory.content}>
+                  {memory.content}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {noteDraft !== null && (
+          <input
+            value={noteDraft}
+            onChange={(e) => setNoteDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitNote();
+              else if (e.key === "Escape") setNoteDraft(null);
+            }}
+            autoFocus
+            maxLength={500}
+            placeholder="Short note (optional)"
+            className="w-64 rounded-md border border-border/50 bg-card/80 px-2 py-1 text-xs focus:outline-none"
+            data-testid={`input-feedback-note-${message.id}`}
+          />
+        )}
       </div>
 
       {isUser && <div className="w-8 flex-shrink-0" />}
@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Send, Sparkles, Layers, Download, Slash } from "lucide-react";
+import { Send, Sparkles, Layers, Download, Slash, Square } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
@@ -8,6 +8,7 @@ interface ComposerProps {
   onSend: (message: string) => void;
   onSwitchVersion?: () => void;
   onExport?: () => void;
+  onStop?: () => void; // while Nova is replying: the send button becomes Stop
   disabled?: boolean;
   placeholder?: string;
   className?: string;
@@ -17,6 +18,7 @@ export function Composer({
   onSend,
   onSwitchVersion,
   onExport,
+  onStop,
   disabled,
   placeholder = "Message Nova...",
   className,
@@ -123,24 +125,37 @@ export function Composer({
           data-testid="input-message"
         />
 
-        <Button
-          onClick={handleSend}
-          disabled={!message.trim() || disabled}
-          size="icon"
-          className={cn(
-            "flex-shrink-0 rounded-xl h-9 w-9 transition-all",
-            message.trim()
-              ? "bg-gradient-to-br from-purple-600 to-violet-600 hover:from-purple-500 hover:to-violet-500 glow-nova"
-              : "bg-muted text-muted-foreground",
-          )}
-          data-testid="button-send"
-        >
-          {disabled ? (
-            <Sparkles className="w-4 h-4 animate-pulse" />
-          ) : (
-            <Send className="w-4 h-4" />
-          )}
-        </Button>
+        {onStop ? (
+          <Button
+            onClick={onStop}
+            size="icon"
+            variant="outline"
+            className="flex-shrink-0 rounded-xl h-9 w-9 border-purple-500/40"
+            aria-label="Stop reply"
+            data-testid="button-stop"
+          >
+            <Square className="w-3.5 h-3.5 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            onClick={handleSend}
+            disabled={!message.trim() || disabled}
+            size="icon"
+            className={cn(
+              "flex-shrink-0 rounded-xl h-9 w-9 transition-all",
+              message.trim()
+                ? "bg-gradient-to-br from-purple-600 to-violet-600 hover:from-purple-500 hover:to-violet-500 glow-nova"
+                : "bg-muted text-muted-foreground",
+            )}
+            data-testid="button-send"
+          >
+            {disabled ? (
+              <Sparkles className="w-4 h-4 animate-pulse" />
+            ) : (
+              <Send className="w-4 h-4" />
+            )}
+          </Button>
+        )}
       </div>
 
       <div className="flex items-center gap-2 px-2 text-[10px] text-muted-foreground/50">
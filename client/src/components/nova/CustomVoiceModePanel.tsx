@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/lib/api";
+import { CustomVoiceMode, CustomVoiceModeDraft } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+interface CustomVoiceModePanelProps {
+  selected: string;
+  onSelect: (id: string) => void;
+}
+
+const EMPTY_DRAFT: CustomVoiceModeDraft = {
+  name: "",
+  maxSentences: 2,
+  allowQuestionsOnGreeting: false,
+  warmthBias: 50,
+  greetingResponses: [],
+  instructions: "",
+};
+
+// User-defined voice modes: same knobs as the built-ins, plus greetings and extra
+// prompt instructions. Saved straight away; selecting one still goes through Save.
+export function CustomVoiceModePanel({ selected, onSelect }: CustomVoiceModePanelProps) {
+  const { toast } = useToast();
+  const [modes, setModes] = useState<CustomVoiceMode[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null); // "new" while creating
+  const [draft, setDraft] = useState<CustomVoiceModeDraft>(EMPTY_DRAFT);
+  const [greetings, setGreetings] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    api.voiceModes
+      .list()
+      .then((data) => setModes(data.custom))
+      .catch((error) => console.error("Failed to load voice modes:", error));
+  }, []);
+
+  const startEdit = (mode: CustomVoiceMode | null) => {
+    const base = mode ?? EMPTY_DRAFT;
+    setEditingId(mode?.id ?? "new");
+    setDraft({
+      name: base.name,
+      maxSentences: base.maxSentences,
+      allowQuestionsOnGreeting: base.allowQuestionsOnGreeting,
+      warmthBias: base.warmthBias,
+      greetingResponses: base.greetingResponses,
+      instructions: base.instructions,
+    });
+    setGreetings(base.greetingResponses.join("\n"));
+  };
+
+  const handleSave = async () => {
+    const data = {
+      ...draft,
+      greetingResponses: greetings
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean),
+    };
+    setIsSaving(true);
+    try {
+      if (editingId === "new") {
+        const created = await api.voiceModes.create(data);
+        setModes((prev) => [...prev, created]);
+      } else if (editingId) {
+        const updated = await api.voiceModes.update(editingId, data);
+        setModes((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+      }
+      setEditingId(null);
+      toast({ title: "Voice mode saved" });
+    } catch (error: any) {
+      toast({
+        title: "Could not save voice mode",
+        description: error?.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await api.voiceModes.delete(id);
+      setModes((prev) => prev.filter((m) => m.id !== id));
+      // The server switches settings back to quiet when the active mode goes away.
+      if (selected === id) onSelect("quiet");
+      if (editingId === id) setEditingId(null);
+      toast({ title: "Voice mode deleted" });
+    } catch (error: any) {
+      toast({
+        title: "Could not delete voice mode",
+        description: error?.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {modes.map((mode) => (
+        <div
+          key={mode.id}
+          className={cn(
+            "flex items-center gap-2 p-3 rounded-lg border transition-colors",
+            selected === mode.id
+              ? "border-purple-500 bg-purple-500/10"
+              : "border-border/50 hover:border-border hover:bg-muted/30",
+          )}
+        >
+          <button
+            onClick={() => onSelect(mode.id)}
+            className="flex-1 flex flex-col items-start text-left min-w-0"
+            data-testid={`voice-mode-${mode.id}`}
+          >
+            <span className="font-medium text-sm truncate">{mode.name}</span>
+            <span className="text-xs text-muted-foreground">
+              Custom · {mode.maxSentences} sentence{mode.maxSentences > 1 ? "s" : ""} ·
+              warmth {mode.warmthBias}%
+            </span>
+          </button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => startEdit(mode)}
+            data-testid={`button-edit-voice-mode-${mode.id}`}
+          >
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => handleDelete(mode.id)}
+            data-testid={`button-delete-voice-mode-${mode.id}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      {editingId ? (
+        <div className="p-3 rounded-lg bg-muted/30 border border-border/30 space-y-3">
+          <Input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Mode name"
+            data-testid="input-voice-mode-name"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span className="block">Max sentences</span>
+              <Input
+                type="number"
+                min={1}
+                max={10}
+                value={draft.maxSentences}
+                onChange={(e) =>
+                  setDraft({ ...draft, maxSentences: Number(e.target.value) || 1 })
+                }
+                data-testid="input-voice-mode-max-sentences"
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span className="block">Warmth: {draft.warmthBias}%</span>
+              <Slider
+                min={0}
+                max={100}
+                step={5}
+                value={[draft.warmthBias]}
+                onValueChange={([value]) => setDraft({ ...draft, warmthBias: value })}
+                className="pt-3"
+                data-testid="slider-voice-mode-warmth"
+              />
+            </label>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Allow questions on greetings</span>
+            <Switch
+              checked={draft.allowQuestionsOnGreeting}
+              onCheckedChange={(checked) =>
+                setDraft({ ...draft, allowQuestionsOnGreeting: checked })
+              }
+              data-testid="switch-voice-mode-questions"
+            />
+          </div>
+          <Textarea
+            value={greetings}
+            onChange={(e) => setGreetings(e.target.value)}
+            placeholder={"Greeting responses, one per line\nHey.\nI'm here."}
+            rows={3}
+            data-testid="input-voice-mode-greetings"
+          />
+          <Textarea
+            value={draft.instructions}
+            onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+            placeholder="Extra instructions, one per line (optional)"
+            rows={3}
+            data-testid="input-voice-mode-instructions"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setEditingId(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !draft.name.trim() || !greetings.trim()}
+              data-testid="button-save-voice-mode"
+            >
+              Save mode
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => startEdit(null)}
+          className="gap-2"
+          data-testid="button-new-voice-mode"
+        >
+          <Plus className="w-4 h-4" />
+          New voice mode
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/lib/api";
+import { GateCooldownRead, GateSimulation } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface GateTesterPanelProps {
+  conversations: Array<{ id: string; title: string }>;
+}
+
+const FROM_SETTINGS = "__settings__";
+const NO_CONVERSATION = "__none__";
+const BUILT_IN_MODES = ["quiet", "engaged", "mythic", "blunt"].map((id) => ({
+  id,
+  name: id,
+}));
+
+function CooldownLine({ label, read }: { label: string; read: GateCooldownRead }) {
+  return (
+    <p className="text-xs text-muted-foreground">
+      {label}:{" "}
+      {read.active
+        ? `active, ${Math.ceil(read.remainingMs / 1000)}s left`
+        : read.lastAt
+          ? "expired"
+          : "never started"}
+    </p>
+  );
+}
+
+// Dry run of the local gates: which one would answer, and why. Nothing is saved.
+export function GateTesterPanel({ conversations }: GateTesterPanelProps) {
+  const [content, setContent] = useState("");
+  const [conversationId, setConversationId] = useState(NO_CONVERSATION);
+  const [voiceMode, setVoiceMode] = useState(FROM_SETTINGS);
+  const [memoryRefs, setMemoryRefs] = useState(FROM_SETTINGS);
+  const [result, setResult] = useState<GateSimulation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [voiceModes, setVoiceModes] = useState(BUILT_IN_MODES);
+
+  useEffect(() => {
+    api.voiceModes
+      .list()
+      .then((data) => setVoiceModes([...BUILT_IN_MODES, ...data.custom]))
+      .catch((err) => console.error("Failed to load voice modes:", err));
+  }, []);
+
+  const simulate = async () => {
+    if (!content.trim()) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResult(
+        await api.gates.simulate({
+          content,
+          conversationId: conversationId === NO_CONVERSATION ? undefined : conversationId,
+          voiceMode: voiceMode === FROM_SETTINGS ? undefined : voiceMode,
+          allowMemoryReferences:
+            memoryRefs === FROM_SETTINGS ? undefined : memoryRefs === "on",
+        }),
+      );
+    } catch (err: any) {
+      setError(err.message || "Simulation failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-border/50" data-testid="card-gate-tester">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+          <FlaskConical className="w-4 h-4" />
+          Gate Tester
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Shows which gate would answer a message. No model call, nothing saved, no
+          cooldown started.
+        </p>
+        <div className="flex gap-2">
+          <Input
+            value={content}
+            placeholder="e.g. I'm stressed today"
+            onChange={(e) => setContent(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && simulate()}
+            className="bg-muted/30 border-border/50"
+            data-testid="input-gate-message"
+          />
+          <Button
+            onClick={simulate}
+            disabled={isRunning || !content.trim()}
+            data-testid="button-gate-simulate"
+          >
+            {isRunning && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Simulate
+          </Button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <Select value={conversationId} onValueChange={setConversationId}>
+            <SelectTrigger data-testid="select-gate-conversation">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_CONVERSATION}>No conversation context</SelectItem>
+              {conversations.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={voiceMode} onValueChange={setVoiceMode}>
+            <SelectTrigger data-testid="select-gate-voice-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FROM_SETTINGS}>Voice mode from settings</SelectItem>
+              {voiceModes.map((m) => (
+                <SelectItem key={m.id} value={m.id}>
+                  {m.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={memoryRefs} onValueChange={setMemoryRefs}>
+            <SelectTrigger data-testid="select-gate-memory-refs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FROM_SETTINGS}>
+                Memory references from settings
+              </SelectItem>
+              <SelectItem value="on">Memory references on</SelectItem>
+              <SelectItem value="off">Memory references off</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {result && (
+          <div
+            className="space-y-3 border-t border-border/30 pt-3"
+            data-testid="gate-result"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge
+                variant="secondary"
+                className={cn(
+                  result.modelCall
+                    ? "bg-amber-500/20 text-amber-400 border-amber-500/30"
+                    : "bg-green-500/20 text-green-400 border-green-500/30",
+                )}
+              >
+                {result.modelCall ? "Model call" : `Local: ${result.chain.join(" + ")}`}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {result.stage} ·{" "}
+                {voiceModes.find((m) => m.id === result.voiceMode)?.name ??
+                  result.voiceMode}{" "}
+                · memory references {result.allowMemoryReferences ? "on" : "off"} ·{" "}
+                {result.locale}
+              </span>
+            </div>
+            {result.response && (
+              <p className="text-sm">
+                <span className="text-muted-foreground">Sample reply: </span>
+                {result.response}
+              </p>
+            )}
+            <div>
+              <CooldownLine
+                label="Reflection cooldown"
+                read={result.cooldowns.reflection}
+              />
+              <CooldownLine
+                label="Continuity cooldown"
+                read={result.cooldowns.continuity}
+              />
+              {result.wouldStartCooldowns.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  A real turn would start: {result.wouldStartCooldowns.join(", ")}
+                </p>
+              )}
+            </div>
+            <ol className="text-xs font-mono text-muted-foreground space-y-0.5">
+              {result.trace.map((t) => (
+                <li key={t.gateId}>
+                  {t.gateId}: {t.result}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
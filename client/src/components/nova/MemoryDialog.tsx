@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  BookOpen,
+  Flag,
+  Heart,
+  Quote,
+  Shield,
+  Tag,
+  X,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Memory, MemoryType } from "@/lib/types";
+import { format } from "date-fns";
+
+export type MemoryDraft = Omit<Memory, "id" | "createdAt">;
+
+export const memoryTypes: Record<MemoryType, { label: string; icon: LucideIcon }> = {
+  fact: { label: "Fact", icon: BookOpen },
+  preference: { label: "Preference", icon: Heart },
+  boundary: { label: "Boundary", icon: Shield },
+  milestone: { label: "Milestone", icon: Flag },
+};
+
+// <input type="date"> values, read as the end of that day in local time
+const fromDateInput = (value: string) =>
+  value ? new Date(`${value}T23:59:59`).toISOString() : null;
+const toDateInput = (iso: string | null) =>
+  iso ? format(new Date(iso), "yyyy-MM-dd") : "";
+
+const emptyMemory = (): MemoryDraft => ({
+  content: "",
+  tags: [],
+  importance: "medium",
+  type: "fact",
+  expiresAt: null,
+  reviewAfter: null,
+  sourceConversationId: null,
+  sourceMessageId: null,
+  sourceSnapshot: null,
+});
+
+interface MemoryDialogProps {
+  open: boolean;
+  // Fields filled in when the dialog opens, e.g. from "Remember this" on a message
+  initial?: Partial<MemoryDraft>;
+  onClose: () => void;
+  onSave: (memory: MemoryDraft) => unknown;
+}
+
+export function MemoryDialog({ open, initial, onClose, onSave }: MemoryDialogProps) {
+  const [draft, setDraft] = useState(emptyMemory);
+  const [tagInput, setTagInput] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft({ ...emptyMemory(), ...initial });
+    setTagInput("");
+  }, [open, initial]);
+
+  const handleAddTag = () => {
+    if (tagInput.trim() && !draft.tags.includes(tagInput.trim())) {
+      setDraft({ ...draft, tags: [...draft.tags, tagInput.trim()] });
+      setTagInput("");
+    }
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    setDraft({ ...draft, tags: draft.tags.filter((t) => t !== tag) });
+  };
+
+  const handleCreate = () => {
+    if (draft.content.trim()) {
+      onSave(draft);
+      onClose();
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg p-6 bg-card border border-border rounded-2xl shadow-2xl z-50"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-display text-lg font-semibold">Add Memory</h3>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                  Content
+                </label>
+                <Textarea
+                  value={draft.content}
+                  onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                  placeholder="What should Nova remember?"
+                  className="min-h-[100px]"
+                  data-testid="input-memory-content"
+                />
+                {draft.sourceMessageId && (
+                  <p className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                    <Quote className="w-3 h-3" />
+                    Linked to the message it came from
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                    Type
+                  </label>
+                  <Select
+                    value={draft.type}
+                    onValueChange={(v) => setDraft({ ...draft, type: v as MemoryType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(memoryTypes).map(([value, { label }]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                    Importance
+                  </label>
+                  <Select
+                    value={draft.importance}
+                    onValueChange={(v) =>
+                      setDraft({
+                        ...draft,
+                        importance: v as Memory["importance"],
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                    Expires (optional)
+                  </label>
+                  <Input
+                    type="date"
+                    value={toDateInput(draft.expiresAt)}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        expiresAt: fromDateInput(e.target.value),
+                      })
+                    }
+                    data-testid="input-memory-expires"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                    Review after (optional)
+                  </label>
+                  <Input
+                    type="date"
+                    value={toDateInput(draft.reviewAfter)}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        reviewAfter: fromDateInput(e.target.value),
+                      })
+                    }
+                    data-testid="input-memory-review"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                  Tags
+                </label>
+                <div className="flex gap-2 mb-2">
+                  <Input
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    placeholder="Add a tag"
+                    onKeyDown={(e) =>
+                      e.key === "Enter" && (e.preventDefault(), handleAddTag())
+                    }
+                  />
+                  <Button variant="outline" onClick={handleAddTag}>
+                    <Tag className="w-4 h-4" />
+                  </Button>
+                </div>
+                {draft.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {draft.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground"
+                      >
+                        #{tag}
+                        <button onClick={() => handleRemoveTag(tag)}>
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button variant="ghost" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreate}
+                  disabled={!draft.content.trim()}
+                  className="bg-purple-600 hover:bg-purple-500"
+                  data-testid="button-save-memory"
+                >
+                  Save Memory
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { KeyRound, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api } from "@/lib/api";
+import { ProviderKeyStatus } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
+
+interface ProviderKeyPanelProps {
+  provider: string;
+}
+
+// Write-only key entry: the saved key is never shown again, only its last 4 characters.
+export function ProviderKeyPanel({ provider }: ProviderKeyPanelProps) {
+  const { toast } = useToast();
+  const [statuses, setStatuses] = useState<ProviderKeyStatus[]>([]);
+  const [masterKeyConfigured, setMasterKeyConfigured] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    api.providerKeys
+      .list()
+      .then((data) => {
+        setStatuses(data.keys);
+        setMasterKeyConfigured(data.masterKeyConfigured);
+      })
+      .catch((error) => console.error("Failed to load API key status:", error));
+  }, []);
+
+  useEffect(() => {
+    setDraft("");
+  }, [provider]);
+
+  const status = statuses.find((s) => s.provider === provider);
+
+  const replaceStatus = (next: ProviderKeyStatus) =>
+    setStatuses((prev) => [...prev.filter((s) => s.provider !== next.provider), next]);
+
+  const handleSave = async () => {
+    if (!draft.trim()) return;
+    setIsSaving(true);
+    try {
+      replaceStatus(await api.providerKeys.set(provider, draft.trim()));
+      setDraft("");
+      toast({ title: status?.isSet ? "API key rotated" : "API key saved" });
+    } catch (error: any) {
+      toast({
+        title: "Could not save API key",
+        description: error?.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsSaving(true);
+    try {
+      await api.providerKeys.delete(provider);
+      replaceStatus({ provider, isSet: false, last4: null, updatedAt: null });
+      toast({ title: "API key removed" });
+    } catch (error: any) {
+      toast({
+        title: "Could not remove API key",
+        description: error?.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 border border-border/30 space-y-3">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <KeyRound className="w-4 h-4" />
+          API key
+        </span>
+        <span className="font-mono text-xs" data-testid="text-key-status">
+          {status?.isSet ? `Set · ••••${status.last4}` : "Not set"}
+        </span>
+      </div>
+
+      {masterKeyConfigured ? (
+        <div className="flex gap-2">
+          <Input
+            type="password"
+            autoComplete="off"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={
+              status?.isSet ? "Paste a new key to rotate" : "Paste your API key"
+            }
+            data-testid="input-api-key"
+          />
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !draft.trim()}
+            data-testid="button-save-key"
+          >
+            {status?.isSet ? "Rotate" : "Save"}
+          </Button>
+          {status?.isSet && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleDelete}
+              disabled={isSaving}
+              data-testid="button-delete-key"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Key storage is disabled until the server sets NOVA_MASTER_KEY.
+        </p>
+      )}
+    </div>
+  );
+}
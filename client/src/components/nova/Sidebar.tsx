@@ -7,6 +7,8 @@ import {
   Brain,
   Settings,
   Shield,
+  Filter,
+  ThumbsUp,
   Plus,
   ChevronRight,
   Menu,
@@ -32,6 +34,8 @@ const navItems = [
   { path: "/versions", icon: Layers, label: "Nova Versions" },
   { path: "/memory", icon: Brain, label: "Memory" },
   { path: "/boundaries", icon: Shield, label: "Boundaries" },
+  { path: "/phrases", icon: Filter, label: "Phrase Lists" },
+  { path: "/feedback", icon: ThumbsUp, label: "Feedback" },
   { path: "/settings", icon: Settings, label: "Settings" },
 ];
 
@@ -0,0 +1,127 @@
+import { Coins } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { UsageBucket, UsageTotals } from "@/lib/types";
+
+interface UsagePanelProps {
+  days: number;
+  totals: UsageTotals | null;
+  versions: Array<{ id: string; name: string }>;
+  conversations: Array<{ id: string; title: string }>;
+}
+
+const formatCost = (usd: number) =>
+  usd === 0 ? "$0" : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+const formatTokens = (n: number) => n.toLocaleString();
+
+function BucketTable({
+  title,
+  buckets,
+  label,
+}: {
+  title: string;
+  buckets: UsageBucket[];
+  label: (key: string | null) => string;
+}) {
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-muted-foreground mb-2">{title}</h4>
+      {buckets.length === 0 ? (
+        <p className="text-xs text-muted-foreground/70">No model calls yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground text-left">
+              <th className="font-normal pb-1"></th>
+              <th className="font-normal pb-1 text-right">Turns</th>
+              <th className="font-normal pb-1 text-right">Tokens</th>
+              <th className="font-normal pb-1 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {buckets.map((b) => (
+              <tr key={b.key ?? "none"} className="border-t border-border/30">
+                <td className="py-1 truncate max-w-[12rem]">{label(b.key)}</td>
+                <td className="py-1 text-right">{b.turns}</td>
+                <td className="py-1 text-right">{formatTokens(b.totalTokens)}</td>
+                <td className="py-1 text-right">
+                  {formatCost(b.costUsd)}
+                  {b.unpricedTurns > 0 && "*"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// Token and cost totals from the per-turn usage records.
+export function UsagePanel({ days, totals, versions, conversations }: UsagePanelProps) {
+  const versionName = (id: string | null) =>
+    versions.find((v) => v.id === id)?.name ?? (id ? "Deleted version" : "No version");
+  const conversationTitle = (id: string | null) =>
+    conversations.find((c) => c.id === id)?.title ??
+    (id ? "Deleted conversation" : "Outside a conversation");
+
+  return (
+    <Card className="bg-card/50 border-border/50" data-testid="card-usage">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+          <Coins className="w-4 h-4" />
+          Token Usage (last {days} days)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {!totals ? (
+          <p className="text-sm text-muted-foreground">Usage totals are unavailable.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-6">
+              <div>
+                <p className="text-2xl font-bold">
+                  {formatTokens(totals.total.totalTokens)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatTokens(totals.total.promptTokens)} prompt ·{" "}
+                  {formatTokens(totals.total.completionTokens)} completion
+                </p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{formatCost(totals.total.costUsd)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {totals.total.turns} model calls
+                  {totals.total.estimatedTurns > 0 &&
+                    ` · ${totals.total.estimatedTurns} estimated`}
+                </p>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <BucketTable
+                title="Per day"
+                buckets={totals.byDay}
+                label={(k) => k ?? ""}
+              />
+              <BucketTable
+                title="Per version"
+                buckets={totals.byVersion}
+                label={versionName}
+              />
+              <BucketTable
+                title="Per conversation"
+                buckets={totals.byConversation}
+                label={conversationTitle}
+              />
+            </div>
+            {totals.total.unpricedTurns > 0 && (
+              <p className="text-xs text-muted-foreground">
+                * Includes models without a price entry; their cost is not counted.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
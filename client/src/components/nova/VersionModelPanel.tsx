@@ -0,0 +1,131 @@
+import { Cpu } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { NovaVersion } from "@/lib/types";
+
+type ModelOverrides = Pick<
+  NovaVersion,
+  "provider" | "modelName" | "maxTokens" | "temperature"
+>;
+
+interface VersionModelPanelProps {
+  value: ModelOverrides;
+  isEditing: boolean;
+  onChange: (updates: Partial<ModelOverrides>) => void;
+}
+
+const FOLLOW_SETTINGS = "settings";
+
+const providerNames: Record<string, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  custom: "Custom Endpoint",
+  mock: "Mock (offline)",
+};
+
+const toNumberOrNull = (raw: string) => (raw.trim() === "" ? null : Number(raw));
+
+// Per-version model pins. Anything left empty follows the global Settings.
+export function VersionModelPanel({
+  value,
+  isEditing,
+  onChange,
+}: VersionModelPanelProps) {
+  const rows: Array<[label: string, shown: string | null]> = [
+    [
+      "Provider",
+      value.provider ? (providerNames[value.provider] ?? value.provider) : null,
+    ],
+    ["Model", value.modelName || null],
+    ["Max tokens", value.maxTokens != null ? String(value.maxTokens) : null],
+    ["Temperature", value.temperature != null ? String(value.temperature) : null],
+  ];
+
+  if (!isEditing) {
+    return (
+      <div className="grid grid-cols-2 gap-3" data-testid="version-model-overrides">
+        {rows.map(([label, shown]) => (
+          <div key={label} className="p-3 rounded-xl border border-border/50 bg-muted/30">
+            <div className="text-xs text-muted-foreground">{label}</div>
+            <div className="text-sm mt-0.5">
+              {shown ?? <span className="text-muted-foreground/70">From settings</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">Provider</span>
+        <Select
+          value={value.provider ?? FOLLOW_SETTINGS}
+          onValueChange={(v) => onChange({ provider: v === FOLLOW_SETTINGS ? null : v })}
+        >
+          <SelectTrigger data-testid="select-version-provider">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={FOLLOW_SETTINGS}>From settings</SelectItem>
+            {Object.entries(providerNames).map(([id, name]) => (
+              <SelectItem key={id} value={id}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">Model</span>
+        <Input
+          value={value.modelName ?? ""}
+          placeholder="From settings"
+          onChange={(e) =>
+            onChange({ modelName: e.target.value.trim() ? e.target.value : null })
+          }
+          className="bg-muted/30 border-border/50"
+          data-testid="input-version-model"
+        />
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">Max tokens</span>
+        <Input
+          type="number"
+          min={16}
+          max={4096}
+          value={value.maxTokens ?? ""}
+          placeholder="Default (220)"
+          onChange={(e) => onChange({ maxTokens: toNumberOrNull(e.target.value) })}
+          className="bg-muted/30 border-border/50"
+          data-testid="input-version-max-tokens"
+        />
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">Temperature</span>
+        <Input
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          value={value.temperature ?? ""}
+          placeholder="Provider default"
+          onChange={(e) => onChange({ temperature: toNumberOrNull(e.target.value) })}
+          className="bg-muted/30 border-border/50"
+          data-testid="input-version-temperature"
+        />
+      </div>
+      <p className="col-span-2 flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Cpu className="w-3 h-3" />
+        Leave a field empty to use the value from Settings.
+      </p>
+    </div>
+  );
+}
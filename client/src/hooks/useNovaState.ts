@@ -4,6 +4,7 @@ import {
   NovaVersion,
   Conversation,
   Memory,
+  MemoryReference,
   Message,
   NovaMood,
   Boundary,
@@ -77,6 +78,10 @@ export function useNovaState() {
           apiEndpoint: settings.apiEndpoint || "https://api.openai.com/v1",
           modelName: settings.modelName || "gpt-4",
           voiceMode: settings.voiceMode || "quiet",
+          allowMemoryReferences: settings.allowMemoryReferences ?? false,
+          language: settings.language || "auto",
+          reflectionCooldownSec: settings.reflectionCooldownSec ?? 45,
+          continuityCooldownSec: settings.continuityCooldownSec ?? 600,
           boundaries: settings.boundaries || [],
         },
         currentMood: settings.currentMood || DEFAULT_STATE.currentMood,
@@ -294,6 +299,48 @@ export function useNovaState() {
     [],
   );
 
+  // Append rows the server already persisted (server-authoritative turn).
+  const recordTurn = useCallback(async (conversationId: string, rows: Message[]) => {
+    let updatedTitle: string | undefined;
+
+    setState((prev) => {
+      const conversation = prev.conversations.find((c) => c.id === conversationId);
+      if (!conversation) return prev;
+
+      const known = new Set(conversation.messages.map((m) => m.id));
+      const updatedMessages = [
+        ...conversation.messages,
+        ...rows.filter((m) => !known.has(m.id)),
+      ];
+      const newTitle = generateConversationTitle(updatedMessages, conversation.createdAt);
+      if (newTitle !== conversation.title) {
+        updatedTitle = newTitle;
+      }
+
+      return {
+        ...prev,
+        conversations: prev.conversations.map((c) =>
+          c.id === conversationId
+            ? {
+                ...c,
+                messages: updatedMessages,
+                title: newTitle,
+                updatedAt: new Date().toISOString(),
+              }
+            : c,
+        ),
+      };
+    });
+
+    if (updatedTitle) {
+      try {
+        await api.conversations.update(conversationId, { title: updatedTitle });
+      } catch (error) {
+        console.error("Failed to update conversation title:", error);
+      }
+    }
+  }, []);
+
   const updateMessage = useCallback(
     (conversationId: string, messageId: string, updates: Partial<Message>) => {
       setState((prev) => ({
@@ -313,6 +360,18 @@ export function useNovaState() {
     [],
   );
 
+  // Show another branch of a conversation (after an edit or a branch switch).
+  const replaceMessages = useCallback((conversationId: string, messages: Message[]) => {
+    setState((prev) => ({
+      ...prev,
+      conversations: prev.conversations.map((c) =>
+        c.id === conversationId
+          ? { ...c, messages, updatedAt: new Date().toISOString() }
+          : c,
+      ),
+    }));
+  }, []);
+
   const createMemory = useCallback(async (memory: Omit<Memory, "id" | "createdAt">) => {
     try {
       const created = await api.memories.create(memory);
@@ -364,6 +423,23 @@ export function useNovaState() {
     }));
   }, []);
 
+  // Keep the memory page's reference counts current after a turn cites memories.
+  const noteMemoryReferences = useCallback((refs: MemoryReference[]) => {
+    if (refs.length === 0) return;
+    setState((prev) => ({
+      ...prev,
+      memories: prev.memories.map((m) => {
+        const cited = refs.filter((r) => r.memoryId === m.id);
+        if (cited.length === 0) return m;
+        return {
+          ...m,
+          referenceCount: (m.referenceCount ?? 0) + cited.length,
+          lastReferencedAt: cited[cited.length - 1].referencedAt,
+        };
+      }),
+    }));
+  }, []);
+
   const updateSettings = useCallback(async (updates: Partial<typeof state.settings>) => {
     try {
       await api.settings.update(updates);
@@ -500,10 +576,13 @@ export function useNovaState() {
     updateConversation,
     deleteConversation,
     addMessage,
+    recordTurn,
     updateMessage,
+    replaceMessages,
     createMemory,
     updateMemory,
     deleteMemory,
+    noteMemoryReferences,
     updateSettings,
     addBoundary,
     updateBoundary,
@@ -1,3 +1,22 @@
+import type {
+  Conversation,
+  CustomVoiceMode,
+  CustomVoiceModeDraft,
+  DefaultPhrase,
+  FeedbackFilters,
+  FeedbackRating,
+  GateLocale,
+  GateSimulation,
+  MemoryReference,
+  Message,
+  MessageFeedback,
+  PermittedEndpoint,
+  PhrasePreview,
+  PhraseRule,
+  ProviderKeyStatus,
+  VoiceMode,
+} from "./types";
+
 const API_BASE = "/api";
 
 // Session expired event for UI handling
@@ -22,12 +41,114 @@ async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
     }
 
     const error = await response.json().catch(() => ({ error: "Request failed" }));
-    throw new Error(error.error || "Request failed");
+    throw Object.assign(new Error(error.error || "Request failed"), { payload: error });
   }
 
   return response.json();
 }
 
+export interface VoiceEngineInfo {
+  shortCircuited: boolean;
+  rewritten: boolean;
+  mode: string;
+}
+
+export interface ChatStreamDone {
+  mock: boolean;
+  voiceEngine: VoiceEngineInfo;
+  content: string;
+}
+
+// Structured model failure (see server/providers/errors.ts); carried on Error.payload.
+export interface ModelErrorPayload {
+  error: string;
+  type?: "timeout" | "aborted" | "upstream" | "network";
+  retryable?: boolean;
+  upstreamStatus?: number | null;
+  userMessage?: Message;
+}
+
+export interface ChatTurnResult {
+  userMessage: Message;
+  assistantMessage: Message;
+  memoryReferences: MemoryReference[]; // memories the reply cited
+  mock: boolean;
+  voiceEngine: VoiceEngineInfo;
+}
+
+export type RegenerateResult = Omit<ChatTurnResult, "userMessage">;
+
+// First event of a user turn: the id the Stop button cancels, and the saved user row.
+export interface ChatTurnStart {
+  requestId: string;
+  userMessage: Message;
+}
+
+// First event of a regenerate: no new user message, just the id.
+export type RegenerateStart = Pick<ChatTurnStart, "requestId">;
+
+export interface StreamOptions<Start = ChatTurnStart> {
+  signal?: AbortSignal; // aborting drops the connection, which cancels the turn too
+  onStart?: (start: Start) => void;
+}
+
+// Reads an SSE chat reply (stream: true) until its `done` event.
+// Deltas are already sanitized server-side, so they can be shown as they arrive.
+async function streamChat<T, Start = ChatTurnStart>(
+  path: string,
+  body: Record<string, unknown>,
+  onDelta: (text: string) => void,
+  options: StreamOptions<Start> = {},
+): Promise<T> {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ ...body, stream: true }),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    if (response.status === 401) {
+      window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+      throw new Error("Session expired. Please refresh the page.");
+    }
+    const error = await response.json().catch(() => ({ error: "Request failed" }));
+    throw Object.assign(new Error(error.error || "Request failed"), { payload: error });
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let sep: number;
+    while ((sep = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (!event || data === undefined) continue;
+
+      const payload = JSON.parse(data);
+      if (event === "start") options.onStart?.(payload);
+      if (event === "delta") onDelta(payload.content);
+      if (event === "done") return payload as T;
+      if (event === "error") {
+        // Payload may carry rows the server already persisted (e.g. the user message).
+        throw Object.assign(new Error(payload.error || "Request failed"), { payload });
+      }
+    }
+  }
+
+  throw new Error("Stream ended unexpectedly");
+}
+
 export const api = {
   auth: {
     status: () => request<{ needsSetup: boolean }>("/auth/status"),
@@ -100,6 +221,68 @@ export const api = {
         method: "POST",
         body: JSON.stringify({ role, content }),
       }),
+    // Server-authoritative turn: persists the user text and the reply, returns both rows.
+    turn: (
+      conversationId: string,
+      content: string,
+      onDelta: (text: string) => void,
+      options?: StreamOptions,
+    ) =>
+      streamChat<ChatTurnResult>(
+        `/conversations/${conversationId}/turn`,
+        { content },
+        onDelta,
+        options,
+      ),
+    // Memories cited by the conversation's replies, from the reference ledger.
+    memoryReferences: (conversationId: string) =>
+      request<MemoryReference[]>(`/conversations/${conversationId}/memory-references`),
+    // Save what a stopped turn had streamed; nothing is kept otherwise.
+    keepPartial: (conversationId: string, requestId: string) =>
+      request<{ assistantMessage: Message }>(
+        `/conversations/${conversationId}/turns/${requestId}/keep`,
+        { method: "POST" },
+      ),
+    // New reply for the same history; earlier replies stay on the message as alternates.
+    regenerate: (
+      conversationId: string,
+      messageId: string,
+      onDelta: (text: string) => void,
+      options?: StreamOptions<RegenerateStart>,
+    ) =>
+      streamChat<RegenerateResult, RegenerateStart>(
+        `/conversations/${conversationId}/messages/${messageId}/regenerate`,
+        {},
+        onDelta,
+        options,
+      ),
+    // Re-send an earlier user message with new text; the old branch is kept.
+    edit: (
+      conversationId: string,
+      messageId: string,
+      content: string,
+      onDelta: (text: string) => void,
+      options?: StreamOptions,
+    ) =>
+      streamChat<ChatTurnResult>(
+        `/conversations/${conversationId}/messages/${messageId}/edit`,
+        { content },
+        onDelta,
+        options,
+      ),
+    switchBranch: (conversationId: string, messageId: string) =>
+      request<Conversation>(`/conversations/${conversationId}/branch`, {
+        method: "PATCH",
+        body: JSON.stringify({ messageId }),
+      }),
+    selectAlternate: (conversationId: string, messageId: string, index: number) =>
+      request<Message>(
+        `/conversations/${conversationId}/messages/${messageId}/alternate`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ index }),
+        },
+      ),
   },
 
   memories: {
@@ -127,22 +310,151 @@ export const api = {
       }),
   },
 
+  endpoints: {
+    list: () => request<{ endpoints: PermittedEndpoint[] }>("/endpoints"),
+  },
+
+  providerKeys: {
+    list: () =>
+      request<{ masterKeyConfigured: boolean; keys: ProviderKeyStatus[] }>(
+        "/provider-keys",
+      ),
+    // Set or rotate; the response only echoes set/not set and the last 4 characters.
+    set: (provider: string, apiKey: string) =>
+      request<ProviderKeyStatus>(`/provider-keys/${provider}`, {
+        method: "PUT",
+        body: JSON.stringify({ apiKey }),
+      }),
+    delete: (provider: string) =>
+      request<{ success: boolean }>(`/provider-keys/${provider}`, { method: "DELETE" }),
+  },
+
+  voiceModes: {
+    list: () =>
+      request<{
+        builtIn: Array<{ id: VoiceMode; name: string }>;
+        custom: CustomVoiceMode[];
+      }>("/voice-modes"),
+    create: (data: CustomVoiceModeDraft) =>
+      request<CustomVoiceMode>("/voice-modes", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+    update: (id: string, data: Partial<CustomVoiceModeDraft>) =>
+      request<CustomVoiceMode>(`/voice-modes/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      }),
+    delete: (id: string) =>
+      request<{ success: boolean }>(`/voice-modes/${id}`, { method: "DELETE" }),
+  },
+
+  phraseLists: {
+    list: () =>
+      request<{ defaults: DefaultPhrase[]; entries: PhraseRule[] }>("/phrase-lists"),
+    create: (data: Omit<PhraseRule, "id" | "createdAt" | "enabled">) =>
+      request<PhraseRule>("/phrase-lists", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+    update: (id: string, data: Partial<PhraseRule>) =>
+      request<PhraseRule>(`/phrase-lists/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      }),
+    delete: (id: string) =>
+      request<{ success: boolean }>(`/phrase-lists/${id}`, { method: "DELETE" }),
+    setDefault: (id: string, enabled: boolean) =>
+      request<{ disabledDefaultPhrases: string[] }>("/phrase-lists/defaults", {
+        method: "PATCH",
+        body: JSON.stringify({ id, enabled }),
+      }),
+    // Runs the sanitizer only; no model call.
+    preview: (data: { text: string; userMessage?: string; versionId?: string | null }) =>
+      request<PhrasePreview>("/phrase-lists/preview", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+  },
+
+  turns: {
+    // Cancels the model call on the server; the turn is logged as aborted.
+    stop: (requestId: string) =>
+      request<{ stopped: boolean }>(`/turns/${requestId}/stop`, { method: "POST" }),
+  },
+
+  feedback: {
+    list: (filters: FeedbackFilters = {}) =>
+      request<MessageFeedback[]>(
+        `/feedback?${new URLSearchParams(filters as Record<string, string>)}`,
+      ),
+    rate: (
+      conversationId: string,
+      messageId: string,
+      rating: FeedbackRating,
+      note?: string,
+    ) =>
+      request<MessageFeedback>(
+        `/conversations/${conversationId}/messages/${messageId}/feedback`,
+        {
+          method: "PUT",
+          body: JSON.stringify({ rating, note }),
+        },
+      ),
+    clear: (conversationId: string, messageId: string) =>
+      request<{ success: boolean }>(
+        `/conversations/${conversationId}/messages/${messageId}/feedback`,
+        { method: "DELETE" },
+      ),
+  },
+
   chat: {
-    complete: (messages: any[], model: string, systemPrompt: string) =>
+    // The server assembles the system prompt from the conversation's version.
+    complete: (conversationId: string, messages: any[], model: string) =>
       request<any>("/chat/completions", {
         method: "POST",
         body: JSON.stringify({
           model,
-          system_prompt: systemPrompt,
+          conversationId,
           messages: messages.map((m) => ({ role: m.role, content: m.content })),
         }),
       }),
+    stream: (
+      conversationId: string,
+      messages: any[],
+      model: string,
+      onDelta: (text: string) => void,
+    ) =>
+      streamChat<ChatStreamDone>(
+        "/chat/completions",
+        {
+          model,
+          conversationId,
+          messages: messages.map((m) => ({ role: m.role, content: m.content })),
+        },
+        onDelta,
+      ),
   },
 
   diagnostics: {
     get: () => request<any>("/diagnostics"),
   },
 
+  gates: {
+    // Dry run: no model call, no memory write, no cooldown change.
+    simulate: (data: {
+      content: string;
+      conversationId?: string;
+      voiceMode?: string; // built-in name or custom mode id
+      allowMemoryReferences?: boolean;
+      language?: GateLocale | "auto";
+    }) =>
+      request<GateSimulation>("/gates/simulate", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+  },
+
   backups: {
     list: () => request<any[]>("/backups"),
     create: (name?: string) =>
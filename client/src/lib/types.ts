@@ -9,6 +9,11 @@ export interface NovaVersion {
   toneTraits: Record<string, number>;
   modules: string[];
   parentVersionId: string | null;
+  // Model pins; null/undefined follows Settings.
+  provider?: string | null;
+  modelName?: string | null;
+  maxTokens?: number | null;
+  temperature?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -26,25 +31,58 @@ export interface Message {
   content: string;
   timestamp: string;
   isStreaming?: boolean;
+  requestId?: string | null; // decision-log id of the turn that wrote the reply
+  // Regenerated replies; content is alternates[alternateIndex]. Empty until regenerated.
+  alternates?: MessageAlternate[];
+  alternateIndex?: number;
+  parentMessageId?: string | null;
+  // Messages on the other branches at this point (edits of the same user message).
+  siblingIds?: string[];
+}
+
+export interface MessageAlternate {
+  content: string;
+  requestId: string | null;
+  timestamp: string;
 }
 
 export interface Conversation {
   id: string;
   title: string;
   versionId: string;
-  messages: Message[];
+  messages: Message[]; // the branch being shown
+  activeLeafId?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type MemoryType = "fact" | "preference" | "boundary" | "milestone";
+
 export interface Memory {
   id: string;
   content: string;
   tags: string[];
   importance: "low" | "medium" | "high" | "critical";
-  type: "short-term" | "long-term";
+  type: MemoryType;
+  expiresAt: string | null; // hidden once past, then deleted by the server
+  reviewAfter: string | null;
   sourceConversationId: string | null;
+  sourceMessageId: string | null; // saved with "Remember this" on a chat message
+  sourceSnapshot: string | null; // that message's text when it was saved
   createdAt: string;
+  // From the reference ledger: replies that cited this memory
+  referenceCount?: number;
+  lastReferencedAt?: string | null;
+}
+
+// One time a memory shaped a reply (Stage 3 continuity)
+export interface MemoryReference {
+  id: string;
+  memoryId: string;
+  messageId: string;
+  conversationId: string;
+  requestId: string; // the reply's decision-log id; matches message.requestId
+  referencedAt: string;
 }
 
 export interface Boundary {
@@ -54,17 +92,159 @@ export interface Boundary {
   enabled: boolean;
 }
 
+// Reply sanitizer entries: built-in defaults plus the user's own (per user or version).
+export type PhraseListKind = "banned" | "conditional";
+export type PhraseMatchType = "phrase" | "regex";
+
+export interface PhraseEntry {
+  id: string;
+  list: PhraseListKind;
+  pattern: string;
+  matchType: PhraseMatchType;
+  source: "default" | "user" | "version";
+}
+
+export interface DefaultPhrase extends PhraseEntry {
+  enabled: boolean;
+}
+
+export interface PhraseRule {
+  id: string;
+  versionId: string | null;
+  list: PhraseListKind;
+  pattern: string;
+  matchType: PhraseMatchType;
+  enabled: boolean;
+  createdAt: string;
+}
+
+// A rating on one of Nova's replies, with the turn's context copied from its decision
+// record. `gate` is "model" when no gate answered.
+export type FeedbackRating = "up" | "down";
+
+export interface MessageFeedback {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  requestId: string | null;
+  content: string;
+  rating: FeedbackRating;
+  note: string | null;
+  gate: string | null;
+  voiceMode: string | null;
+  versionId: string | null;
+  model: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FeedbackFilters {
+  versionId?: string;
+  gate?: string;
+  rating?: FeedbackRating;
+  conversationId?: string;
+}
+
+export interface PhrasePreview {
+  output: string;
+  rewritten: boolean;
+  sanitizedBy: PhraseEntry[];
+}
+
 export type VoiceMode = "quiet" | "engaged" | "mythic" | "blunt";
 
+// Languages the local presence gates understand.
+export type GateLocale = "en" | "es" | "fr" | "de";
+
+// User-defined voice mode; selected by putting its id in settings.voiceMode.
+export interface CustomVoiceMode {
+  id: string;
+  name: string;
+  maxSentences: number;
+  allowQuestionsOnGreeting: boolean;
+  warmthBias: number; // 0-100
+  greetingResponses: string[];
+  instructions: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustomVoiceModeDraft = Omit<
+  CustomVoiceMode,
+  "id" | "createdAt" | "updatedAt"
+>;
+
 export interface NovaSettings {
   provider: string;
   apiEndpoint: string;
   modelName: string;
-  voiceMode: VoiceMode;
+  voiceMode: string; // a VoiceMode or a custom voice mode id
   allowMemoryReferences: boolean;
+  language: GateLocale | "auto"; // "auto": guessed from each message
+  reflectionCooldownSec: number;
+  continuityCooldownSec: number;
   boundaries: Boundary[];
 }
 
+// Operator-managed endpoint allowlist entry (read-only in the UI).
+export interface PermittedEndpoint {
+  url: string;
+  label: string;
+  source: "builtin" | "env" | "file";
+}
+
+// Write-only: the server never returns the key itself.
+export interface ProviderKeyStatus {
+  provider: string;
+  isSet: boolean;
+  last4: string | null;
+  updatedAt: string | null;
+}
+
+// Token/cost totals; `key` is a day (YYYY-MM-DD), version id or conversation id.
+export interface UsageBucket {
+  key: string | null;
+  turns: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  estimatedTurns: number;
+  unpricedTurns: number;
+}
+
+export interface UsageTotals {
+  since: string;
+  total: UsageBucket;
+  byDay: UsageBucket[];
+  byVersion: UsageBucket[];
+  byConversation: UsageBucket[];
+}
+
+// Gate dry run: what the local gates would do with a message. No side effects.
+export interface GateCooldownRead {
+  scopeKey: string;
+  lastAt: number | null;
+  remainingMs: number;
+  active: boolean;
+}
+
+export interface GateSimulation {
+  voiceMode: string;
+  allowMemoryReferences: boolean;
+  gateId: string | null;
+  stage: string;
+  reason: string;
+  locale: GateLocale;
+  response: string | null;
+  chain: string[];
+  modelCall: boolean;
+  memoryReads: number;
+  cooldowns: { reflection: GateCooldownRead; continuity: GateCooldownRead };
+  wouldStartCooldowns: string[];
+  trace: Array<{ gateId: string; result: string }>;
+}
+
 export interface NovaMood {
   emotion: "calm" | "curious" | "thoughtful" | "warm" | "focused";
   intensity: number;
@@ -146,6 +326,9 @@ export const DEFAULT_STATE: NovaState = {
     modelName: "gpt-4",
     voiceMode: "quiet",
     allowMemoryReferences: false,
+    language: "auto",
+    reflectionCooldownSec: 45,
+    continuityCooldownSec: 600,
     boundaries: [],
   },
   currentMood: {
@@ -4,50 +4,99 @@ import { Sidebar } from "@/components/nova/Sidebar";
 import { NovaPresence } from "@/components/nova/NovaPresence";
 import { ChatMessage, TypingIndicator } from "@/components/nova/ChatMessage";
 import { Composer } from "@/components/nova/Composer";
+import { MemoryDialog, type MemoryDraft } from "@/components/nova/MemoryDialog";
 import { NovaAvatar } from "@/components/nova/NovaAvatar";
-import { Conversation, NovaVersion, NovaMood, NovaSettings } from "@/lib/types";
-import { api } from "@/lib/api";
+import {
+  Conversation,
+  FeedbackRating,
+  Memory,
+  MemoryReference,
+  Message,
+  MessageFeedback,
+  NovaVersion,
+  NovaMood,
+} from "@/lib/types";
+import { api, type ChatTurnStart, type ModelErrorPayload } from "@/lib/api";
 import { cn } from "@/lib/utils";
 
 interface ChatPageProps {
   conversations: Conversation[];
   versions: NovaVersion[];
   currentMood: NovaMood;
-  settings: NovaSettings;
   onNewConversation: (versionId: string) => Promise<Conversation>;
+  // Picked in the sidebar; drops a pending focusMessageId jump.
   onSelectConversation: (id: string) => void;
-  onSendMessage: (
-    conversationId: string,
-    content: string,
-    role?: "user" | "assistant",
-  ) => Promise<void>;
+  onTurnComplete: (conversationId: string, rows: Message[]) => Promise<void>;
+  onMessageUpdated: (conversationId: string, message: Message) => void;
+  onBranchChanged: (conversationId: string, messages: Message[]) => void;
   onExport: () => void;
+  memories: Memory[];
+  onCreateMemory: (memory: MemoryDraft) => unknown;
+  onMemoriesReferenced: (refs: MemoryReference[]) => void;
   currentConversationId: string | null;
   setCurrentConversationId: (id: string | null) => void;
+  // Scroll to this message once its conversation is shown, then report it done.
+  focusMessageId: string | null;
+  onMessageFocused: () => void;
 }
 
 export default function ChatPage({
   conversations,
   versions,
   currentMood,
-  settings,
   onNewConversation,
   onSelectConversation,
-  onSendMessage,
+  onTurnComplete,
+  onMessageUpdated,
+  onBranchChanged,
   onExport,
+  memories,
+  onCreateMemory,
+  onMemoriesReferenced,
   currentConversationId,
   setCurrentConversationId,
+  focusMessageId,
+  onMessageFocused,
 }: ChatPageProps) {
   const [isTyping, setIsTyping] = useState(false);
   const [showVersionPicker, setShowVersionPicker] = useState(false);
   const [isDemoMode, setIsDemoMode] = useState(false);
-  const [uiError, setUiError] = useState<string | null>(null);
+  // System banner for failed turns; never saved as a Nova message.
+  const [uiError, setUiError] = useState<ModelErrorPayload | null>(null);
   const [userHasScrolledUp, setUserHasScrolledUp] = useState(false);
   const [isScrolling, setIsScrolling] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  /* 001 */ const pendingRequestIdRef = useRef(0);
+  const pendingRequestIdRef = useRef(0);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  // User text shown until the server returns the persisted row.
+  const [pendingUserText, setPendingUserText] = useState<string | null>(null);
+  // Reply being regenerated; it shows the streamed text in place until the server saves it.
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  // User message being re-sent; it and everything after it are hidden until the new
+  // branch comes back.
+  const [branchingFromId, setBranchingFromId] = useState<string | null>(null);
+  // Running turn, so Stop can abort the fetch and cancel it on the server.
+  const abortRef = useRef<AbortController | null>(null);
+  const runningRequestIdRef = useRef<string | null>(null);
+  // Text a stopped turn had streamed; saved only if the user keeps it. A stopped
+  // regenerate keeps it as another alternate of `regeneratedMessageId`.
+  const [stoppedTurn, setStoppedTurn] = useState<{
+    conversationId: string;
+    requestId: string;
+    content: string;
+    regeneratedMessageId?: string;
+  } | null>(null);
+  // Ratings for the open conversation, by message id.
+  const [feedback, setFeedback] = useState<Record<string, MessageFeedback>>({});
+  // Memories cited by the open conversation's replies (reference ledger rows).
+  const [references, setReferences] = useState<MemoryReference[]>([]);
+  // "Remember this": the create-memory dialog, pre-filled from a message.
+  const [rememberDraft, setRememberDraft] = useState<Partial<MemoryDraft> | null>(null);
+  // Message marked after a jump from a memory's provenance.
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const focusBranchTriedRef = useRef<string | null>(null);
 
   const currentConversation = conversations.find((c) => c.id === currentConversationId);
   const currentVersion = currentConversation
@@ -88,13 +137,44 @@ export default function ChatPage({
     if (isTyping && !userHasScrolledUp && messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: "auto" });
     }
-  }, [isTyping, userHasScrolledUp]);
+  }, [isTyping, streamingText, userHasScrolledUp]);
 
   // Reset scroll state when conversation changes
   useEffect(() => {
     setUserHasScrolledUp(false);
   }, [currentConversationId]);
 
+  useEffect(() => {
+    setFeedback({});
+    if (!currentConversationId) return;
+    api.feedback
+      .list({ conversationId: currentConversationId })
+      .then((rows) => setFeedback(Object.fromEntries(rows.map((f) => [f.messageId, f]))))
+      .catch((error) => console.error("Failed to load feedback:", error));
+  }, [currentConversationId]);
+
+  useEffect(() => {
+    setReferences([]);
+    if (!currentConversationId) return;
+    api.conversations
+      .memoryReferences(currentConversationId)
+      .then(setReferences)
+      .catch((error) => console.error("Failed to load memory references:", error));
+  }, [currentConversationId]);
+
+  const noteReferences = (refs: MemoryReference[] = []) => {
+    if (refs.length === 0) return;
+    setReferences((prev) => [...prev, ...refs]);
+    onMemoriesReferenced(refs);
+  };
+
+  // Memories the reply currently shown cited; an alternate has its own requestId.
+  const citedMemories = (message: Message) =>
+    references
+      .filter((r) => r.messageId === message.id && r.requestId === message.requestId)
+      .map((r) => memories.find((m) => m.id === r.memoryId))
+      .filter((m): m is Memory => !!m);
+
   const handleNewConversation = async () => {
     if (versions.length === 1) {
       await onNewConversation(versions[0].id);
@@ -108,70 +188,376 @@ export default function ChatPage({
     setShowVersionPicker(false);
   };
 
-    /* 001 */ const handleSend = async (content: string) => {
-    /* 002 */   let targetConvId = currentConversationId;
-    /* 003 */
-    /* 004 */   if (!targetConvId) {
-    /* 005 */     try {
-    /* 006 */       const conv = await onNewConversation(versions[0].id);
-    /* 007 */       targetConvId = conv.id;
-    /* 008 */     } catch (error) {
-    /* 009 */       console.error("Failed to create conversation:", error);
-    /* 010 */       return;
-    /* 011 */     }
-    /* 012 */   }
-    /* 013 */
-    /* 014 */   const conv = conversations.find((c) => c.id === targetConvId);
-    /* 015 */   const version = versions.find((v) => v.id === (conv?.versionId || versions[0].id));
-    /* 016 */   const currentMessages = conv?.messages || [];
-    /* 017 */
-    /* 018 */   // Track this request so older requests can't "win" UI state updates.
-    /* 019 */   const requestId = ++pendingRequestIdRef.current;
-    /* 020 */
-    /* 021 */   await onSendMessage(targetConvId, content, "user");
-    /* 022 */
-    /* 023 */   setUiError(null);
-    /* 024 */   setIsTyping(true);
-    /* 025 */
-    /* 026 */   try {
-    /* 027 */     const response = await api.chat.complete(
-    /* 028 */       [...currentMessages, { role: "user", content }],
-    /* 029 */       settings.modelName,
-    /* 030 */       version?.systemPrompt || "",
-    /* 031 */     );
-    /* 032 */
-    /* 033 */     // If a newer request started, ignore this result.
-    /* 034 */     if (requestId !== pendingRequestIdRef.current) return;
-    /* 035 */
-    /* 036 */     if (response.mock) {
-    /* 037 */       setIsDemoMode(true);
-    /* 038 */     }
-    /* 039 */
-    /* 040 */     const assistantMessage =
-    /* 041 */       response.choices?.[0]?.message?.content ||
-    /* 042 */       "I'm here with you. What's on your mind?";
-    /* 043 */
-    /* 044 */     await onSendMessage(targetConvId, assistantMessage, "assistant");
-    /* 045 */   } catch (error: any) {
-    /* 046 */     // If a newer request started, ignore this error.
-    /* 047 */     if (requestId !== pendingRequestIdRef.current) return;
-    /* 048 */
-    /* 049 */     console.error("Chat error:", error);
-    /* 050 */
-    /* 051 */     const message =
-    /* 052 */       typeof error?.message === "string" && error.message.trim()
-    /* 053 */         ? error.message
-    /* 054 */         : "Something went wrong.";
-    /* 055 */
-    /* 056 */     // IMPORTANT: do NOT fabricate Nova messages on system errors.
-    /* 057 */     setUiError(message);
-    /* 058 */   } finally {
-    /* 059 */     // Only the latest request should control typing state.
-    /* 060 */     if (requestId === pendingRequestIdRef.current) {
-    /* 061 */       setIsTyping(false);
-    /* 062 */     }
-    /* 063 */   }
-    /* 064 */ };
+  const beginTurn = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    runningRequestIdRef.current = null;
+    setStoppedTurn(null);
+    return controller;
+  };
+
+  const endTurn = (controller: AbortController) => {
+    if (abortRef.current !== controller) return;
+    abortRef.current = null;
+    runningRequestIdRef.current = null;
+  };
+
+  // Abort the fetch and cancel the turn on the server. Either one is enough to stop
+  // it; the explicit call covers proxies that keep the upstream connection open.
+  const handleStop = () => {
+    const requestId = runningRequestIdRef.current;
+    abortRef.current?.abort();
+    if (requestId) api.turns.stop(requestId).catch(() => undefined);
+  };
+
+  const handleKeepPartial = async () => {
+    if (!stoppedTurn) return;
+    const { conversationId, requestId, regeneratedMessageId } = stoppedTurn;
+    setStoppedTurn(null);
+    try {
+      const { assistantMessage } = await api.conversations.keepPartial(
+        conversationId,
+        requestId,
+      );
+      if (regeneratedMessageId) onMessageUpdated(conversationId, assistantMessage);
+      else await onTurnComplete(conversationId, [assistantMessage]);
+    } catch (error: any) {
+      setUiError({ error: error?.message || "Could not keep the partial reply." });
+    }
+  };
+
+  const handleSend = async (content: string) => {
+    let targetConvId = currentConversationId;
+
+    if (!targetConvId) {
+      try {
+        const conv = await onNewConversation(versions[0].id);
+        targetConvId = conv.id;
+      } catch (error) {
+        console.error("Failed to create conversation:", error);
+        return;
+      }
+    }
+
+    // Track this request so older requests can't "win" UI state updates.
+    const requestId = ++pendingRequestIdRef.current;
+    const controller = beginTurn();
+    const started: { turn?: ChatTurnStart; text: string } = { text: "" };
+
+    setUiError(null);
+    setPendingUserText(content);
+    setIsTyping(true);
+    setStreamingText(null);
+
+    try {
+      // The server persists both messages and builds history from storage.
+      const response = await api.conversations.turn(
+        targetConvId,
+        content,
+        (delta) => {
+          started.text += delta;
+          // Deltas are pre-sanitized server-side; never retracted once shown.
+          if (requestId !== pendingRequestIdRef.current) return;
+          setStreamingText((prev) => (prev ?? "") + delta);
+        },
+        {
+          signal: controller.signal,
+          onStart: (start) => {
+            started.turn = start;
+            runningRequestIdRef.current = start.requestId;
+          },
+        },
+      );
+
+      // If a newer request started, ignore this result.
+      if (requestId !== pendingRequestIdRef.current) return;
+
+      if (response.mock) {
+        setIsDemoMode(true);
+      }
+
+      // Swap the pending bubbles for the saved rows in one render.
+      setIsTyping(false);
+      setStreamingText(null);
+      setPendingUserText(null);
+      await onTurnComplete(targetConvId, [
+        response.userMessage,
+        response.assistantMessage,
+      ]);
+      noteReferences(response.memoryReferences);
+    } catch (error: any) {
+      // Stopped: the user message is saved, the reply is not (unless kept below).
+      if (controller.signal.aborted) {
+        if (started.turn) {
+          await onTurnComplete(targetConvId, [started.turn.userMessage]);
+          if (started.text.trim() && requestId === pendingRequestIdRef.current) {
+            setStoppedTurn({
+              conversationId: targetConvId,
+              requestId: started.turn.requestId,
+              content: started.text.trim(),
+            });
+          }
+        }
+        return;
+      }
+
+      const payload: Partial<ModelErrorPayload> = error?.payload ?? {};
+
+      // The user message may already be saved even though the reply failed.
+      if (payload.userMessage) {
+        await onTurnComplete(targetConvId, [payload.userMessage]);
+      }
+
+      // If a newer request started, ignore this error.
+      if (requestId !== pendingRequestIdRef.current) return;
+
+      console.error("Chat error:", error);
+
+      const message =
+        typeof error?.message === "string" && error.message.trim()
+          ? error.message
+          : "Something went wrong.";
+
+      // IMPORTANT: do NOT fabricate Nova messages on system errors.
+      setUiError({ ...payload, error: message });
+    } finally {
+      // Only the latest request should control typing state.
+      if (requestId === pendingRequestIdRef.current) {
+        setIsTyping(false);
+        setStreamingText(null);
+        setPendingUserText(null);
+        endTurn(controller);
+      }
+    }
+  };
+
+  const handleRegenerate = async (message: Message) => {
+    if (!currentConversationId) return;
+    const conversationId = currentConversationId;
+    const requestId = ++pendingRequestIdRef.current;
+    const controller = beginTurn();
+    const started = { requestId: "", text: "" };
+
+    setUiError(null);
+    setRegeneratingId(message.id);
+    setIsTyping(true);
+    setStreamingText(null);
+
+    try {
+      const response = await api.conversations.regenerate(
+        conversationId,
+        message.id,
+        (delta) => {
+          started.text += delta;
+          if (requestId !== pendingRequestIdRef.current) return;
+          setStreamingText((prev) => (prev ?? "") + delta);
+        },
+        {
+          signal: controller.signal,
+          onStart: (start) => {
+            started.requestId = start.requestId;
+            runningRequestIdRef.current = start.requestId;
+          },
+        },
+      );
+      if (response.mock) {
+        setIsDemoMode(true);
+      }
+      onMessageUpdated(conversationId, response.assistantMessage);
+      noteReferences(response.memoryReferences);
+    } catch (error: any) {
+      // Stopped: the previous reply stays; what streamed is kept only on request.
+      if (controller.signal.aborted) {
+        if (started.text.trim() && requestId === pendingRequestIdRef.current) {
+          setStoppedTurn({
+            conversationId,
+            requestId: started.requestId,
+            content: started.text.trim(),
+            regeneratedMessageId: message.id,
+          });
+        }
+        return;
+      }
+      if (requestId !== pendingRequestIdRef.current) return;
+      console.error("Regenerate error:", error);
+      // The previous reply is kept; nothing was saved.
+      setUiError({
+        ...(error?.payload ?? {}),
+        error: error?.message || "Something went wrong.",
+      });
+    } finally {
+      if (requestId === pendingRequestIdRef.current) {
+        setIsTyping(false);
+        setStreamingText(null);
+        setRegeneratingId(null);
+        endTurn(controller);
+      }
+    }
+  };
+
+  const handleSelectAlternate = async (message: Message, index: number) => {
+    if (!currentConversationId) return;
+    try {
+      onMessageUpdated(
+        currentConversationId,
+        await api.conversations.selectAlternate(currentConversationId, message.id, index),
+      );
+    } catch (error: any) {
+      setUiError({ error: error?.message || "Could not switch replies." });
+    }
+  };
+
+  // Reload the branch being shown: the server decides which messages are on it.
+  const showBranch = async (conversationId: string) => {
+    const conversation: Conversation = await api.conversations.get(conversationId);
+    onBranchChanged(conversationId, conversation.messages);
+  };
+
+  const handleEdit = async (message: Message, content: string) => {
+    if (!currentConversationId) return;
+    const conversationId = currentConversationId;
+    const requestId = ++pendingRequestIdRef.current;
+    const controller = beginTurn();
+
+    setUiError(null);
+    setBranchingFromId(message.id);
+    setPendingUserText(content);
+    setIsTyping(true);
+    setStreamingText(null);
+
+    try {
+      const response = await api.conversations.edit(
+        conversationId,
+        message.id,
+        content,
+        (delta) => {
+          if (requestId !== pendingRequestIdRef.current) return;
+          setStreamingText((prev) => (prev ?? "") + delta);
+        },
+        {
+          signal: controller.signal,
+          onStart: (start) => {
+            runningRequestIdRef.current = start.requestId;
+          },
+        },
+      );
+      if (response.mock) {
+        setIsDemoMode(true);
+      }
+      await showBranch(conversationId);
+      noteReferences(response.memoryReferences);
+    } catch (error: any) {
+      // Stopped: the edited message is on its new branch without a reply.
+      if (controller.signal.aborted) {
+        await showBranch(conversationId).catch(() => undefined);
+        return;
+      }
+      const payload: Partial<ModelErrorPayload> = error?.payload ?? {};
+      // The edited message may be saved on its new branch even though the reply failed.
+      if (payload.userMessage) {
+        await showBranch(conversationId).catch(() => undefined);
+      }
+      if (requestId !== pendingRequestIdRef.current) return;
+      console.error("Edit error:", error);
+      setUiError({ ...payload, error: error?.message || "Something went wrong." });
+    } finally {
+      if (requestId === pendingRequestIdRef.current) {
+        setIsTyping(false);
+        setStreamingText(null);
+        setPendingUserText(null);
+        setBranchingFromId(null);
+        endTurn(controller);
+      }
+    }
+  };
+
+  const handleSwitchBranch = async (messageId: string) => {
+    if (!currentConversationId) return;
+    try {
+      const conversation = await api.conversations.switchBranch(
+        currentConversationId,
+        messageId,
+      );
+      onBranchChanged(currentConversationId, conversation.messages);
+    } catch (error: any) {
+      setUiError({ error: error?.message || "Could not switch branches." });
+    }
+  };
+
+  const handleRate = async (message: Message, rating: FeedbackRating, note?: string) => {
+    if (!currentConversationId) return;
+    try {
+      const saved = await api.feedback.rate(
+        currentConversationId,
+        message.id,
+        rating,
+        note,
+      );
+      setFeedback((prev) => ({ ...prev, [message.id]: saved }));
+    } catch (error: any) {
+      setUiError({ error: error?.message || "Could not save feedback." });
+    }
+  };
+
+  const handleClearRating = async (message: Message) => {
+    if (!currentConversationId) return;
+    try {
+      await api.feedback.clear(currentConversationId, message.id);
+      setFeedback(({ [message.id]: _removed, ...rest }) => rest);
+    } catch (error: any) {
+      setUiError({ error: error?.message || "Could not clear feedback." });
+    }
+  };
+
+  // A rating belongs to the reply it was given for; after a regenerate or an
+  // alternate switch the message shows as unrated until rated again.
+  const feedbackFor = (message: Message) => {
+    const rating = feedback[message.id];
+    return rating && rating.requestId === (message.requestId ?? null) ? rating : null;
+  };
+
+  const branchingFromIndex = currentConversation
+    ? currentConversation.messages.findIndex((m) => m.id === branchingFromId)
+    : -1;
+  const visibleMessages = currentConversation
+    ? branchingFromIndex >= 0
+      ? currentConversation.messages.slice(0, branchingFromIndex)
+      : currentConversation.messages
+    : [];
+
+  // Jump to a memory's source message. One on another branch is brought onto the
+  // active path first; one that no longer exists is given up on quietly.
+  useEffect(() => {
+    if (!focusMessageId || !currentConversationId || !currentConversation) return;
+    const el = scrollContainerRef.current?.querySelector(
+      `[data-message-id="${focusMessageId}"]`,
+    );
+    if (!el) {
+      if (focusBranchTriedRef.current === focusMessageId) {
+        onMessageFocused();
+        return;
+      }
+      focusBranchTriedRef.current = focusMessageId;
+      const conversationId = currentConversationId;
+      api.conversations
+        .switchBranch(conversationId, focusMessageId)
+        .then((conversation) => onBranchChanged(conversationId, conversation.messages))
+        .catch(() => onMessageFocused());
+      return;
+    }
+    focusBranchTriedRef.current = null;
+    setUserHasScrolledUp(true);
+    el.scrollIntoView({ block: "center" });
+    setHighlightedId(focusMessageId);
+    onMessageFocused();
+  }, [focusMessageId, currentConversationId, currentConversation?.messages]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
 
   return (
     <div className="flex h-screen bg-background">
@@ -180,7 +566,7 @@ export default function ChatPage({
         versions={versions}
         currentConversationId={currentConversationId}
         onNewConversation={handleNewConversation}
-        onSelectConversation={setCurrentConversationId}
+        onSelectConversation={onSelectConversation}
       />
 
       <main className="flex-1 flex flex-col min-w-0 relative">
@@ -212,9 +598,19 @@ export default function ChatPage({
           <>
             <header className="flex flex-col border-b border-border/30 bg-card/30 backdrop-blur-sm z-10">
               {uiError && (
-                <div className="px-6 py-2 bg-red-500/10 border-b border-red-500/20">
+                <div
+                  className="px-6 py-2 bg-red-500/10 border-b border-red-500/20"
+                  role="alert"
+                  data-testid="banner-chat-error"
+                >
                   <p className="text-xs text-red-300 text-center">
-                    {uiError}
+                    {uiError.error}
+                    {uiError.upstreamStatus
+                      ? ` (upstream ${uiError.upstreamStatus})`
+                      : ""}
+                    {uiError.retryable && (
+                      <span className="text-red-300/70"> You can try sending again.</span>
+                    )}
                   </p>
                 </div>
               )}
@@ -249,14 +645,120 @@ export default function ChatPage({
                 )}
               >
                 <div className="space-y-4 pb-4">
-                  {currentConversation.messages.map((message, i) => (
+                  {visibleMessages.map((message, i) => {
+                    const isLastMessage = i === visibleMessages.length - 1;
+                    const isRegenerating = message.id === regeneratingId;
+                    return (
+                      <ChatMessage
+                        key={message.id}
+                        message={
+                          isRegenerating
+                            ? {
+                                ...message,
+                                content: streamingText ?? "…",
+                                isStreaming: true,
+                              }
+                            : message
+                        }
+                        isLast={pendingUserText === null && isLastMessage}
+                        onRegenerate={
+                          isLastMessage && message.role === "assistant" && !isTyping
+                            ? () => handleRegenerate(message)
+                            : undefined
+                        }
+                        onSelectAlternate={
+                          isTyping
+                            ? undefined
+                            : (index) => handleSelectAlternate(message, index)
+                        }
+                        onEdit={
+                          message.role === "user" && !isTyping
+                            ? (content) => handleEdit(message, content)
+                            : undefined
+                        }
+                        onSwitchBranch={isTyping ? undefined : handleSwitchBranch}
+                        feedback={feedbackFor(message)}
+                        onRate={
+                          message.role === "assistant" && !isRegenerating
+                            ? (rating, note) => handleRate(message, rating, note)
+                            : undefined
+                        }
+                        onClearRating={() => handleClearRating(message)}
+                        onRemember={
+                          isRegenerating
+                            ? undefined
+                            : () =>
+                                setRememberDraft({
+                                  content: message.content,
+                                  sourceConversationId: currentConversationId,
+                                  sourceMessageId: message.id,
+                                  sourceSnapshot: message.content,
+                                })
+                        }
+                        highlighted={message.id === highlightedId}
+                        citedMemories={
+                          message.role === "assistant" && !isRegenerating
+                            ? citedMemories(message)
+                            : undefined
+                        }
+                      />
+                    );
+                  })}
+                  {pendingUserText !== null && (
                     <ChatMessage
-                      key={message.id}
-                      message={message}
-                      isLast={i === currentConversation.messages.length - 1}
+                      message={{
+                        id: "pending",
+                        role: "user",
+                        content: pendingUserText,
+                        timestamp: new Date().toISOString(),
+                      }}
+                      isLast={!isTyping}
                     />
-                  ))}
-                  <AnimatePresence>{isTyping && <TypingIndicator />}</AnimatePresence>
+                  )}
+                  {isTyping && regeneratingId === null && streamingText !== null && (
+                    <ChatMessage
+                      message={{
+                        id: "streaming",
+                        role: "assistant",
+                        content: streamingText,
+                        timestamp: new Date().toISOString(),
+                        isStreaming: true,
+                      }}
+                      isLast
+                    />
+                  )}
+                  <AnimatePresence>
+                    {isTyping && regeneratingId === null && streamingText === null && (
+                      <TypingIndicator />
+                    )}
+                  </AnimatePresence>
+                  {stoppedTurn?.conversationId === currentConversationId && !isTyping && (
+                    <div
+                      className="max-w-3xl mx-auto w-full px-4 space-y-2"
+                      data-testid="stopped-turn"
+                    >
+                      <p className="px-4 py-3 rounded-2xl rounded-bl-sm border border-dashed border-border/50 text-sm text-muted-foreground max-w-[75%] ml-11">
+                        {stoppedTurn.content}
+                      </p>
+                      <div className="flex items-center gap-3 ml-12 text-xs text-muted-foreground">
+                        <span>Stopped. This partial reply isn't saved.</span>
+                        <button
+                          onClick={handleKeepPartial}
+                          className="text-purple-400 hover:text-purple-300"
+                          data-testid="button-keep-partial"
+                        >
+                          Keep it
+                        </button>
+                        <button
+                          onClick={() => setStoppedTurn(null)}
+                          className="hover:text-foreground"
+                          data-testid="button-discard-partial"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    </div>
+                  )}
                   <div ref={messagesEndRef} />
                 </div>
               </div>
@@ -274,6 +776,7 @@ export default function ChatPage({
                 onSend={handleSend}
                 onSwitchVersion={() => setShowVersionPicker(true)}
                 onExport={onExport}
+                onStop={isTyping ? handleStop : undefined}
                 className="max-w-3xl mx-auto"
               />
             </div>
@@ -323,6 +826,13 @@ export default function ChatPage({
           </>
         )}
       </AnimatePresence>
+
+      <MemoryDialog
+        open={rememberDraft !== null}
+        initial={rememberDraft ?? undefined}
+        onClose={() => setRememberDraft(null)}
+        onSave={onCreateMemory}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -15,22 +15,28 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Sidebar } from "@/components/nova/Sidebar";
+import { GateTesterPanel } from "@/components/nova/GateTesterPanel";
+import { UsagePanel } from "@/components/nova/UsagePanel";
 import { api } from "@/lib/api";
+import { UsageTotals } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
+// syncStatus/stats/hasApiKey are only present on older servers; the Stage 4
+// diagnostics payload does not carry them.
 interface DiagnosticsData {
-  syncStatus: {
+  syncStatus?: {
     schemaVersion: number;
     lastSyncTime: string | null;
     syncCount: number;
     lastError: string | null;
   };
-  stats: {
+  stats?: {
     versionsCount: number;
     conversationsCount: number;
     memoriesCount: number;
   };
-  hasApiKey: boolean;
+  hasApiKey?: boolean;
+  usage?: { days: number; totals: UsageTotals | null };
 }
 
 interface DiagnosticsPageProps {
@@ -126,120 +132,135 @@ export default function DiagnosticsPage({
           ) : (
             diagnostics && (
               <div className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  <Card className="bg-card/50 border-border/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
-                        <Database className="w-4 h-4" />
-                        Schema Version
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-2xl font-bold text-gradient-nova">
-                        {diagnostics.syncStatus.schemaVersion}
-                      </p>
-                    </CardContent>
-                  </Card>
+                {diagnostics.syncStatus && diagnostics.stats && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    <Card className="bg-card/50 border-border/50">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+                          <Database className="w-4 h-4" />
+                          Schema Version
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-2xl font-bold text-gradient-nova">
+                          {diagnostics.syncStatus.schemaVersion}
+                        </p>
+                      </CardContent>
+                    </Card>
 
-                  <Card className="bg-card/50 border-border/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
-                        <Clock className="w-4 h-4" />
-                        Last Sync
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-lg font-medium">
-                        {diagnostics.syncStatus.lastSyncTime
-                          ? new Date(diagnostics.syncStatus.lastSyncTime).toLocaleString()
-                          : "Never"}
-                      </p>
-                    </CardContent>
-                  </Card>
+                    <Card className="bg-card/50 border-border/50">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+                          <Clock className="w-4 h-4" />
+                          Last Sync
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-lg font-medium">
+                          {diagnostics.syncStatus.lastSyncTime
+                            ? new Date(
+                                diagnostics.syncStatus.lastSyncTime,
+                              ).toLocaleString()
+                            : "Never"}
+                        </p>
+                      </CardContent>
+                    </Card>
 
-                  <Card className="bg-card/50 border-border/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
-                        <RefreshCw className="w-4 h-4" />
-                        Sync Count
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-2xl font-bold">
-                        {diagnostics.syncStatus.syncCount}
-                      </p>
-                    </CardContent>
-                  </Card>
+                    <Card className="bg-card/50 border-border/50">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+                          <RefreshCw className="w-4 h-4" />
+                          Sync Count
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-2xl font-bold">
+                          {diagnostics.syncStatus.syncCount}
+                        </p>
+                      </CardContent>
+                    </Card>
 
-                  <Card className="bg-card/50 border-border/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
-                        <Server className="w-4 h-4" />
-                        API Key Status
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <Badge
-                        variant={diagnostics.hasApiKey ? "default" : "secondary"}
-                        className={cn(
-                          diagnostics.hasApiKey &&
-                            "bg-green-500/20 text-green-400 border-green-500/30",
-                        )}
-                      >
-                        {diagnostics.hasApiKey ? (
-                          <>
-                            <CheckCircle className="w-3 h-3 mr-1" /> Connected
-                          </>
-                        ) : (
-                          <>
-                            <AlertCircle className="w-3 h-3 mr-1" /> Not Set
-                          </>
-                        )}
-                      </Badge>
-                    </CardContent>
-                  </Card>
+                    <Card className="bg-card/50 border-border/50">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+                          <Server className="w-4 h-4" />
+                          API Key Status
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <Badge
+                          variant={diagnostics.hasApiKey ? "default" : "secondary"}
+                          className={cn(
+                            diagnostics.hasApiKey &&
+                              "bg-green-500/20 text-green-400 border-green-500/30",
+                          )}
+                        >
+                          {diagnostics.hasApiKey ? (
+                            <>
+                              <CheckCircle className="w-3 h-3 mr-1" /> Connected
+                            </>
+                          ) : (
+                            <>
+                              <AlertCircle className="w-3 h-3 mr-1" /> Not Set
+                            </>
+                          )}
+                        </Badge>
+                      </CardContent>
+                    </Card>
 
-                  <Card className="bg-card/50 border-border/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium text-muted-foreground">
-                        Total Versions
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-2xl font-bold">
-                        {diagnostics.stats.versionsCount}
-                      </p>
-                    </CardContent>
-                  </Card>
+                    <Card className="bg-card/50 border-border/50">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground">
+                          Total Versions
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-2xl font-bold">
+                          {diagnostics.stats.versionsCount}
+                        </p>
+                      </CardContent>
+                    </Card>
 
-                  <Card className="bg-card/50 border-border/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium text-muted-foreground">
-                        Total Conversations
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-2xl font-bold">
-                        {diagnostics.stats.conversationsCount}
-                      </p>
-                    </CardContent>
-                  </Card>
+                    <Card className="bg-card/50 border-border/50">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground">
+                          Total Conversations
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-2xl font-bold">
+                          {diagnostics.stats.conversationsCount}
+                        </p>
+                      </CardContent>
+                    </Card>
 
-                  <Card className="bg-card/50 border-border/50">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-sm font-medium text-muted-foreground">
-                        Total Memories
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-2xl font-bold">
-                        {diagnostics.stats.memoriesCount}
-                      </p>
-                    </CardContent>
-                  </Card>
-                </div>
+                    <Card className="bg-card/50 border-border/50">
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground">
+                          Total Memories
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-2xl font-bold">
+                          {diagnostics.stats.memoriesCount}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  </div>
+                )}
+
+                {diagnostics.usage && (
+                  <UsagePanel
+                    days={diagnostics.usage.days}
+                    totals={diagnostics.usage.totals}
+                    versions={versions}
+                    conversations={conversations}
+                  />
+                )}
+
+                <GateTesterPanel conversations={conversations} />
 
-                {diagnostics.syncStatus.lastError && (
+                {diagnostics.syncStatus?.lastError && (
                   <Card className="bg-destructive/10 border-destructive/30">
                     <CardHeader className="pb-2">
                       <CardTitle className="text-sm font-medium flex items-center gap-2 text-destructive">
@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { useLocation } from "wouter";
+import { ArrowLeft, ThumbsDown, ThumbsUp } from "lucide-react";
+import { format } from "date-fns";
+import { Sidebar } from "@/components/nova/Sidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import {
+  Conversation,
+  FeedbackFilters,
+  FeedbackRating,
+  MessageFeedback,
+  NovaVersion,
+} from "@/lib/types";
+
+interface FeedbackPageProps {
+  conversations: Conversation[];
+  versions: NovaVersion[];
+}
+
+const ANY = "__any__";
+
+const gateLabel = (gate: string | null) =>
+  gate === "model" ? "Model" : gate ? `Gate: ${gate}` : "Unknown";
+
+// Thumbs up/down per key, most thumbs-down first.
+function tally(rows: MessageFeedback[], key: (f: MessageFeedback) => string | null) {
+  const counts = new Map<string | null, { up: number; down: number }>();
+  for (const f of rows) {
+    const k = key(f);
+    const entry = counts.get(k) ?? { up: 0, down: 0 };
+    entry[f.rating] += 1;
+    counts.set(k, entry);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1].down - a[1].down);
+}
+
+export default function FeedbackPage({ conversations, versions }: FeedbackPageProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [all, setAll] = useState<MessageFeedback[]>([]);
+  const [rows, setRows] = useState<MessageFeedback[]>([]);
+  const [filters, setFilters] = useState({ versionId: ANY, gate: ANY, rating: ANY });
+
+  const fail = (title: string) => (err: any) =>
+    toast({ title, description: err.message, variant: "destructive" });
+
+  useEffect(() => {
+    api.feedback.list().then(setAll).catch(fail("Failed to load feedback"));
+  }, []);
+
+  useEffect(() => {
+    const query: FeedbackFilters = {};
+    if (filters.versionId !== ANY) query.versionId = filters.versionId;
+    if (filters.gate !== ANY) query.gate = filters.gate;
+    if (filters.rating !== ANY) query.rating = filters.rating as FeedbackRating;
+    api.feedback.list(query).then(setRows).catch(fail("Failed to load feedback"));
+  }, [filters]);
+
+  const versionName = (id: string | null) =>
+    id ? (versions.find((v) => v.id === id)?.name ?? "Deleted version") : "Unknown";
+
+  const gates = Array.from(new Set(all.map((f) => f.gate).filter(Boolean))) as string[];
+
+  const Summary = ({
+    title,
+    entries,
+    label,
+  }: {
+    title: string;
+    entries: Array<[string | null, { up: number; down: number }]>;
+    label: (key: string | null) => string;
+  }) => (
+    <div className="p-4 rounded-xl bg-card/50 border border-border/50 space-y-2">
+      <h2 className="font-display text-sm font-semibold">{title}</h2>
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No ratings yet.</p>
+      ) : (
+        entries.map(([key, { up, down }]) => (
+          <div key={key ?? "none"} className="flex items-center gap-2 text-sm">
+            <span className="flex-1 min-w-0 truncate">{label(key)}</span>
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <ThumbsUp className="w-3 h-3" /> {up}
+            </span>
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <ThumbsDown className="w-3 h-3" /> {down}
+            </span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar
+        conversations={conversations}
+        versions={versions}
+        currentConversationId={null}
+        onNewConversation={() => navigate("/")}
+        onSelectConversation={() => navigate("/")}
+      />
+
+      <main className="flex-1 flex flex-col min-w-0">
+        <header className="flex items-center gap-4 px-6 py-4 border-b border-border/30 bg-card/30 backdrop-blur-sm">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/")}
+            className="lg:hidden"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <ThumbsUp className="w-6 h-6 text-purple-400 ml-8 lg:ml-0" />
+          <div className="flex-1">
+            <h1 className="font-display text-xl font-bold">Feedback</h1>
+            <p className="text-sm text-muted-foreground">
+              Your ratings of Nova's replies. Nothing adapts to them; they are for you to
+              read.
+            </p>
+          </div>
+        </header>
+
+        <ScrollArea className="flex-1 p-6">
+          <div className="max-w-3xl mx-auto space-y-8">
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="grid grid-cols-1 md:grid-cols-2 gap-3"
+            >
+              <Summary
+                title="By version"
+                entries={tally(all, (f) => f.versionId)}
+                label={versionName}
+              />
+              <Summary
+                title="By gate"
+                entries={tally(all, (f) => f.gate)}
+                label={gateLabel}
+              />
+            </motion.div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <Select
+                value={filters.versionId}
+                onValueChange={(versionId) => setFilters({ ...filters, versionId })}
+              >
+                <SelectTrigger
+                  className="bg-muted/30"
+                  data-testid="select-feedback-version"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All versions</SelectItem>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={v.id}>
+                      {v.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.gate}
+                onValueChange={(gate) => setFilters({ ...filters, gate })}
+              >
+                <SelectTrigger className="bg-muted/30" data-testid="select-feedback-gate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All gates</SelectItem>
+                  {gates.map((gate) => (
+                    <SelectItem key={gate} value={gate}>
+                      {gateLabel(gate)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.rating}
+                onValueChange={(rating) => setFilters({ ...filters, rating })}
+              >
+                <SelectTrigger
+                  className="bg-muted/30"
+                  data-testid="select-feedback-rating"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All ratings</SelectItem>
+                  <SelectItem value="up">Thumbs up</SelectItem>
+                  <SelectItem value="down">Thumbs down</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              {rows.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No feedback matches these filters.
+                </p>
+              )}
+              {rows.map((f) => (
+                <div
+                  key={f.id}
+                  className="p-4 rounded-lg bg-card/50 border border-border/50 space-y-2"
+                  data-testid={`feedback-${f.id}`}
+                >
+                  <div className="flex items-start gap-3">
+                    {f.rating === "up" ? (
+                      <ThumbsUp className="w-4 h-4 mt-0.5 text-purple-400 flex-shrink-0" />
+                    ) : (
+                      <ThumbsDown className="w-4 h-4 mt-0.5 text-red-400 flex-shrink-0" />
+                    )}
+                    <p className="flex-1 text-sm">{f.content}</p>
+                  </div>
+                  {f.note && (
+                    <p className="text-sm text-muted-foreground italic pl-7">
+                      “{f.note}”
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2 pl-7">
+                    <Badge variant="secondary">{versionName(f.versionId)}</Badge>
+                    <Badge variant="outline">{gateLabel(f.gate)}</Badge>
+                    {f.voiceMode && <Badge variant="outline">{f.voiceMode}</Badge>}
+                    {f.model && <Badge variant="outline">{f.model}</Badge>}
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(f.updatedAt), "MMM d, h:mm a")}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </ScrollArea>
+      </main>
+    </div>
+  );
+}
@@ -1,11 +1,15 @@
 import { useState } from "react";
-import { motion, AnimatePresence } from "framer-motion";
+import { motion } from "framer-motion";
 import { useLocation } from "wouter";
-import { Brain, Plus, Trash2, Tag, ArrowLeft, X, Search, Clock, Zap } from "lucide-react";
+import { Brain, Plus, Trash2, ArrowLeft, Search, Clock, History } from "lucide-react";
 import { Sidebar } from "@/components/nova/Sidebar";
+import {
+  MemoryDialog,
+  memoryTypes,
+  type MemoryDraft,
+} from "@/components/nova/MemoryDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   Select,
@@ -14,17 +18,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Memory, Conversation, NovaVersion } from "@/lib/types";
+import { Memory, MemoryType, Conversation, NovaVersion } from "@/lib/types";
 import { cn } from "@/lib/utils";
-import { format } from "date-fns";
+import { format, formatDistanceToNow, isPast } from "date-fns";
 
 interface MemoryPageProps {
   memories: Memory[];
   conversations: Conversation[];
   versions: NovaVersion[];
-  onCreateMemory: (memory: Omit<Memory, "id" | "createdAt">) => Memory | Promise<Memory>;
+  onCreateMemory: (memory: MemoryDraft) => Memory | Promise<Memory>;
   onUpdateMemory: (id: string, updates: Partial<Memory>) => void | Promise<void>;
   onDeleteMemory: (id: string) => void | Promise<void>;
+  // Select the conversation and scroll to the message on the chat page
+  onOpenMessage: (conversationId: string, messageId: string) => void;
 }
 
 const importanceColors = {
@@ -34,6 +40,16 @@ const importanceColors = {
   critical: "bg-red-500/20 text-red-400 border-red-500/30",
 };
 
+// "Cited 3 times, last 2 days ago", from the memory reference ledger
+function citationSummary(memory: Memory) {
+  const count = memory.referenceCount ?? 0;
+  if (!count || !memory.lastReferencedAt) return "Not cited yet";
+  const last = formatDistanceToNow(new Date(memory.lastReferencedAt), {
+    addSuffix: true,
+  });
+  return `Cited ${count} ${count === 1 ? "time" : "times"}, last ${last}`;
+}
+
 export default function MemoryPage({
   memories,
   conversations,
@@ -41,21 +57,20 @@ export default function MemoryPage({
   onCreateMemory,
   onUpdateMemory,
   onDeleteMemory,
+  onOpenMessage,
 }: MemoryPageProps) {
   const [, navigate] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
-  const [filterType, setFilterType] = useState<"all" | "short-term" | "long-term">("all");
+  const [filterType, setFilterType] = useState<"all" | MemoryType>("all");
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [newMemory, setNewMemory] = useState({
-    content: "",
-    tags: [] as string[],
-    importance: "medium" as Memory["importance"],
-    type: "long-term" as Memory["type"],
-    sourceConversationId: null as string | null,
-  });
-  const [tagInput, setTagInput] = useState("");
 
-  const filteredMemories = memories.filter((m) => {
+  // The server drops expired memories when it lists them; this hides ones that
+  // expire while the page is open.
+  const liveMemories = memories.filter(
+    (m) => !m.expiresAt || !isPast(new Date(m.expiresAt)),
+  );
+
+  const filteredMemories = liveMemories.filter((m) => {
     const matchesSearch =
       m.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
       m.tags.some((t) => t.toLowerCase().includes(searchQuery.toLowerCase()));
@@ -63,31 +78,6 @@ export default function MemoryPage({
     return matchesSearch && matchesType;
   });
 
-  const handleAddTag = () => {
-    if (tagInput.trim() && !newMemory.tags.includes(tagInput.trim())) {
-      setNewMemory({ ...newMemory, tags: [...newMemory.tags, tagInput.trim()] });
-      setTagInput("");
-    }
-  };
-
-  const handleRemoveTag = (tag: string) => {
-    setNewMemory({ ...newMemory, tags: newMemory.tags.filter((t) => t !== tag) });
-  };
-
-  const handleCreate = () => {
-    if (newMemory.content.trim()) {
-      onCreateMemory(newMemory);
-      setNewMemory({
-        content: "",
-        tags: [],
-        importance: "medium",
-        type: "long-term",
-        sourceConversationId: null,
-      });
-      setShowCreateDialog(false);
-    }
-  };
-
   const getConversationTitle = (id: string | null) => {
     if (!id) return null;
     return conversations.find((c) => c.id === id)?.title;
@@ -117,7 +107,7 @@ export default function MemoryPage({
           <div className="flex-1">
             <h1 className="font-display text-xl font-bold">Memory</h1>
             <p className="text-sm text-muted-foreground">
-              {memories.length} memories stored
+              {liveMemories.length} memories stored
             </p>
           </div>
           <Button
@@ -149,8 +139,11 @@ export default function MemoryPage({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Types</SelectItem>
-              <SelectItem value="short-term">Short-term</SelectItem>
-              <SelectItem value="long-term">Long-term</SelectItem>
+              {Object.entries(memoryTypes).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -167,216 +160,128 @@ export default function MemoryPage({
             </div>
           ) : (
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 max-w-6xl mx-auto">
-              {filteredMemories.map((memory) => (
-                <motion.div
-                  key={memory.id}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="p-4 rounded-xl bg-card border border-border/50 hover:border-purple-500/30 transition-colors"
-                  data-testid={`memory-card-${memory.id}`}
-                >
-                  <div className="flex items-start justify-between gap-2 mb-3">
-                    <span
-                      className={cn(
-                        "text-xs px-2 py-0.5 rounded-full border capitalize",
-                        importanceColors[memory.importance],
-                      )}
-                    >
-                      {memory.importance}
-                    </span>
-                    <div className="flex items-center gap-1">
-                      {memory.type === "short-term" ? (
-                        <Clock className="w-3 h-3 text-muted-foreground" />
-                      ) : (
-                        <Zap className="w-3 h-3 text-purple-400" />
-                      )}
-                      <span className="text-[10px] text-muted-foreground">
-                        {memory.type}
+              {filteredMemories.map((memory) => {
+                const { label, icon: TypeIcon } =
+                  memoryTypes[memory.type] ?? memoryTypes.fact;
+                const sourceTitle = getConversationTitle(memory.sourceConversationId);
+                const dueForReview =
+                  !!memory.reviewAfter && isPast(new Date(memory.reviewAfter));
+                return (
+                  <motion.div
+                    key={memory.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="p-4 rounded-xl bg-card border border-border/50 hover:border-purple-500/30 transition-colors"
+                    data-testid={`memory-card-${memory.id}`}
+                  >
+                    <div className="flex items-start justify-between gap-2 mb-3">
+                      <span
+                        className={cn(
+                          "text-xs px-2 py-0.5 rounded-full border capitalize",
+                          importanceColors[memory.importance],
+                        )}
+                      >
+                        {memory.importance}
                       </span>
+                      <div className="flex items-center gap-1">
+                        {dueForReview && (
+                          <span
+                            className="text-[10px] px-1.5 py-0.5 rounded-full bg-purple-500/20 text-purple-300"
+                            data-testid={`memory-review-${memory.id}`}
+                          >
+                            Review
+                          </span>
+                        )}
+                        <TypeIcon className="w-3 h-3 text-purple-400" />
+                        <span className="text-[10px] text-muted-foreground">{label}</span>
+                      </div>
                     </div>
-                  </div>
 
-                  <p className="text-sm text-foreground/90 leading-relaxed mb-3">
-                    {memory.content}
-                  </p>
+                    <p className="text-sm text-foreground/90 leading-relaxed mb-3">
+                      {memory.content}
+                    </p>
 
-                  {memory.tags.length > 0 && (
-                    <div className="flex flex-wrap gap-1 mb-3">
-                      {memory.tags.map((tag) => (
-                        <span
-                          key={tag}
-                          className="text-[10px] px-2 py-0.5 rounded-full bg-muted text-muted-foreground"
-                        >
-                          #{tag}
-                        </span>
-                      ))}
-                    </div>
-                  )}
+                    {/* The message as it read when saved, if the memory was reworded */}
+                    {memory.sourceSnapshot &&
+                      memory.sourceSnapshot !== memory.content && (
+                        <blockquote className="border-l-2 border-purple-500/30 pl-2 mb-3 text-xs text-muted-foreground line-clamp-3">
+                          {memory.sourceSnapshot}
+                        </blockquote>
+                      )}
 
-                  <div className="flex items-center justify-between text-[10px] text-muted-foreground/60">
-                    <span>{format(new Date(memory.createdAt), "MMM d, yyyy")}</span>
-                    {getConversationTitle(memory.sourceConversationId) && (
-                      <span className="truncate max-w-[120px]">
-                        from: {getConversationTitle(memory.sourceConversationId)}
-                      </span>
+                    {memory.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-3">
+                        {memory.tags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="text-[10px] px-2 py-0.5 rounded-full bg-muted text-muted-foreground"
+                          >
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
                     )}
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6 text-destructive/60 hover:text-destructive"
-                      onClick={() => onDeleteMemory(memory.id)}
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </Button>
-                  </div>
-                </motion.div>
-              ))}
-            </div>
-          )}
-        </ScrollArea>
-      </main>
-
-      <AnimatePresence>
-        {showCreateDialog && (
-          <>
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              onClick={() => setShowCreateDialog(false)}
-              className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
-            />
-            <motion.div
-              initial={{ opacity: 0, scale: 0.95, y: 20 }}
-              animate={{ opacity: 1, scale: 1, y: 0 }}
-              exit={{ opacity: 0, scale: 0.95, y: 20 }}
-              className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg p-6 bg-card border border-border rounded-2xl shadow-2xl z-50"
-            >
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="font-display text-lg font-semibold">Add Memory</h3>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => setShowCreateDialog(false)}
-                >
-                  <X className="w-4 h-4" />
-                </Button>
-              </div>
 
-              <div className="space-y-4">
-                <div>
-                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
-                    Content
-                  </label>
-                  <Textarea
-                    value={newMemory.content}
-                    onChange={(e) =>
-                      setNewMemory({ ...newMemory, content: e.target.value })
-                    }
-                    placeholder="What should Nova remember?"
-                    className="min-h-[100px]"
-                    data-testid="input-memory-content"
-                  />
-                </div>
+                    {memory.expiresAt && (
+                      <div className="flex items-center gap-1 mb-2 text-[10px] text-muted-foreground">
+                        <Clock className="w-3 h-3" />
+                        Expires {format(new Date(memory.expiresAt), "MMM d, yyyy")}
+                      </div>
+                    )}
 
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="text-sm font-medium text-muted-foreground mb-2 block">
-                      Type
-                    </label>
-                    <Select
-                      value={newMemory.type}
-                      onValueChange={(v) =>
-                        setNewMemory({ ...newMemory, type: v as Memory["type"] })
-                      }
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="long-term">Long-term</SelectItem>
-                        <SelectItem value="short-term">Short-term</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium text-muted-foreground mb-2 block">
-                      Importance
-                    </label>
-                    <Select
-                      value={newMemory.importance}
-                      onValueChange={(v) =>
-                        setNewMemory({
-                          ...newMemory,
-                          importance: v as Memory["importance"],
-                        })
-                      }
+                    <div
+                      className="flex items-center gap-1 mb-2 text-[10px] text-muted-foreground"
+                      data-testid={`memory-references-${memory.id}`}
                     >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="low">Low</SelectItem>
-                        <SelectItem value="medium">Medium</SelectItem>
-                        <SelectItem value="high">High</SelectItem>
-                        <SelectItem value="critical">Critical</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
+                      <History className="w-3 h-3" />
+                      {citationSummary(memory)}
+                    </div>
 
-                <div>
-                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
-                    Tags
-                  </label>
-                  <div className="flex gap-2 mb-2">
-                    <Input
-                      value={tagInput}
-                      onChange={(e) => setTagInput(e.target.value)}
-                      placeholder="Add a tag"
-                      onKeyDown={(e) =>
-                        e.key === "Enter" && (e.preventDefault(), handleAddTag())
-                      }
-                    />
-                    <Button variant="outline" onClick={handleAddTag}>
-                      <Tag className="w-4 h-4" />
-                    </Button>
-                  </div>
-                  {newMemory.tags.length > 0 && (
-                    <div className="flex flex-wrap gap-1">
-                      {newMemory.tags.map((tag) => (
-                        <span
-                          key={tag}
-                          className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground"
-                        >
-                          #{tag}
-                          <button onClick={() => handleRemoveTag(tag)}>
-                            <X className="w-3 h-3" />
+                    <div className="flex items-center justify-between text-[10px] text-muted-foreground/60">
+                      <span>{format(new Date(memory.createdAt), "MMM d, yyyy")}</span>
+                      {sourceTitle &&
+                        (memory.sourceMessageId ? (
+                          <button
+                            onClick={() => {
+                              onOpenMessage(
+                                memory.sourceConversationId!,
+                                memory.sourceMessageId!,
+                              );
+                              navigate("/");
+                            }}
+                            className="truncate max-w-[120px] hover:text-purple-300 hover:underline"
+                            title="Open the message this came from"
+                            data-testid={`button-memory-source-${memory.id}`}
+                          >
+                            from: {sourceTitle}
                           </button>
-                        </span>
-                      ))}
+                        ) : (
+                          <span className="truncate max-w-[120px]">
+                            from: {sourceTitle}
+                          </span>
+                        ))}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-destructive/60 hover:text-destructive"
+                        onClick={() => onDeleteMemory(memory.id)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
                     </div>
-                  )}
-                </div>
+                  </motion.div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </main>
 
-                <div className="flex justify-end gap-2 pt-2">
-                  <Button variant="ghost" onClick={() => setShowCreateDialog(false)}>
-                    Cancel
-                  </Button>
-                  <Button
-                    onClick={handleCreate}
-                    disabled={!newMemory.content.trim()}
-                    className="bg-purple-600 hover:bg-purple-500"
-                    data-testid="button-save-memory"
-                  >
-                    Save Memory
-                  </Button>
-                </div>
-              </div>
-            </motion.div>
-          </>
-        )}
-      </AnimatePresence>
+      <MemoryDialog
+        open={showCreateDialog}
+        onClose={() => setShowCreateDialog(false)}
+        onSave={onCreateMemory}
+      />
     </div>
   );
 }
@@ -0,0 +1,422 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { useLocation } from "wouter";
+import { ArrowLeft, Filter, FlaskConical, Plus, Trash2 } from "lucide-react";
+import { Sidebar } from "@/components/nova/Sidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import {
+  Conversation,
+  DefaultPhrase,
+  NovaVersion,
+  PhraseListKind,
+  PhraseMatchType,
+  PhrasePreview,
+  PhraseRule,
+} from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface PhrasesPageProps {
+  conversations: Conversation[];
+  versions: NovaVersion[];
+}
+
+const ALL_VERSIONS = "__all__";
+
+const LIST_INFO: Record<PhraseListKind, { title: string; description: string }> = {
+  banned: {
+    title: "Banned",
+    description: "Always removed from Nova's replies.",
+  },
+  conditional: {
+    title: "Conditional",
+    description: "Removed unless you asked what Nova is (e.g. “are you an AI?”).",
+  },
+};
+
+export default function PhrasesPage({ conversations, versions }: PhrasesPageProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [defaults, setDefaults] = useState<DefaultPhrase[]>([]);
+  const [entries, setEntries] = useState<PhraseRule[]>([]);
+  const [draft, setDraft] = useState({
+    list: "banned" as PhraseListKind,
+    matchType: "phrase" as PhraseMatchType,
+    versionId: ALL_VERSIONS,
+    pattern: "",
+  });
+  const [sample, setSample] = useState({
+    text: "",
+    userMessage: "",
+    versionId: ALL_VERSIONS,
+  });
+  const [preview, setPreview] = useState<PhrasePreview | null>(null);
+
+  const fail = (title: string) => (err: any) =>
+    toast({ title, description: err.message, variant: "destructive" });
+
+  const load = () =>
+    api.phraseLists
+      .list()
+      .then(({ defaults, entries }) => {
+        setDefaults(defaults);
+        setEntries(entries);
+      })
+      .catch(fail("Failed to load phrase lists"));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const versionName = (id: string | null) =>
+    id ? (versions.find((v) => v.id === id)?.name ?? "Deleted version") : null;
+
+  const handleAdd = async () => {
+    try {
+      const created = await api.phraseLists.create({
+        list: draft.list,
+        matchType: draft.matchType,
+        pattern: draft.pattern.trim(),
+        versionId: draft.versionId === ALL_VERSIONS ? null : draft.versionId,
+      });
+      setEntries((prev) => [...prev, created]);
+      setDraft({ ...draft, pattern: "" });
+    } catch (err: any) {
+      fail("Could not add entry")(err);
+    }
+  };
+
+  const toggleDefault = async (entry: DefaultPhrase, enabled: boolean) => {
+    try {
+      await api.phraseLists.setDefault(entry.id, enabled);
+      setDefaults((prev) => prev.map((d) => (d.id === entry.id ? { ...d, enabled } : d)));
+    } catch (err: any) {
+      fail("Could not update default")(err);
+    }
+  };
+
+  const toggleEntry = async (entry: PhraseRule, enabled: boolean) => {
+    try {
+      const updated = await api.phraseLists.update(entry.id, { enabled });
+      setEntries((prev) => prev.map((e) => (e.id === entry.id ? updated : e)));
+    } catch (err: any) {
+      fail("Could not update entry")(err);
+    }
+  };
+
+  const deleteEntry = async (entry: PhraseRule) => {
+    try {
+      await api.phraseLists.delete(entry.id);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (err: any) {
+      fail("Could not delete entry")(err);
+    }
+  };
+
+  const runPreview = async () => {
+    try {
+      setPreview(
+        await api.phraseLists.preview({
+          text: sample.text,
+          userMessage: sample.userMessage || undefined,
+          versionId: sample.versionId === ALL_VERSIONS ? null : sample.versionId,
+        }),
+      );
+    } catch (err: any) {
+      fail("Preview failed")(err);
+    }
+  };
+
+  const VersionSelect = ({
+    value,
+    onChange,
+    testId,
+  }: {
+    value: string;
+    onChange: (v: string) => void;
+    testId: string;
+  }) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="bg-muted/30" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_VERSIONS}>All versions</SelectItem>
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={v.id}>
+            {v.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const Row = ({
+    pattern,
+    matchType,
+    enabled,
+    label,
+    onToggle,
+    onDelete,
+    testId,
+  }: {
+    pattern: string;
+    matchType: PhraseMatchType;
+    enabled: boolean;
+    label: string;
+    onToggle: (enabled: boolean) => void;
+    onDelete?: () => void;
+    testId: string;
+  }) => (
+    <div
+      className={cn(
+        "flex items-center gap-3 px-4 py-2 rounded-lg border",
+        enabled
+          ? "bg-card/50 border-border/50"
+          : "bg-muted/30 border-border/30 opacity-60",
+      )}
+      data-testid={testId}
+    >
+      <code className="flex-1 min-w-0 truncate text-sm">{pattern}</code>
+      {matchType === "regex" && <Badge variant="outline">regex</Badge>}
+      <Badge variant="secondary" className="text-xs">
+        {label}
+      </Badge>
+      <Switch checked={enabled} onCheckedChange={onToggle} />
+      {onDelete ? (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-destructive/60 hover:text-destructive"
+          onClick={onDelete}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      ) : (
+        <span className="w-8" />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar
+        conversations={conversations}
+        versions={versions}
+        currentConversationId={null}
+        onNewConversation={() => navigate("/")}
+        onSelectConversation={() => navigate("/")}
+      />
+
+      <main className="flex-1 flex flex-col min-w-0">
+        <header className="flex items-center gap-4 px-6 py-4 border-b border-border/30 bg-card/30 backdrop-blur-sm">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/")}
+            className="lg:hidden"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <Filter className="w-6 h-6 text-purple-400 ml-8 lg:ml-0" />
+          <div className="flex-1">
+            <h1 className="font-display text-xl font-bold">Phrase Lists</h1>
+            <p className="text-sm text-muted-foreground">
+              Phrases removed from Nova's replies before you see them
+            </p>
+          </div>
+        </header>
+
+        <ScrollArea className="flex-1 p-6">
+          <div className="max-w-3xl mx-auto space-y-8">
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="p-4 rounded-xl bg-card/50 border border-border/50 space-y-3"
+            >
+              <h2 className="font-display text-lg font-semibold">Add an entry</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <Select
+                  value={draft.list}
+                  onValueChange={(v) => setDraft({ ...draft, list: v as PhraseListKind })}
+                >
+                  <SelectTrigger className="bg-muted/30" data-testid="select-phrase-list">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="banned">Banned</SelectItem>
+                    <SelectItem value="conditional">Conditional</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={draft.matchType}
+                  onValueChange={(v) =>
+                    setDraft({ ...draft, matchType: v as PhraseMatchType })
+                  }
+                >
+                  <SelectTrigger
+                    className="bg-muted/30"
+                    data-testid="select-phrase-match"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="phrase">Whole phrase</SelectItem>
+                    <SelectItem value="regex">Regular expression</SelectItem>
+                  </SelectContent>
+                </Select>
+                <VersionSelect
+                  value={draft.versionId}
+                  onChange={(v) => setDraft({ ...draft, versionId: v })}
+                  testId="select-phrase-version"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={draft.pattern}
+                  onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                  placeholder={
+                    draft.matchType === "regex"
+                      ? "e.g. rest (assured|easy)"
+                      : "e.g. no worries"
+                  }
+                  className="bg-muted/30"
+                  data-testid="input-phrase-pattern"
+                />
+                <Button
+                  onClick={handleAdd}
+                  disabled={!draft.pattern.trim()}
+                  className="bg-purple-600 hover:bg-purple-500"
+                  data-testid="button-add-phrase"
+                >
+                  <Plus className="w-4 h-4 mr-1" /> Add
+                </Button>
+              </div>
+            </motion.div>
+
+            {(["banned", "conditional"] as PhraseListKind[]).map((list) => (
+              <div key={list}>
+                <div className="flex items-baseline gap-2 mb-1">
+                  <h2 className="font-display text-lg font-semibold">
+                    {LIST_INFO[list].title}
+                  </h2>
+                </div>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {LIST_INFO[list].description}
+                </p>
+                <div className="space-y-2">
+                  {entries
+                    .filter((e) => e.list === list)
+                    .map((entry) => (
+                      <Row
+                        key={entry.id}
+                        pattern={entry.pattern}
+                        matchType={entry.matchType}
+                        enabled={entry.enabled}
+                        label={versionName(entry.versionId) ?? "All versions"}
+                        onToggle={(enabled) => toggleEntry(entry, enabled)}
+                        onDelete={() => deleteEntry(entry)}
+                        testId={`phrase-${entry.id}`}
+                      />
+                    ))}
+                  {defaults
+                    .filter((d) => d.list === list)
+                    .map((entry) => (
+                      <Row
+                        key={entry.id}
+                        pattern={entry.pattern}
+                        matchType={entry.matchType}
+                        enabled={entry.enabled}
+                        label="Built-in"
+                        onToggle={(enabled) => toggleDefault(entry, enabled)}
+                        testId={`phrase-default-${entry.pattern.replace(/\W+/g, "-")}`}
+                      />
+                    ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="p-4 rounded-xl bg-card/50 border border-border/50 space-y-3">
+              <div className="flex items-center gap-2">
+                <FlaskConical className="w-5 h-5 text-purple-400" />
+                <h2 className="font-display text-lg font-semibold">Preview</h2>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Runs the sanitizer on a sample reply with the lists above. No model call.
+              </p>
+              <Textarea
+                value={sample.text}
+                onChange={(e) => setSample({ ...sample, text: e.target.value })}
+                placeholder="Sample reply, e.g. It sounds like a long day. I'm here to help."
+                className="bg-muted/30"
+                data-testid="input-preview-text"
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <Input
+                  value={sample.userMessage}
+                  onChange={(e) => setSample({ ...sample, userMessage: e.target.value })}
+                  placeholder="Your message before it (optional)"
+                  className="bg-muted/30"
+                  data-testid="input-preview-user-message"
+                />
+                <VersionSelect
+                  value={sample.versionId}
+                  onChange={(v) => setSample({ ...sample, versionId: v })}
+                  testId="select-preview-version"
+                />
+              </div>
+              <Button
+                onClick={runPreview}
+                disabled={!sample.text.trim()}
+                variant="outline"
+                data-testid="button-run-preview"
+              >
+                Run preview
+              </Button>
+              {preview && (
+                <div
+                  className="space-y-2 border-t border-border/30 pt-3"
+                  data-testid="preview-result"
+                >
+                  <p className="text-sm">{preview.output}</p>
+                  {preview.sanitizedBy.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No entry matched.</p>
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs text-muted-foreground">Removed by:</span>
+                      {preview.sanitizedBy.map((e) => (
+                        <Badge key={e.id} variant="secondary">
+                          {e.pattern}
+                          <span className="ml-1 text-muted-foreground">
+                            (
+                            {e.source === "default"
+                              ? "built-in"
+                              : LIST_INFO[e.list].title.toLowerCase()}
+                            )
+                          </span>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+      </main>
+    </div>
+  );
+}
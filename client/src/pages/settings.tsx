@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import { useLocation, Link } from "wouter";
 import {
@@ -11,11 +11,12 @@ import {
   Check,
   LogOut,
   Activity,
-  Server,
   Volume2,
   Brain,
 } from "lucide-react";
 import { Sidebar } from "@/components/nova/Sidebar";
+import { ProviderKeyPanel } from "@/components/nova/ProviderKeyPanel";
+import { CustomVoiceModePanel } from "@/components/nova/CustomVoiceModePanel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -26,7 +27,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { NovaSettings, Conversation, NovaVersion, VoiceMode } from "@/lib/types";
+import {
+  NovaSettings,
+  Conversation,
+  NovaVersion,
+  VoiceMode,
+  GateLocale,
+  PermittedEndpoint,
+} from "@/lib/types";
+import { api } from "@/lib/api";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 
@@ -44,14 +53,29 @@ const providers = [
   { id: "openai", name: "OpenAI", endpoint: "https://api.openai.com/v1" },
   { id: "anthropic", name: "Anthropic", endpoint: "https://api.anthropic.com/v1" },
   { id: "custom", name: "Custom Endpoint", endpoint: "" },
+  // Deterministic offline replies; see server/providers/mock.ts for the [mock:...] directives.
+  { id: "mock", name: "Mock (offline)", endpoint: "mock://local" },
 ];
 
 const models = {
   openai: ["gpt-4", "gpt-4-turbo", "gpt-3.5-turbo"],
-  anthropic: ["claude-3-opus", "claude-3-sonnet", "claude-3-haiku"],
+  anthropic: [
+    "claude-3-5-sonnet-latest",
+    "claude-3-5-haiku-latest",
+    "claude-3-opus-latest",
+  ],
   custom: [],
+  mock: ["mock-1"],
 };
 
+const gateLanguages: { id: GateLocale | "auto"; name: string }[] = [
+  { id: "auto", name: "Detect from each message" },
+  { id: "en", name: "English" },
+  { id: "es", name: "Español" },
+  { id: "fr", name: "Français" },
+  { id: "de", name: "Deutsch" },
+];
+
 const voiceModes: { id: VoiceMode; name: string; description: string }[] = [
   {
     id: "quiet",
@@ -76,6 +100,17 @@ export default function SettingsPage({
   const { toast } = useToast();
   const [localSettings, setLocalSettings] = useState(settings);
   const [hasChanges, setHasChanges] = useState(false);
+  const [permittedEndpoints, setPermittedEndpoints] = useState<PermittedEndpoint[]>([]);
+
+  useEffect(() => {
+    api.endpoints
+      .list()
+      .then((data) => setPermittedEndpoints(data.endpoints))
+      .catch((error) => console.error("Failed to load permitted endpoints:", error));
+  }, []);
+
+  // Custom endpoints are whatever the operator added beyond the built-in providers.
+  const customEndpoints = permittedEndpoints.filter((e) => e.source !== "builtin");
 
   const handleChange = (updates: Partial<NovaSettings>) => {
     setLocalSettings((prev) => ({ ...prev, ...updates }));
@@ -87,7 +122,7 @@ export default function SettingsPage({
     if (provider) {
       handleChange({
         provider: providerId,
-        apiEndpoint: provider.endpoint,
+        apiEndpoint: provider.endpoint || customEndpoints[0]?.url || "",
         modelName: models[providerId as keyof typeof models]?.[0] || "",
       });
     }
@@ -218,21 +253,55 @@ export default function SettingsPage({
                     <label className="text-sm font-medium text-muted-foreground mb-2 block">
                       API Endpoint
                     </label>
-                    <Input
-                      value={localSettings.apiEndpoint}
-                      onChange={(e) => handleChange({ apiEndpoint: e.target.value })}
-                      placeholder="https://your-api.com/v1"
-                      data-testid="input-endpoint"
-                    />
+                    {customEndpoints.length > 0 ? (
+                      <Select
+                        value={localSettings.apiEndpoint}
+                        onValueChange={(v) => handleChange({ apiEndpoint: v })}
+                      >
+                        <SelectTrigger data-testid="select-endpoint">
+                          <SelectValue placeholder="Choose a permitted endpoint" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {customEndpoints.map((e) => (
+                            <SelectItem key={e.url} value={e.url}>
+                              {e.label} · {e.url}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        No custom endpoints are permitted on this server.
+                      </p>
+                    )}
                   </div>
                 )}
 
-                <div className="p-3 rounded-lg bg-muted/30 border border-border/30">
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <Server className="w-4 h-4" />
-                    <span>API key is configured server-side for security</span>
+                {permittedEndpoints.length > 0 && (
+                  <div>
+                    <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                      Permitted Endpoints
+                    </label>
+                    <ul
+                      className="space-y-1 text-xs font-mono text-muted-foreground"
+                      data-testid="list-permitted-endpoints"
+                    >
+                      {permittedEndpoints.map((e) => (
+                        <li key={e.url}>
+                          {e.label} · {e.url}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      Approved by the server operator via NOVA_ALLOWED_ENDPOINTS or
+                      config/endpoints.json.
+                    </p>
                   </div>
-                </div>
+                )}
+
+                {localSettings.provider !== "mock" && (
+                  <ProviderKeyPanel provider={localSettings.provider} />
+                )}
               </div>
             </motion.section>
 
@@ -313,10 +382,44 @@ export default function SettingsPage({
                     </button>
                   ))}
                 </div>
+                <label className="text-sm font-medium text-muted-foreground mt-4 mb-3 block">
+                  Custom Modes
+                </label>
+                <CustomVoiceModePanel
+                  selected={localSettings.voiceMode}
+                  onSelect={(id) => handleChange({ voiceMode: id })}
+                />
                 <p className="text-xs text-muted-foreground mt-3">
                   Voice mode affects Nova's response style without changing core identity.
                 </p>
               </div>
+
+              <div className="p-4 rounded-xl bg-card border border-border/50">
+                <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                  Language
+                </label>
+                <Select
+                  value={localSettings.language}
+                  onValueChange={(language) =>
+                    handleChange({ language: language as NovaSettings["language"] })
+                  }
+                >
+                  <SelectTrigger data-testid="select-language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gateLanguages.map((lang) => (
+                      <SelectItem key={lang.id} value={lang.id}>
+                        {lang.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-3">
+                  The language Nova listens for in greetings and short replies, and
+                  answers them in, without calling the model.
+                </p>
+              </div>
             </motion.section>
 
             <motion.section
@@ -336,7 +439,7 @@ export default function SettingsPage({
                     <h3 className="font-medium text-sm">Allow Memory References</h3>
                     <p className="text-xs text-muted-foreground mt-1">
                       When enabled, Nova can reference your stored memories during
-                      emotional conversations. Uses a 10-minute cooldown to avoid
+                      emotional conversations. Uses a cooldown (below) to avoid
                       over-referencing.
                     </p>
                   </div>
@@ -363,6 +466,44 @@ export default function SettingsPage({
                   </button>
                 </div>
               </div>
+
+              <div className="p-4 rounded-xl bg-card border border-border/50 space-y-3">
+                <div>
+                  <h3 className="font-medium text-sm">Cooldowns</h3>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    How long Nova waits, per conversation, before reflecting a feeling
+                    back again or referencing a memory again.
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-xs text-muted-foreground space-y-1">
+                    <span>Reflection (seconds)</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={3600}
+                      value={localSettings.reflectionCooldownSec}
+                      onChange={(e) =>
+                        handleChange({ reflectionCooldownSec: Number(e.target.value) })
+                      }
+                      data-testid="input-reflection-cooldown"
+                    />
+                  </label>
+                  <label className="text-xs text-muted-foreground space-y-1">
+                    <span>Memory reference (seconds)</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={86400}
+                      value={localSettings.continuityCooldownSec}
+                      onChange={(e) =>
+                        handleChange({ continuityCooldownSec: Number(e.target.value) })
+                      }
+                      data-testid="input-continuity-cooldown"
+                    />
+                  </label>
+                </div>
+              </div>
             </motion.section>
 
             <motion.section
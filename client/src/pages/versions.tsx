@@ -14,6 +14,7 @@ import {
 } from "lucide-react";
 import { Sidebar } from "@/components/nova/Sidebar";
 import { NovaAvatar } from "@/components/nova/NovaAvatar";
+import { VersionModelPanel } from "@/components/nova/VersionModelPanel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -436,6 +437,17 @@ export default function VersionsPage({
                       ))}
                     </div>
                   </div>
+
+                  <div>
+                    <label className="text-sm font-medium text-muted-foreground mb-3 block">
+                      Model
+                    </label>
+                    <VersionModelPanel
+                      value={isEditing ? editForm : selectedVersion}
+                      isEditing={isEditing}
+                      onChange={(updates) => setEditForm({ ...editForm, ...updates })}
+                    />
+                  </div>
                 </div>
               </motion.div>
             ) : (
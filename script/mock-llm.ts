@@ -0,0 +1,14 @@
+import { startMockLlmServer } from "../server/providers/mock-server";
+
+// Offline OpenAI-compatible stub for local runs:
+//   npm run mock:llm
+//   NOVA_ALLOWED_ENDPOINTS=http://127.0.0.1:11500/v1 npm run dev
+// then choose the "Custom Endpoint" provider in settings.
+const port = Number(process.env.PORT || 11500);
+
+startMockLlmServer({ port }).then((server) => {
+  console.log(`mock LLM listening on ${server.url}`);
+  const stop = () => server.close().then(() => process.exit(0));
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+});
@@ -0,0 +1,116 @@
+import type { ChatTurn } from "./providers";
+
+/**
+ * Token-budgeted context window.
+ * Every turn keeps the system prompt and the newest messages that fit the model's
+ * budget; older ones are dropped oldest-first and the system prompt says how many
+ * were left out, so the cut is deterministic and visible to the model.
+ * Token counts are a local estimate (no tokenizer round-trip).
+ */
+
+// Reply tokens requested from the model (was a literal in callModel).
+export const REPLY_MAX_TOKENS = 220;
+
+// Hard ceiling on input tokens per turn, whatever the model allows. Bounds cost.
+const DEFAULT_INPUT_CAP = 8_000;
+
+// Context window sizes by model-name prefix; longest prefix wins.
+const MODEL_CONTEXT_TOKENS: Array<[prefix: string, tokens: number]> = [
+  ["gpt-4o", 128_000],
+  ["gpt-4-turbo", 128_000],
+  ["gpt-4", 8_192],
+  ["gpt-3.5-turbo", 16_385],
+  ["claude-3", 200_000],
+  ["mock", 4_096],
+];
+const FALLBACK_CONTEXT_TOKENS = 8_192;
+
+const MESSAGE_OVERHEAD_TOKENS = 4; // role + separators per message
+
+export function estimateTokens(text: string): number {
+  // ~4 characters per token for English prose, never less than the word count.
+  const words = text.trim() ? text.trim().split(/\s+/).length : 0;
+  return Math.max(Math.ceil(text.length / 4), words);
+}
+
+export function estimateMessageTokens(message: ChatTurn): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function contextTokensForModel(model: string): number {
+  const name = model.toLowerCase();
+  let best: [string, number] | undefined;
+  for (const entry of MODEL_CONTEXT_TOKENS) {
+    if (name.startsWith(entry[0]) && (!best || entry[0].length > best[0].length)) {
+      best = entry;
+    }
+  }
+  return best ? best[1] : FALLBACK_CONTEXT_TOKENS;
+}
+
+export function inputBudgetForModel(
+  model: string,
+  replyTokens = REPLY_MAX_TOKENS,
+): number {
+  const cap = Number(process.env.NOVA_CONTEXT_INPUT_CAP) || DEFAULT_INPUT_CAP;
+  return Math.min(contextTokensForModel(model) - replyTokens, cap);
+}
+
+export interface ContextWindow {
+  systemPrompt: string;
+  messages: ChatTurn[];
+  sent: number;
+  dropped: number;
+  estimatedTokens: number;
+  budget: number;
+}
+
+export function omittedNote(count: number): string {
+  return `(${count} earlier message${count === 1 ? "" : "s"} omitted to fit the context window.)`;
+}
+
+export function fitContextWindow(input: {
+  systemPrompt: string;
+  messages: ChatTurn[];
+  budget: number;
+}): ContextWindow {
+  const history = input.messages.filter((m) => m.role !== "system");
+  // Reserve room for the omission note up front so adding it never overflows.
+  const noteReserve = estimateTokens(omittedNote(history.length)) + 2;
+  let used = estimateTokens(input.systemPrompt);
+
+  // Walk newest -> oldest; the latest message is always kept.
+  let start = history.length;
+  while (start > 0) {
+    const cost = estimateMessageTokens(history[start - 1]);
+    const isLatest = start === history.length;
+    const reserve = start - 1 > 0 ? noteReserve : 0;
+    if (!isLatest && used + cost + reserve > input.budget) break;
+    used += cost;
+    start -= 1;
+  }
+
+  // Never open a trimmed window on an assistant turn; an untrimmed one is sent as is.
+  while (start > 0 && start < history.length - 1 && history[start].role !== "user") {
+    used -= estimateMessageTokens(history[start]);
+    start += 1;
+  }
+
+  const kept = history.slice(start);
+  const dropped = history.length - kept.length;
+  let systemPrompt = input.systemPrompt;
+  if (dropped > 0) {
+    const note = omittedNote(dropped);
+    systemPrompt = `${systemPrompt}\n\n${note}`;
+    used += estimateTokens(note) + 1;
+  }
+
+  return {
+    systemPrompt,
+    messages: kept,
+    sent: kept.length,
+    dropped,
+    estimatedTokens: used,
+    budget: input.budget,
+  };
+}
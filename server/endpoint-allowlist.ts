@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+
+// ================== P1.1: API ENDPOINT ALLOWLIST (SSRF GUARD) ==================
+// The server only ever calls endpoints an operator approved. Built-ins cover the hosted
+// providers; anything else (e.g. a local Ollama / llama.cpp server) must be listed in
+// NOVA_ALLOWED_ENDPOINTS (comma-separated URLs) or in the JSON file at
+// NOVA_ENDPOINTS_FILE (default: config/endpoints.json):
+//   { "endpoints": [{ "url": "http://127.0.0.1:11434/v1", "label": "Ollama" }] }
+
+export interface AllowedEndpoint {
+  url: string; // normalized base URL
+  label: string;
+  source: "builtin" | "env" | "file";
+}
+
+const BUILTIN_ENDPOINTS: AllowedEndpoint[] = [
+  { url: "https://api.openai.com/v1", label: "OpenAI", source: "builtin" },
+  { url: "https://api.anthropic.com/v1", label: "Anthropic", source: "builtin" },
+];
+
+// Request paths users tend to paste along with the base URL.
+const KNOWN_SUFFIXES = ["/chat/completions", "/completions", "/messages"];
+
+// Canonicalize endpoints so variants like :443 or trailing slashes can't bypass checks.
+export function normalizeApiEndpoint(raw: string): string | null {
+  try {
+    const u = new URL(raw.trim());
+    if (u.protocol !== "https:" && u.protocol !== "http:") return null;
+    // Disallow embedded credentials
+    if (u.username || u.password) return null;
+    if (u.search || u.hash) return null;
+
+    // URL already drops default ports (443 for https, 80 for http)
+    let pathname = u.pathname.replace(/\/+$/, "");
+    for (const suffix of KNOWN_SUFFIXES) {
+      if (pathname.endsWith(suffix)) {
+        pathname = pathname.slice(0, -suffix.length);
+        break;
+      }
+    }
+
+    return `${u.protocol}//${u.host.toLowerCase()}${pathname}`;
+  } catch {
+    return null;
+  }
+}
+
+function readEndpointsFile(file: string): Array<{ url: string; label?: string }> {
+  if (!fs.existsSync(file)) return [];
+  const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  const entries = Array.isArray(parsed) ? parsed : parsed?.endpoints;
+  if (!Array.isArray(entries)) {
+    throw new Error(`${file}: expected an array or { "endpoints": [...] }`);
+  }
+  return entries.map((e) => (typeof e === "string" ? { url: e } : e));
+}
+
+export function loadEndpointAllowlist(
+  env: NodeJS.ProcessEnv = process.env,
+): AllowedEndpoint[] {
+  const candidates: Array<{
+    url: string;
+    label?: string;
+    source: AllowedEndpoint["source"];
+  }> = [];
+
+  for (const url of (env.NOVA_ALLOWED_ENDPOINTS ?? "").split(/[\s,]+/).filter(Boolean)) {
+    candidates.push({ url, source: "env" });
+  }
+
+  const file = path.resolve(env.NOVA_ENDPOINTS_FILE || "config/endpoints.json");
+  try {
+    for (const entry of readEndpointsFile(file)) {
+      candidates.push({
+        url: String(entry.url ?? ""),
+        label: entry.label,
+        source: "file",
+      });
+    }
+  } catch (error) {
+    console.error("Ignoring endpoint allowlist file:", error);
+  }
+
+  const allowed = [...BUILTIN_ENDPOINTS];
+  for (const c of candidates) {
+    const url = normalizeApiEndpoint(c.url);
+    if (!url) {
+      console.warn(`Ignoring invalid allowlisted endpoint: ${c.url}`);
+      continue;
+    }
+    if (allowed.some((a) => a.url === url)) continue;
+    allowed.push({ url, label: c.label?.trim() || new URL(url).host, source: c.source });
+  }
+  return allowed;
+}
+
+let cached: AllowedEndpoint[] | null = null;
+
+export function getAllowedEndpoints(): AllowedEndpoint[] {
+  if (!cached) cached = loadEndpointAllowlist();
+  return cached;
+}
+
+// Tests and config reloads.
+export function resetEndpointAllowlist(): void {
+  cached = null;
+}
+
+// Returns the normalized endpoint when it is on the list, otherwise null.
+export function resolveAllowedEndpoint(raw: string): string | null {
+  const normalized = normalizeApiEndpoint(raw);
+  if (!normalized) return null;
+  return getAllowedEndpoints().some((e) => e.url === normalized) ? normalized : null;
+}
+
+// Full request URLs (e.g. redirect targets) must live under an allowlisted base.
+export function isAllowedUpstreamUrl(raw: string): boolean {
+  try {
+    const u = new URL(raw);
+    if (u.username || u.password) return false;
+    const target = `${u.protocol}//${u.host.toLowerCase()}${u.pathname}`;
+    return getAllowedEndpoints().some(
+      (e) => target === e.url || target.startsWith(`${e.url}/`),
+    );
+  } catch {
+    return false;
+  }
+}
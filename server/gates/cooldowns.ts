@@ -0,0 +1,249 @@
+import type { GateCooldown, GateCooldownKind, UserSettings } from "@shared/schema";
+
+import type { GateCooldownScope, IStorage } from "../storage";
+
+// ================== GATE COOLDOWNS ==================
+// Stage 2 reflection and Stage 3 continuity each have a cooldown per user+conversation
+// so Nova doesn't over-reflect or keep referencing history.
+// The chat routes keep them in Postgres (gate_cooldowns); the in-memory store is for
+// tests and dry runs.
+
+export type CooldownKind = GateCooldownKind;
+
+// Defaults; each user can set their own (user_settings *_cooldown_sec).
+export const COOLDOWN_MS: Record<CooldownKind, number> = {
+  reflection: 45_000, // 45 seconds
+  continuity: 10 * 60_000, // 10 minutes
+};
+
+export function cooldownDurations(
+  settings?: Pick<UserSettings, "reflectionCooldownSec" | "continuityCooldownSec"> | null,
+): Record<CooldownKind, number> {
+  if (!settings) return COOLDOWN_MS;
+  return {
+    reflection: settings.reflectionCooldownSec * 1000,
+    continuity: settings.continuityCooldownSec * 1000,
+  };
+}
+
+export interface CooldownEntry {
+  lastAt: number;
+  // reflection: signature of the message reflected on; continuity: memory id referenced
+  lastSig?: string;
+}
+
+export interface CooldownWrite {
+  kind: CooldownKind;
+  scopeKey: string;
+  entry: CooldownEntry;
+}
+
+export interface CooldownStore {
+  get(kind: CooldownKind, scopeKey: string): Promise<CooldownEntry | undefined>;
+  set(kind: CooldownKind, scopeKey: string, entry: CooldownEntry): Promise<void>;
+  entriesForUser(
+    kind: CooldownKind,
+    userId: string,
+  ): Promise<Array<{ convoId: string; entry: CooldownEntry }>>;
+  // Run `fn` against one scope; its reads and writes commit together. Keep it short:
+  // for stored cooldowns it holds that conversation's lock.
+  transaction<T>(scopeKey: string, fn: (store: CooldownStore) => Promise<T>): Promise<T>;
+}
+
+// Cooldowns are scoped to one conversation of one user.
+export function cooldownScopeKey(userId: string, conversationId?: string): string {
+  return `${userId}:${conversationId || "default"}`;
+}
+
+export function createMemoryCooldownStore(): CooldownStore {
+  const maps: Record<CooldownKind, Map<string, CooldownEntry>> = {
+    reflection: new Map(),
+    continuity: new Map(),
+  };
+
+  const store: CooldownStore = {
+    async get(kind, scopeKey) {
+      return maps[kind].get(scopeKey);
+    },
+    async set(kind, scopeKey, entry) {
+      maps[kind].set(scopeKey, entry);
+    },
+    async entriesForUser(kind, userId) {
+      const prefix = `${userId}:`;
+      return Array.from(maps[kind].entries())
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, entry]) => ({ convoId: key.slice(prefix.length), entry }));
+    },
+    // Single-threaded: nothing can interleave between the awaits that matter here.
+    transaction: (_scopeKey, fn) => fn(store),
+  };
+  return store;
+}
+
+export type CooldownBackend = Pick<IStorage, "getGateCooldowns" | "withGateCooldowns">;
+
+const toEntry = (row: GateCooldown): CooldownEntry => ({
+  lastAt: row.lastAt.getTime(),
+  lastSig: row.lastSig ?? undefined,
+});
+
+// Cooldowns kept by storage (gate_cooldowns), shared by every server process and
+// kept across restarts. A get outside a transaction is a plain read; a set is its own
+// transaction.
+export function createStoredCooldownStore(backend: CooldownBackend): CooldownStore {
+  const store: CooldownStore = {
+    async get(kind, scopeKey) {
+      const split = scopeKey.indexOf(":");
+      const [userId, conversationId] = [
+        scopeKey.slice(0, split),
+        scopeKey.slice(split + 1),
+      ];
+      const row = (await backend.getGateCooldowns(userId)).find(
+        (r) => r.conversationId === conversationId && r.kind === kind,
+      );
+      return row && toEntry(row);
+    },
+    set: (kind, scopeKey, entry) =>
+      store.transaction(scopeKey, (tx) => tx.set(kind, scopeKey, entry)),
+    async entriesForUser(kind, userId) {
+      const rows = await backend.getGateCooldowns(userId);
+      return rows
+        .filter((row) => row.kind === kind)
+        .map((row) => ({ convoId: row.conversationId, entry: toEntry(row) }));
+    },
+    transaction(scopeKey, fn) {
+      const split = scopeKey.indexOf(":");
+      return backend.withGateCooldowns(
+        scopeKey.slice(0, split),
+        scopeKey.slice(split + 1),
+        (scope) => fn(scopedStore(scope, scopeKey)),
+      );
+    },
+  };
+
+  // A transaction covers one scope; touching another would silently escape it.
+  const scopedStore = (scope: GateCooldownScope, scopeKey: string): CooldownStore => {
+    const own = (key: string) => {
+      if (key !== scopeKey) {
+        throw new Error(`Cooldown transaction for ${scopeKey} cannot use ${key}`);
+      }
+    };
+    const tx: CooldownStore = {
+      async get(kind, key) {
+        own(key);
+        const row = await scope.get(kind);
+        return row && toEntry(row);
+      },
+      async set(kind, key, entry) {
+        own(key);
+        await scope.set(kind, new Date(entry.lastAt), entry.lastSig ?? null);
+      },
+      entriesForUser: store.entriesForUser,
+      transaction: (key, inner) => {
+        own(key);
+        return inner(tx);
+      },
+    };
+    return tx;
+  };
+
+  return store;
+}
+
+export async function applyCooldownWrites(
+  store: CooldownStore,
+  writes: CooldownWrite[],
+): Promise<void> {
+  for (const w of writes) await store.set(w.kind, w.scopeKey, w.entry);
+}
+
+export interface CooldownRead {
+  kind: CooldownKind;
+  scopeKey: string;
+  entry: CooldownEntry | undefined;
+}
+
+// The same store, noting every entry a gate run reads so commitCooldownWrites can
+// check them again.
+export function recordCooldownReads(store: CooldownStore): {
+  store: CooldownStore;
+  reads: CooldownRead[];
+} {
+  const reads: CooldownRead[] = [];
+  return {
+    store: {
+      ...store,
+      async get(kind, scopeKey) {
+        const entry = await store.get(kind, scopeKey);
+        reads.push({ kind, scopeKey, entry });
+        return entry;
+      },
+    },
+    reads,
+  };
+}
+
+/**
+ * Start the cooldowns a gate run asked for, unless another turn changed what it read
+ * in the meantime (then nothing is written and the run has to be redone).
+ * The check and the writes share one transaction on the conversation's scope.
+ */
+export async function commitCooldownWrites(
+  store: CooldownStore,
+  scopeKey: string,
+  reads: CooldownRead[],
+  writes: CooldownWrite[],
+): Promise<boolean> {
+  if (writes.length === 0) return true;
+  return store.transaction(scopeKey, async (tx) => {
+    for (const read of reads) {
+      const current = await tx.get(read.kind, read.scopeKey);
+      if (
+        current?.lastAt !== read.entry?.lastAt ||
+        current?.lastSig !== read.entry?.lastSig
+      ) {
+        return false;
+      }
+    }
+    await applyCooldownWrites(tx, writes);
+    return true;
+  });
+}
+
+export interface CooldownStatus {
+  convoId: string;
+  lastAt: number;
+  remainingMs: number;
+  active: boolean;
+}
+
+// Stage 4 diagnostics view: per-conversation cooldowns, most recent first.
+export async function getCooldownSnapshotForUser(
+  userId: string,
+  store: CooldownStore,
+  now = Date.now(),
+  durations: Record<CooldownKind, number> = COOLDOWN_MS,
+) {
+  const statuses = async (kind: CooldownKind): Promise<CooldownStatus[]> =>
+    (await store.entriesForUser(kind, userId))
+      .map(({ convoId, entry }) => {
+        const remainingMs = Math.max(0, entry.lastAt + durations[kind] - now);
+        return { convoId, lastAt: entry.lastAt, remainingMs, active: remainingMs > 0 };
+      })
+      .sort((a, b) => b.lastAt - a.lastAt);
+
+  const reflection = await statuses("reflection");
+  const continuity = await statuses("continuity");
+  const none: CooldownStatus = {
+    convoId: "none",
+    lastAt: 0,
+    remainingMs: 0,
+    active: false,
+  };
+
+  return {
+    summary: { reflection: reflection[0] ?? none, continuity: continuity[0] ?? none },
+    reflection,
+    continuity,
+  };
+}
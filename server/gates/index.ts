@@ -0,0 +1,44 @@
+export {
+  GATE_PIPELINE,
+  createGateContext,
+  isEllipsisOnly,
+  isGreeting,
+  looksLikeQuestion,
+  runGatePipeline,
+  wordCount,
+} from "./pipeline";
+export type {
+  Gate,
+  GateContext,
+  GateId,
+  GateOutcome,
+  GateRun,
+  GateSession,
+  GateStage,
+  GateTraceResult,
+  ResponseSource,
+} from "./pipeline";
+export { GATE_LEXICONS, guessLocale, resolveGateLocale } from "./locales";
+export type { FeelingBucket, GateLexicon, LexiconPool } from "./locales";
+export { simulateGates } from "./simulate";
+export type { GateSimulation, SimulatedCooldown } from "./simulate";
+export {
+  COOLDOWN_MS,
+  applyCooldownWrites,
+  commitCooldownWrites,
+  cooldownDurations,
+  cooldownScopeKey,
+  createMemoryCooldownStore,
+  createStoredCooldownStore,
+  getCooldownSnapshotForUser,
+  recordCooldownReads,
+} from "./cooldowns";
+export type {
+  CooldownBackend,
+  CooldownEntry,
+  CooldownKind,
+  CooldownRead,
+  CooldownStatus,
+  CooldownStore,
+  CooldownWrite,
+} from "./cooldowns";
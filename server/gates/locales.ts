@@ -0,0 +1,785 @@
+import { GATE_LOCALES, type GateLocale, type VoiceMode } from "@shared/schema";
+
+// ================== GATE LEXICONS ==================
+// Everything the presence gates match on or answer with, per language. The pipeline
+// (pipeline.ts) reads the turn's lexicon and never hard-codes words of its own, so a
+// message in Spanish meets the same gates, in the same order, as one in English.
+// English stays the reference lexicon: its patterns are the ones the Stage 1–3
+// scenarios were written against.
+
+export interface FeelingBucket {
+  key: string;
+  re: RegExp;
+  lines: string[];
+  repeatLines: string[];
+}
+
+export interface GateLexicon {
+  locale: GateLocale;
+  greeting: RegExp;
+  casualProbes: RegExp[];
+  ultraShort: Set<string>;
+  invite: RegExp;
+  substantive: RegExp; // context-rich messages go to the model even when a feeling matches
+  question: RegExp; // a leading question word
+  feelings: FeelingBucket[];
+  focusTerms: string[]; // Stage 3: matched against the message and stored memories
+  mentioned: (snippet: string) => string; // the continuity sentence
+  lines: {
+    ellipsis: string[];
+    ultraShort: string[];
+    casualProbe: string[];
+    invite: string[];
+  };
+  // Greeting pools for the built-in voice modes. Absent: the pools in voice-modes.ts.
+  modeGreetings?: Record<VoiceMode, string[]>;
+  markers: string[]; // common words, for guessing the language of a message
+}
+
+export type LexiconPool = keyof GateLexicon["lines"];
+
+// `\b` only knows ASCII letters, so "fatigué" would never end a word.
+const LETTER = "a-zà-ÿœæß";
+const anyWord = (...words: string[]) =>
+  new RegExp(`(^|[^${LETTER}])(${words.join("|")})(?![${LETTER}])`, "i");
+const leadingWord = (...words: string[]) =>
+  new RegExp(`^[¿\\s]*(${words.join("|")})(?![${LETTER}])`, "i");
+
+const en: GateLexicon = {
+  locale: "en",
+  greeting: /^(hi|hey|hello|yo|sup|heya|hiya|howdy)[\s!.,]*$/i,
+  casualProbes: [
+    /^(you there|are you there)\??$/i,
+    /^what('?re| are) you (doing|up to)\??$/i,
+    /^(whatcha|watcha) (doing|doin)\??$/i,
+  ],
+  ultraShort: new Set([
+    "ok",
+    "okay",
+    "k",
+    "kk",
+    "yeah",
+    "yep",
+    "no",
+    "nope",
+    "nah",
+    "sure",
+    "thanks",
+    "ty",
+    "lol",
+    "lmao",
+    "hm",
+    "hmm",
+    "idk",
+    "i dont know",
+    "i don't know",
+    "nm",
+    "not much",
+    "meh",
+    "nothing",
+    "nothin",
+  ]),
+  invite:
+    /(i want to talk|can i tell you|i need to tell you|i need to ask you|i want to tell you|can we talk|i want to share)/i,
+  substantive: /\b(because|and then|so that|which means|but then|after that)\b/i,
+  question:
+    /^(what|why|how|when|where|who|can|could|would|should|do|does|did|is|are|am|will)\b/i,
+  feelings: [
+    {
+      key: "tired",
+      re: /\b(tired|exhausted|drained|sleepy|worn\s*out)\b/i,
+      lines: ["Sounds like you're running on low right now."],
+      repeatLines: ["You've sounded drained more than once lately."],
+    },
+    {
+      key: "stress",
+      re: /\b(stressed|stressful|overwhelmed|pressure|burnt?\s*out)\b/i,
+      lines: ["That sounds like a lot to carry."],
+      repeatLines: ["This pressure has come up more than once lately."],
+    },
+    {
+      key: "longday",
+      re: /\b(long day|rough day|hard day)\b/i,
+      lines: ["That kind of day can leave you heavy."],
+      repeatLines: ["You've mentioned hard days a few times lately."],
+    },
+    {
+      key: "worry",
+      re: /\b(anxious|anxiety|worried|worry|nervous|uneasy)\b/i,
+      lines: ["That has a restless feel to it."],
+      repeatLines: ["That worry has echoed a few times lately."],
+    },
+    {
+      key: "sad",
+      re: /\b(sad|down|low|empty|hurt)\b/i,
+      lines: ["That sounds painful."],
+      repeatLines: ["That low feeling has appeared more than once lately."],
+    },
+    {
+      key: "anger",
+      re: /\b(angry|mad|furious|irritated|annoyed)\b/i,
+      lines: ["That sounds like it hit a nerve."],
+      repeatLines: ["That irritation has shown up a few times lately."],
+    },
+    {
+      key: "lonely",
+      re: /\b(lonely|alone|isolated|left out)\b/i,
+      lines: ["That sounds isolating."],
+      repeatLines: ["That alone feeling has come up more than once lately."],
+    },
+  ],
+  // Lightweight keyword focus (keeps Stage 3 conservative and high-confidence)
+  focusTerms: [
+    "stress",
+    "stressed",
+    "overwhelmed",
+    "pressure",
+    "tired",
+    "exhausted",
+    "drained",
+    "long day",
+    "hard day",
+    "rough day",
+    "worried",
+    "anxious",
+    "uneasy",
+    "sad",
+    "down",
+    "low",
+    "angry",
+    "mad",
+    "irritated",
+    "lonely",
+    "alone",
+    "isolated",
+  ],
+  mentioned: (snippet) => `Earlier you mentioned ${snippet}.`,
+  lines: {
+    ellipsis: ["…", "Mm.", "I’m here.", "Still here."],
+    ultraShort: ["Okay.", "Mm.", "Got it.", "Okay. I'm here.", "No rush. I'm here."],
+    casualProbe: ["Yeah.", "I’m here.", "Here.", "I’m here with you."],
+    invite: ["Sure. Go ahead—I'm listening."],
+  },
+  markers: [
+    "i",
+    "i'm",
+    "im",
+    "you",
+    "the",
+    "and",
+    "is",
+    "am",
+    "are",
+    "my",
+    "it",
+    "it's",
+    "this",
+    "that",
+    "was",
+    "just",
+    "feel",
+    "day",
+    "want",
+    "talk",
+    "hi",
+    "hey",
+    "hello",
+    "thanks",
+    "okay",
+    "ok",
+    "yeah",
+    "what",
+    "not",
+    "don't",
+  ],
+};
+
+const es: GateLexicon = {
+  locale: "es",
+  greeting:
+    /^[¡\s]*(hola|holi|buenas|buenos d[ií]as|buenas tardes|buenas noches|qu[eé] tal)[\s!.,]*$/i,
+  casualProbes: [
+    /^¿?\s*(est[aá]s ah[ií]|sigues ah[ií])\s*\??$/i,
+    /^¿?\s*qu[eé] (haces|est[aá]s haciendo)\s*\??$/i,
+  ],
+  ultraShort: new Set([
+    "vale",
+    "ok",
+    "sí",
+    "si",
+    "no",
+    "claro",
+    "gracias",
+    "bueno",
+    "ya",
+    "jaja",
+    "jajaja",
+    "mm",
+    "mmm",
+    "ni idea",
+    "no sé",
+    "no se",
+    "nada",
+    "nada nuevo",
+    "meh",
+  ]),
+  invite:
+    /(quiero hablar|puedo contarte|necesito contarte|necesito preguntarte|quiero contarte|podemos hablar|quiero compartir)/i,
+  substantive: anyWord(
+    "porque",
+    "y luego",
+    "para que",
+    "lo que significa",
+    "pero luego",
+    "después de eso",
+  ),
+  question: leadingWord(
+    "qué",
+    "por qué",
+    "cómo",
+    "cuándo",
+    "dónde",
+    "quién",
+    "cuál",
+    "puedes",
+    "podrías",
+    "deberías",
+    "crees",
+  ),
+  feelings: [
+    {
+      key: "tired",
+      re: anyWord("cansad[oa]", "agotad[oa]", "reventad[oa]", "sin energía", "con sueño"),
+      lines: ["Suena a que vas con poca energía ahora mismo."],
+      repeatLines: ["El cansancio ha salido más de una vez últimamente."],
+    },
+    {
+      key: "stress",
+      re: anyWord("estresad[oa]", "estrés", "agobiad[oa]", "presión", "quemad[oa]"),
+      lines: ["Suena a mucho peso que cargar."],
+      repeatLines: ["Esta presión ha salido más de una vez últimamente."],
+    },
+    {
+      key: "longday",
+      re: anyWord("día largo", "mal día", "día difícil", "día duro"),
+      lines: ["Un día así pesa."],
+      repeatLines: ["Has hablado de días duros varias veces últimamente."],
+    },
+    {
+      key: "worry",
+      re: anyWord(
+        "ansios[oa]",
+        "ansiedad",
+        "preocupad[oa]",
+        "preocupación",
+        "nervios[oa]",
+        "inquiet[oa]",
+      ),
+      lines: ["Eso tiene algo de inquieto."],
+      repeatLines: ["Esa preocupación ha vuelto varias veces últimamente."],
+    },
+    {
+      key: "sad",
+      re: anyWord("triste", "tristeza", "deprimid[oa]", "vací[oa]", "dolid[oa]"),
+      lines: ["Eso suena doloroso."],
+      repeatLines: ["Ese bajón ha aparecido más de una vez últimamente."],
+    },
+    {
+      key: "anger",
+      re: anyWord(
+        "enfadad[oa]",
+        "enojad[oa]",
+        "furios[oa]",
+        "molest[oa]",
+        "irritad[oa]",
+        "hart[oa]",
+      ),
+      lines: ["Suena a que eso tocó un nervio."],
+      repeatLines: ["Esa irritación ha aparecido varias veces últimamente."],
+    },
+    {
+      key: "lonely",
+      re: anyWord("soledad", "sol[oa]", "aislad[oa]", "excluid[oa]"),
+      lines: ["Eso suena a aislamiento."],
+      repeatLines: ["Esa soledad ha salido más de una vez últimamente."],
+    },
+  ],
+  focusTerms: [
+    "estrés",
+    "estresad",
+    "agobiad",
+    "presión",
+    "cansad",
+    "agotad",
+    "día largo",
+    "día difícil",
+    "día duro",
+    "mal día",
+    "preocupad",
+    "ansios",
+    "ansiedad",
+    "triste",
+    "deprimid",
+    "enfadad",
+    "enojad",
+    "molest",
+    "soledad",
+    "aislad",
+  ],
+  mentioned: (snippet) => `Antes mencionaste ${snippet}.`,
+  lines: {
+    ellipsis: ["…", "Mm.", "Aquí estoy.", "Sigo aquí."],
+    ultraShort: [
+      "Vale.",
+      "Mm.",
+      "Entendido.",
+      "Vale. Aquí estoy.",
+      "Sin prisa. Aquí estoy.",
+    ],
+    casualProbe: ["Sí.", "Aquí estoy.", "Aquí.", "Aquí estoy contigo."],
+    invite: ["Claro. Adelante, te escucho."],
+  },
+  modeGreetings: {
+    quiet: ["Hola.", "Ey.", "Mm.", "Sí.", "Aquí estoy.", "Aquí.", "Hola, aquí estoy."],
+    engaged: ["Hola.", "Ey.", "Aquí estoy.", "Sí, aquí estoy.", "Hola, aquí estoy."],
+    mythic: ["Aquí estoy.", "Estoy contigo.", "Aquí.", "Sigo aquí."],
+    blunt: ["Sí.", "Aquí.", "Aquí estoy."],
+  },
+  markers: [
+    "yo",
+    "estoy",
+    "estás",
+    "muy",
+    "el",
+    "los",
+    "las",
+    "y",
+    "pero",
+    "porque",
+    "que",
+    "qué",
+    "mi",
+    "tengo",
+    "está",
+    "hola",
+    "gracias",
+    "vale",
+    "sí",
+    "nada",
+    "hoy",
+    "día",
+    "quiero",
+    "hablar",
+    "cansado",
+    "cansada",
+    "buenas",
+  ],
+};
+
+const fr: GateLexicon = {
+  locale: "fr",
+  greeting: /^(salut|bonjour|bonsoir|coucou|slt|cc)[\s!.,]*$/i,
+  casualProbes: [
+    /^(tu es là|t['’]es là|es-tu là)\s*\??$/i,
+    /^(tu fais quoi|qu['’]est-ce que tu fais|que fais-tu)\s*\??$/i,
+  ],
+  ultraShort: new Set([
+    "ok",
+    "d'accord",
+    "d’accord",
+    "dac",
+    "oui",
+    "ouais",
+    "non",
+    "nan",
+    "merci",
+    "mdr",
+    "bof",
+    "hm",
+    "hmm",
+    "je sais pas",
+    "je ne sais pas",
+    "jsp",
+    "rien",
+    "pas grand-chose",
+    "pas grand chose",
+    "bien sûr",
+  ]),
+  invite:
+    /(je veux te parler|je voudrais te parler|je peux te dire|je dois te dire|je dois te demander|je veux te raconter|on peut parler|je veux partager)/i,
+  substantive: anyWord(
+    "parce que",
+    "et puis",
+    "pour que",
+    "ce qui veut dire",
+    "mais ensuite",
+    "après ça",
+  ),
+  question: leadingWord(
+    "quoi",
+    "pourquoi",
+    "comment",
+    "quand",
+    "où",
+    "qui",
+    "quel",
+    "quelle",
+    "est-ce",
+    "peux-tu",
+    "pourrais-tu",
+    "tu peux",
+  ),
+  feelings: [
+    {
+      key: "tired",
+      re: anyWord("fatiguée?", "épuisée?", "crevée?", "vidée?", "claquée?"),
+      lines: ["On dirait que tu es à court d'énergie en ce moment."],
+      repeatLines: ["La fatigue est revenue plus d'une fois ces derniers temps."],
+    },
+    {
+      key: "stress",
+      re: anyWord(
+        "stressée?",
+        "stressante?",
+        "débordée?",
+        "dépassée?",
+        "pression",
+        "burn-?out",
+      ),
+      lines: ["Ça fait beaucoup à porter."],
+      repeatLines: ["Cette pression est revenue plus d'une fois ces derniers temps."],
+    },
+    {
+      key: "longday",
+      re: anyWord("longue journée", "journée difficile", "dure journée", "sale journée"),
+      lines: ["Ce genre de journée pèse."],
+      repeatLines: ["Tu as parlé de journées dures plusieurs fois ces derniers temps."],
+    },
+    {
+      key: "worry",
+      re: anyWord(
+        "anxieux",
+        "anxieuse",
+        "angoissée?",
+        "inquiet",
+        "inquiète",
+        "nerveux",
+        "nerveuse",
+      ),
+      lines: ["Ça a quelque chose d'agité."],
+      repeatLines: ["Cette inquiétude est revenue plusieurs fois ces derniers temps."],
+    },
+    {
+      key: "sad",
+      re: anyWord("triste", "déprimée?", "vide", "blessée?", "le moral à zéro"),
+      lines: ["Ça a l'air douloureux."],
+      repeatLines: ["Ce moral bas est revenu plus d'une fois ces derniers temps."],
+    },
+    {
+      key: "anger",
+      re: anyWord("en colère", "énervée?", "furieux", "furieuse", "agacée?", "irritée?"),
+      lines: ["On dirait que ça a touché un point sensible."],
+      repeatLines: ["Cet agacement est revenu plusieurs fois ces derniers temps."],
+    },
+    {
+      key: "lonely",
+      re: anyWord("seule?", "solitude", "isolée?", "exclue?"),
+      lines: ["Ça a l'air isolant."],
+      repeatLines: ["Cette solitude est revenue plus d'une fois ces derniers temps."],
+    },
+  ],
+  focusTerms: [
+    "stress",
+    "débordé",
+    "pression",
+    "fatigu",
+    "épuisé",
+    "crevé",
+    "longue journée",
+    "journée difficile",
+    "inquiet",
+    "anxi",
+    "angoiss",
+    "triste",
+    "déprim",
+    "colère",
+    "énervé",
+    "agacé",
+    "seul",
+    "solitude",
+    "isolé",
+  ],
+  mentioned: (snippet) => `Tu as mentionné ${snippet} plus tôt.`,
+  lines: {
+    ellipsis: ["…", "Mm.", "Je suis là.", "Toujours là."],
+    ultraShort: [
+      "D'accord.",
+      "Mm.",
+      "Compris.",
+      "D'accord. Je suis là.",
+      "Prends ton temps. Je suis là.",
+    ],
+    casualProbe: ["Oui.", "Je suis là.", "Là.", "Je suis là avec toi."],
+    invite: ["Bien sûr. Vas-y, je t'écoute."],
+  },
+  modeGreetings: {
+    quiet: [
+      "Salut.",
+      "Coucou.",
+      "Mm.",
+      "Oui.",
+      "Je suis là.",
+      "Là.",
+      "Salut, je suis là.",
+    ],
+    engaged: [
+      "Salut.",
+      "Bonjour.",
+      "Je suis là.",
+      "Oui, je suis là.",
+      "Salut, je suis là.",
+    ],
+    mythic: ["Je suis là.", "Je suis avec toi.", "Là.", "Toujours là."],
+    blunt: ["Oui.", "Là.", "Je suis là."],
+  },
+  markers: [
+    "je",
+    "j'ai",
+    "suis",
+    "tu",
+    "très",
+    "le",
+    "les",
+    "et",
+    "mais",
+    "pas",
+    "ne",
+    "mon",
+    "moi",
+    "c'est",
+    "bonjour",
+    "salut",
+    "merci",
+    "oui",
+    "ouais",
+    "aujourd'hui",
+    "journée",
+    "veux",
+    "parler",
+    "fatigué",
+    "fatiguée",
+    "coucou",
+  ],
+};
+
+const de: GateLexicon = {
+  locale: "de",
+  greeting: /^(hallo|hi|hey|moin|servus|guten morgen|guten tag|guten abend)[\s!.,]*$/i,
+  casualProbes: [
+    /^(bist du da|bist du noch da)\s*\??$/i,
+    /^(was machst du( gerade)?|was treibst du)\s*\??$/i,
+  ],
+  ultraShort: new Set([
+    "ok",
+    "okay",
+    "ja",
+    "jo",
+    "nein",
+    "nee",
+    "klar",
+    "danke",
+    "hm",
+    "hmm",
+    "keine ahnung",
+    "weiß nicht",
+    "weiss nicht",
+    "nichts",
+    "nix",
+    "nicht viel",
+    "egal",
+    "passt",
+  ]),
+  invite:
+    /(ich will reden|ich möchte reden|kann ich dir was erzählen|ich muss dir was sagen|ich muss dich was fragen|ich will dir was erzählen|können wir reden|ich möchte was teilen)/i,
+  substantive: anyWord(
+    "weil",
+    "und dann",
+    "damit",
+    "was bedeutet",
+    "aber dann",
+    "danach",
+  ),
+  question: leadingWord(
+    "was",
+    "warum",
+    "wieso",
+    "weshalb",
+    "wie",
+    "wann",
+    "wo",
+    "wer",
+    "kannst",
+    "könntest",
+    "würdest",
+    "solltest",
+    "bist",
+    "hast",
+  ),
+  feelings: [
+    {
+      key: "tired",
+      re: anyWord("müde", "erschöpft", "ausgelaugt", "kaputt", "platt"),
+      lines: ["Klingt, als wärst du gerade ziemlich leer."],
+      repeatLines: ["Du klingst nicht zum ersten Mal so erschöpft."],
+    },
+    {
+      key: "stress",
+      re: anyWord("gestresst", "stressig", "überfordert", "druck", "ausgebrannt"),
+      lines: ["Das klingt nach viel, was du da trägst."],
+      repeatLines: ["Dieser Druck kam zuletzt mehr als einmal vor."],
+    },
+    {
+      key: "longday",
+      re: anyWord("langer tag", "harter tag", "schwerer tag", "mieser tag"),
+      lines: ["So ein Tag kann schwer nachhängen."],
+      repeatLines: ["Du hast zuletzt öfter von harten Tagen erzählt."],
+    },
+    {
+      key: "worry",
+      re: anyWord("ängstlich", "angst", "besorgt", "sorgen", "nervös", "unruhig"),
+      lines: ["Das klingt unruhig."],
+      repeatLines: ["Diese Sorge ist zuletzt ein paar Mal aufgetaucht."],
+    },
+    {
+      key: "sad",
+      re: anyWord("traurig", "niedergeschlagen", "leer", "verletzt", "down"),
+      lines: ["Das klingt schmerzhaft."],
+      repeatLines: ["Dieses Tief ist zuletzt mehr als einmal aufgetaucht."],
+    },
+    {
+      key: "anger",
+      re: anyWord("wütend", "sauer", "zornig", "genervt", "gereizt"),
+      lines: ["Klingt, als hätte das einen Nerv getroffen."],
+      repeatLines: ["Dieser Ärger ist zuletzt ein paar Mal aufgetaucht."],
+    },
+    {
+      key: "lonely",
+      re: anyWord("einsam", "allein", "isoliert", "ausgeschlossen"),
+      lines: ["Das klingt einsam."],
+      repeatLines: ["Dieses Alleinsein kam zuletzt mehr als einmal vor."],
+    },
+  ],
+  focusTerms: [
+    "stress",
+    "überfordert",
+    "druck",
+    "müde",
+    "erschöpft",
+    "ausgelaugt",
+    "langer tag",
+    "harter tag",
+    "schwerer tag",
+    "besorgt",
+    "sorge",
+    "angst",
+    "nervös",
+    "traurig",
+    "niedergeschlagen",
+    "wütend",
+    "sauer",
+    "genervt",
+    "einsam",
+    "allein",
+    "isoliert",
+  ],
+  mentioned: (snippet) => `Vorhin hast du ${snippet} erwähnt.`,
+  lines: {
+    ellipsis: ["…", "Mm.", "Ich bin da.", "Immer noch da."],
+    ultraShort: [
+      "Okay.",
+      "Mm.",
+      "Verstanden.",
+      "Okay. Ich bin da.",
+      "Keine Eile. Ich bin da.",
+    ],
+    casualProbe: ["Ja.", "Ich bin da.", "Hier.", "Ich bin bei dir."],
+    invite: ["Klar. Erzähl—ich höre zu."],
+  },
+  modeGreetings: {
+    quiet: ["Hey.", "Hallo.", "Mm.", "Ja.", "Ich bin da.", "Hier.", "Hey—ich bin da."],
+    engaged: ["Hallo.", "Hey.", "Ich bin da.", "Ja—ich bin da.", "Hey, ich bin da."],
+    mythic: ["Ich bin da.", "Ich bin bei dir.", "Hier.", "Immer noch da."],
+    blunt: ["Ja.", "Hier.", "Ich bin da."],
+  },
+  markers: [
+    "ich",
+    "bin",
+    "du",
+    "bist",
+    "sehr",
+    "und",
+    "aber",
+    "nicht",
+    "das",
+    "der",
+    "mir",
+    "mich",
+    "mein",
+    "ist",
+    "hallo",
+    "danke",
+    "ja",
+    "nein",
+    "heute",
+    "tag",
+    "will",
+    "reden",
+    "müde",
+    "gut",
+    "moin",
+  ],
+};
+
+export const GATE_LEXICONS: Record<GateLocale, GateLexicon> = { en, es, fr, de };
+
+const MARKERS: Record<GateLocale, Set<string>> = {
+  en: new Set(en.markers),
+  es: new Set(es.markers),
+  fr: new Set(fr.markers),
+  de: new Set(de.markers),
+};
+
+/**
+ * Best local guess at the language of one message: common words plus a greeting
+ * match, no model call. English unless another language clearly scores higher, so a
+ * bare "ok" or an emoji keeps the reference lexicon.
+ */
+export function guessLocale(text: string): GateLocale {
+  const trimmed = text.trim();
+  const tokens = trimmed
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .split(new RegExp(`[^${LETTER}']+`))
+    .filter(Boolean);
+
+  let best: GateLocale = "en";
+  let bestScore = 0;
+  for (const locale of GATE_LOCALES) {
+    const markers = MARKERS[locale];
+    let score = tokens.filter((t) => markers.has(t)).length;
+    if (GATE_LEXICONS[locale].greeting.test(trimmed)) score += 2;
+    if (score > bestScore) {
+      best = locale;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// The user's language setting wins; "auto" (or no setting) guesses from the message.
+export function resolveGateLocale(
+  preference: GateLocale | "auto" | null | undefined,
+  text: string,
+): GateLocale {
+  return preference && preference !== "auto" ? preference : guessLocale(text);
+}
@@ -0,0 +1,439 @@
+import type { GateLocale, MemoryImportance, VoiceMode } from "@shared/schema";
+
+import {
+  isBuiltInVoiceMode,
+  toVoiceModeProfile,
+  type VoiceModeProfile,
+} from "../voice-modes";
+import {
+  COOLDOWN_MS,
+  cooldownScopeKey,
+  type CooldownEntry,
+  type CooldownKind,
+  type CooldownStore,
+  type CooldownWrite,
+} from "./cooldowns";
+import {
+  GATE_LEXICONS,
+  resolveGateLocale,
+  type GateLexicon,
+  type LexiconPool,
+} from "./locales";
+
+// ================== NOVA BEHAVIOR GATES (PROTECTED ZONE) ==================
+// One ordered pipeline of local gates, shared by every chat path. The first gate whose
+// predicate matches answers the turn without a model call.
+// Order is data: GATE_PIPELINE below, pinned by server/tests/gates.test.ts.
+// Do not refactor, reorder, or “simplify” without the STAGE3_TESTS.md scenarios
+// passing (server/tests/stage3-acceptance.test.ts).
+// Any change here must preserve:
+// - local-first short-circuit behavior
+// - no questions by default
+// - no advice unless asked
+// - opt-in only memory continuity
+// ========================================================================
+
+export type GateId =
+  | "greeting"
+  | "ellipsis"
+  | "ultra_short"
+  | "casual_probe"
+  | "invite"
+  | "reflection"
+  | "continuity";
+
+export type GateStage =
+  | "stage1_local_short_circuit"
+  | "stage2_reflection"
+  | "stage3_continuity";
+
+type Turn = { role: string; content: string };
+
+// Per-user state a turn can consult. Without a session only stateless gates run:
+// a gate with a cooldown has nowhere to keep it.
+export interface GateSession {
+  userId: string;
+  conversationId?: string;
+  allowMemoryReferences: boolean;
+  cooldowns: CooldownStore;
+  loadMemories: () => Promise<
+    Array<{ id: string; content: string; importance?: MemoryImportance }>
+  >;
+  cooldownMs?: Record<CooldownKind, number>; // the user's durations; default COOLDOWN_MS
+  language?: GateLocale | "auto"; // user setting; absent or "auto": guess per message
+  now?: () => number;
+  random?: () => number;
+}
+
+export interface GateContext {
+  mode: VoiceModeProfile;
+  messages: Turn[];
+  lastUser: string; // trimmed
+  lower: string;
+  wordCount: number;
+  locale: GateLocale;
+  lexicon: GateLexicon;
+  session?: GateSession;
+  now: number;
+  pick: <T>(lines: T[]) => T;
+}
+
+export interface GateLine {
+  text: string;
+  sig?: string; // stored with the cooldown (message signature / memory id)
+  memoryReads?: number;
+  memoryIds?: string[]; // memories the line cites
+}
+
+export type ResponseSource =
+  | { kind: "fixed"; line: string }
+  | { kind: "pool"; lines: string[] }
+  | { kind: "lexicon"; pool: LexiconPool } // the turn's language (locales.ts)
+  | { kind: "mode_greetings" } // the voice mode's greeting pool, in the turn's language
+  | {
+      kind: "computed";
+      build: (
+        ctx: GateContext,
+        cooldown: CooldownEntry | undefined,
+      ) => GateLine | null | Promise<GateLine | null>;
+    };
+
+export interface Gate {
+  id: GateId;
+  stage: GateStage;
+  predicate: (ctx: GateContext) => boolean;
+  response: ResponseSource;
+  cooldown: { kind: CooldownKind; ms: number } | null;
+  // Set on gates that only ever prefix another gate's line (Stage 3 continuity).
+  wraps?: GateId;
+}
+
+// ---------- predicates ----------
+// Words come from the turn's lexicon (locales.ts); the exported helpers default to
+// the English one.
+
+export function isGreeting(
+  message: string,
+  lexicon: GateLexicon = GATE_LEXICONS.en,
+): boolean {
+  return lexicon.greeting.test(message.trim());
+}
+
+export function isEllipsisOnly(message: string): boolean {
+  const trimmed = message.trim();
+  return trimmed === "..." || trimmed === "…";
+}
+
+export function looksLikeQuestion(
+  message: string,
+  lexicon: GateLexicon = GATE_LEXICONS.en,
+): boolean {
+  const trimmed = message.trim();
+  if (trimmed.includes("?")) return true;
+  return lexicon.question.test(trimmed);
+}
+
+export function wordCount(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+// ---------- Stage 2 feeling buckets ----------
+
+const feelingBucket = (ctx: GateContext) =>
+  ctx.lexicon.feelings.find((b) => b.re.test(ctx.lower));
+
+const messageSig = (ctx: GateContext) => ctx.lower.slice(0, 140);
+
+// ---------- Stage 3 continuity ----------
+
+const IMPORTANCE_WEIGHT: Record<MemoryImportance, number> = {
+  low: 0.5,
+  medium: 1,
+  high: 1.5,
+  critical: 2,
+};
+
+const focusTerms = (ctx: GateContext) =>
+  ctx.lexicon.focusTerms.filter((t) => ctx.lower.includes(t));
+
+// Single continuity sentence from explicit stored memory content, or null.
+// Never asks questions, never gives advice.
+async function continuityLine(
+  ctx: GateContext,
+  cooldown: CooldownEntry | undefined,
+): Promise<GateLine | null> {
+  const mems = await ctx.session!.loadMemories();
+  const matched = focusTerms(ctx);
+
+  // Score memories by overlap (simple + predictable), weighted by importance: a
+  // memory that shares no focus term is never picked, however important.
+  const best = mems
+    .map((m) => {
+      const text = String(m?.content ?? "").toLowerCase();
+      const overlap = matched.filter((term) => text.includes(term)).length;
+      return { m, score: overlap * IMPORTANCE_WEIGHT[m.importance ?? "medium"] };
+    })
+    .filter((x) => x.score > 0)
+    .sort((a, b) => b.score - a.score)[0]?.m;
+
+  // Avoid repeating the same memory reference again and again
+  if (!best || (cooldown?.lastSig && String(best.id) === cooldown.lastSig)) {
+    return { text: "", memoryReads: 1 };
+  }
+
+  // Build a short, safe continuity sentence (no quotes, no interpretation)
+  const raw = String(best.content ?? "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(/[.!?…]+$/, ""); // the sentence supplies its own period
+  if (!raw) return { text: "", memoryReads: 1 };
+
+  const snippet = raw.length > 80 ? `${raw.slice(0, 80)}…` : raw;
+  return {
+    text: ctx.lexicon.mentioned(snippet),
+    sig: String(best.id),
+    memoryReads: 1,
+    memoryIds: [String(best.id)],
+  };
+}
+
+// ---------- the pipeline ----------
+
+export const GATE_PIPELINE: readonly Gate[] = [
+  {
+    id: "greeting",
+    stage: "stage1_local_short_circuit",
+    predicate: (ctx) => isGreeting(ctx.lastUser, ctx.lexicon),
+    response: { kind: "mode_greetings" },
+    cooldown: null,
+  },
+  {
+    id: "ellipsis",
+    stage: "stage1_local_short_circuit",
+    predicate: (ctx) => isEllipsisOnly(ctx.lastUser),
+    response: { kind: "lexicon", pool: "ellipsis" },
+    cooldown: null,
+  },
+  {
+    id: "ultra_short",
+    stage: "stage1_local_short_circuit",
+    predicate: (ctx) =>
+      ctx.lastUser.length > 0 &&
+      ((ctx.wordCount <= 2 && !looksLikeQuestion(ctx.lastUser, ctx.lexicon)) ||
+        ctx.lexicon.ultraShort.has(ctx.lower)),
+    response: { kind: "lexicon", pool: "ultraShort" },
+    cooldown: null,
+  },
+  {
+    id: "casual_probe",
+    stage: "stage1_local_short_circuit",
+    predicate: (ctx) => ctx.lexicon.casualProbes.some((re) => re.test(ctx.lastUser)),
+    response: { kind: "lexicon", pool: "casualProbe" },
+    cooldown: null,
+  },
+  {
+    // Explicit invitation: open the door, still no probing.
+    id: "invite",
+    stage: "stage1_local_short_circuit",
+    predicate: (ctx) => ctx.lexicon.invite.test(ctx.lastUser),
+    response: { kind: "lexicon", pool: "invite" },
+    cooldown: null,
+  },
+  {
+    // One grounded line for a short message naming a feeling; never twice on the
+    // same message.
+    id: "reflection",
+    stage: "stage2_reflection",
+    predicate: (ctx) =>
+      ctx.wordCount >= 3 &&
+      ctx.wordCount < 12 &&
+      !ctx.lexicon.substantive.test(ctx.lastUser) &&
+      !!feelingBucket(ctx),
+    response: {
+      kind: "computed",
+      build: (ctx, cooldown) => {
+        const sig = messageSig(ctx);
+        if (!sig || sig === cooldown?.lastSig) return null;
+        const hit = feelingBucket(ctx)!;
+
+        // Repetition scan: the same feeling in 2+ of the last 6 user messages
+        const repeatCount = ctx.messages
+          .filter((m) => m?.role === "user")
+          .slice(-6)
+          .filter((m) => hit.re.test(String(m?.content ?? "").toLowerCase())).length;
+
+        const text = ctx.pick(repeatCount >= 2 ? hit.repeatLines : hit.lines);
+        return { text, sig };
+      },
+    },
+    cooldown: { kind: "reflection", ms: COOLDOWN_MS.reflection },
+  },
+  {
+    // Opt-in memory continuity: at most one sentence in front of a reflection.
+    id: "continuity",
+    stage: "stage3_continuity",
+    wraps: "reflection",
+    predicate: (ctx) =>
+      ctx.session?.allowMemoryReferences === true &&
+      ctx.wordCount >= 3 &&
+      focusTerms(ctx).length > 0,
+    response: { kind: "computed", build: continuityLine },
+    cooldown: { kind: "continuity", ms: COOLDOWN_MS.continuity },
+  },
+];
+
+// ---------- runner ----------
+
+export type GateTraceResult =
+  | "fired"
+  | "no_match"
+  | "cooldown"
+  | "no_session"
+  | "no_line";
+
+export interface GateOutcome {
+  gateId: GateId;
+  stage: GateStage;
+  response: string;
+  chain: GateId[]; // every gate that contributed, outermost first
+  memoryReads: number;
+  memoryIds: string[]; // memories the response cites
+  // Cooldowns to start if this answer is used. Not applied here, so a dry run
+  // leaves state untouched.
+  cooldownWrites: CooldownWrite[];
+}
+
+export interface GateRun {
+  outcome: GateOutcome | null; // null: no gate fired, the model answers
+  locale: GateLocale; // lexicon the gates matched against
+  trace: Array<{ gateId: GateId; result: GateTraceResult }>;
+}
+
+function lastUserText(messages: Turn[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]?.role === "user") return String(messages[i].content ?? "").trim();
+  }
+  return "";
+}
+
+export function createGateContext(
+  mode: VoiceMode | VoiceModeProfile,
+  messages: Turn[],
+  session?: GateSession,
+): GateContext {
+  const lastUser = lastUserText(messages);
+  const random = session?.random ?? Math.random;
+  const locale = resolveGateLocale(session?.language, lastUser);
+  return {
+    mode: toVoiceModeProfile(mode),
+    messages,
+    lastUser,
+    lower: lastUser.toLowerCase(),
+    wordCount: wordCount(lastUser),
+    locale,
+    lexicon: GATE_LEXICONS[locale],
+    session,
+    now: session?.now?.() ?? Date.now(),
+    pick: (lines) => lines[Math.floor(random() * lines.length)],
+  };
+}
+
+// Built-in modes greet in the turn's language; a custom mode's pool is the user's own
+// words and is used as written.
+function modeGreetings(ctx: GateContext): string[] {
+  const localized = ctx.lexicon.modeGreetings;
+  return ctx.mode.builtIn && localized && isBuiltInVoiceMode(ctx.mode.id)
+    ? localized[ctx.mode.id]
+    : ctx.mode.greetingResponses;
+}
+
+async function evaluateGate(
+  gate: Gate,
+  ctx: GateContext,
+): Promise<{ result: GateTraceResult; line?: GateLine; write?: CooldownWrite }> {
+  if (gate.cooldown && !ctx.session) return { result: "no_session" };
+  if (!gate.predicate(ctx)) return { result: "no_match" };
+
+  let entry: CooldownEntry | undefined;
+  let scopeKey = "";
+  if (gate.cooldown && ctx.session) {
+    scopeKey = cooldownScopeKey(ctx.session.userId, ctx.session.conversationId);
+    entry = await ctx.session.cooldowns.get(gate.cooldown.kind, scopeKey);
+    const ms = ctx.session.cooldownMs?.[gate.cooldown.kind] ?? gate.cooldown.ms;
+    if (entry && ctx.now - entry.lastAt < ms) return { result: "cooldown" };
+  }
+
+  const source = gate.response;
+  const line: GateLine | null =
+    source.kind === "fixed"
+      ? { text: source.line }
+      : source.kind === "pool"
+        ? { text: ctx.pick(source.lines) }
+        : source.kind === "lexicon"
+          ? { text: ctx.pick(ctx.lexicon.lines[source.pool]) }
+          : source.kind === "mode_greetings"
+            ? { text: ctx.pick(modeGreetings(ctx)) }
+            : await source.build(ctx, entry);
+  if (!line?.text) return { result: "no_line", line: line ?? undefined };
+
+  const write = gate.cooldown
+    ? {
+        kind: gate.cooldown.kind,
+        scopeKey,
+        entry: { lastAt: ctx.now, lastSig: line.sig },
+      }
+    : undefined;
+  return { result: "fired", line, write };
+}
+
+/**
+ * Run the gates in order and return the first local answer, if any.
+ * Pure with respect to cooldowns: the caller applies `cooldownWrites` once it
+ * actually uses the answer.
+ */
+export async function runGatePipeline(
+  mode: VoiceMode | VoiceModeProfile,
+  messages: Turn[],
+  session?: GateSession,
+  pipeline: readonly Gate[] = GATE_PIPELINE,
+): Promise<GateRun> {
+  const ctx = createGateContext(mode, messages, session);
+  const trace: GateRun["trace"] = [];
+
+  for (const gate of pipeline) {
+    if (gate.wraps) continue;
+    const primary = await evaluateGate(gate, ctx);
+    trace.push({ gateId: gate.id, result: primary.result });
+    if (primary.result !== "fired" || !primary.line) continue;
+
+    const outcome: GateOutcome = {
+      gateId: gate.id,
+      stage: gate.stage,
+      response: primary.line.text,
+      chain: [gate.id],
+      memoryReads: primary.line.memoryReads ?? 0,
+      memoryIds: primary.line.memoryIds ?? [],
+      cooldownWrites: primary.write ? [primary.write] : [],
+    };
+
+    for (const wrapper of pipeline.filter((g) => g.wraps === gate.id)) {
+      try {
+        const extra = await evaluateGate(wrapper, ctx);
+        trace.push({ gateId: wrapper.id, result: extra.result });
+        outcome.memoryReads += extra.line?.memoryReads ?? 0;
+        if (extra.result !== "fired" || !extra.line) continue;
+        outcome.response = `${extra.line.text} ${outcome.response}`;
+        outcome.chain.unshift(wrapper.id);
+        outcome.memoryIds.push(...(extra.line.memoryIds ?? []));
+        if (extra.write) outcome.cooldownWrites.push(extra.write);
+      } catch {
+        // Failure mode: silent fallback to the unwrapped line (contract rule)
+        trace.push({ gateId: wrapper.id, result: "no_line" });
+      }
+    }
+
+    return { outcome, trace, locale: ctx.locale };
+  }
+
+  return { outcome: null, trace, locale: ctx.locale };
+}
@@ -0,0 +1,92 @@
+import type { GateLocale, VoiceMode } from "@shared/schema";
+
+import type { VoiceModeProfile } from "../voice-modes";
+import {
+  COOLDOWN_MS,
+  cooldownScopeKey,
+  type CooldownKind,
+  type CooldownStore,
+} from "./cooldowns";
+import { runGatePipeline, type GateId, type GateRun, type GateSession } from "./pipeline";
+
+// ================== GATE DRY RUN ==================
+// Answers "which gate would fire for this message, and why" without side effects:
+// no model call, no memory write, no cooldown mutation. Memories are only read
+// when the continuity gate would read them on a real turn.
+
+export interface SimulatedCooldown {
+  scopeKey: string;
+  lastAt: number | null;
+  remainingMs: number;
+  active: boolean;
+}
+
+export interface GateSimulation {
+  gateId: GateId | null;
+  stage: string; // GateStage, or "llm_call" when no gate fires
+  reason: string;
+  locale: GateLocale; // lexicon the message was matched against
+  response: string | null; // one sample from the gate's pool
+  chain: GateId[];
+  modelCall: boolean;
+  memoryReads: number;
+  cooldowns: Record<CooldownKind, SimulatedCooldown>;
+  // Cooldowns a real turn would start; reported, never applied
+  wouldStartCooldowns: CooldownKind[];
+  trace: GateRun["trace"];
+}
+
+// The pipeline never writes, but the dry run guarantees it by construction.
+function readOnly(store: CooldownStore): CooldownStore {
+  return {
+    get: (kind, scopeKey) => store.get(kind, scopeKey),
+    set: async () => {},
+    entriesForUser: (kind, userId) => store.entriesForUser(kind, userId),
+    transaction: (_scopeKey, fn) => fn(readOnly(store)),
+  };
+}
+
+export async function simulateGates(
+  mode: VoiceMode | VoiceModeProfile,
+  messages: Array<{ role: string; content: string }>,
+  session: GateSession,
+): Promise<GateSimulation> {
+  const cooldownsView = readOnly(session.cooldowns);
+  const now = session.now?.() ?? Date.now();
+  const scopeKey = cooldownScopeKey(session.userId, session.conversationId);
+
+  const cooldownFor = async (kind: CooldownKind): Promise<SimulatedCooldown> => {
+    const entry = await cooldownsView.get(kind, scopeKey);
+    const ms = session.cooldownMs?.[kind] ?? COOLDOWN_MS[kind];
+    const remainingMs = entry ? Math.max(0, entry.lastAt + ms - now) : 0;
+    return {
+      scopeKey,
+      lastAt: entry?.lastAt ?? null,
+      remainingMs,
+      active: remainingMs > 0,
+    };
+  };
+
+  const { outcome, trace, locale } = await runGatePipeline(mode, messages, {
+    ...session,
+    cooldowns: cooldownsView,
+    now: () => now,
+  });
+
+  return {
+    gateId: outcome?.gateId ?? null,
+    stage: outcome?.stage ?? "llm_call",
+    reason: outcome ? outcome.gateId : "no_gate_matched",
+    locale,
+    response: outcome?.response ?? null,
+    chain: outcome?.chain ?? [],
+    modelCall: !outcome,
+    memoryReads: outcome?.memoryReads ?? 0,
+    cooldowns: {
+      reflection: await cooldownFor("reflection"),
+      continuity: await cooldownFor("continuity"),
+    },
+    wouldStartCooldowns: outcome?.cooldownWrites.map((w) => w.kind) ?? [],
+    trace,
+  };
+}
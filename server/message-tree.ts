@@ -0,0 +1,67 @@
+import type { Message } from "@shared/schema";
+
+/**
+ * Conversation branches. Messages link to the previous message on their branch through
+ * parentMessageId; editing a user message adds a sibling under the same parent. The
+ * conversation's activeLeafId picks the branch that is shown and sent to the model.
+ * Conversations with no leaf predate branching and are read as one linear thread.
+ */
+
+export type BranchMessage = Message & {
+  // Messages sharing this one's parent, oldest first (itself included). Only
+  // meaningful when there is more than one.
+  siblingIds: string[];
+};
+
+const byTime = (a: Message, b: Message) => a.timestamp.getTime() - b.timestamp.getTime();
+
+// Messages from the root to `leafId`, in order.
+export function activePath(messages: Message[], leafId: string | null): Message[] {
+  if (!leafId) return messages;
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const path: Message[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(leafId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentMessageId ? byId.get(current.parentMessageId) : undefined;
+  }
+  return path;
+}
+
+// The newest-created descendant chain under `messageId`: what switching to it shows.
+export function latestLeaf(messages: Message[], messageId: string): string {
+  let leaf = messageId;
+  for (;;) {
+    const children = messages.filter((m) => m.parentMessageId === leaf).sort(byTime);
+    if (children.length === 0) return leaf;
+    leaf = children[children.length - 1].id;
+  }
+}
+
+export function withBranchInfo(
+  path: Message[],
+  all: Message[],
+  leafId: string | null,
+): BranchMessage[] {
+  return path.map((m) => ({
+    ...m,
+    siblingIds: leafId
+      ? all
+          .filter((o) => o.parentMessageId === m.parentMessageId)
+          .sort(byTime)
+          .map((o) => o.id)
+      : [m.id],
+  }));
+}
+
+// Parent links for a pre-branching thread, written before its first branch-aware append.
+export function legacyLinks(
+  messages: Message[],
+): Array<{ id: string; parentMessageId: string }> {
+  return messages
+    .slice(1)
+    .map((m, i) => ({ id: m.id, parentMessageId: messages[i].id }))
+    .filter((link, i) => messages[i + 1].parentMessageId !== link.parentMessageId);
+}
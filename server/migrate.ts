@@ -24,6 +24,7 @@ export async function ensureSchema() {
 
     // In production, schema should be applied via drizzle-kit push during deploy
     // This is a safety check to ensure basic connectivity
+    await migrateMemoryTypes(db);
     console.log("[migrate] Schema validation complete");
   } catch (error: any) {
     console.error("[migrate] Database error:", error.message);
@@ -32,3 +33,21 @@ export async function ensureSchema() {
     await pool.end();
   }
 }
+
+/**
+ * Stage 5 memory taxonomy: rows saved as "short-term"/"long-term" become facts.
+ * Short-term ones keep a hint of what they were: a review date a week after they
+ * were saved. Idempotent, so it is safe on every startup.
+ */
+async function migrateMemoryTypes(db: ReturnType<typeof drizzle>) {
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      UPDATE memories SET review_after = created_at + interval '7 days'
+      WHERE type = 'short-term' AND review_after IS NULL
+    `);
+    const { rowCount } = await tx.execute(sql`
+      UPDATE memories SET type = 'fact' WHERE type IN ('short-term', 'long-term')
+    `);
+    if (rowCount) console.log(`[migrate] Moved ${rowCount} memories to the new types`);
+  });
+}
@@ -0,0 +1,77 @@
+import type { NovaVersion, UserSettings } from "@shared/schema";
+import { REPLY_MAX_TOKENS } from "./context-window";
+import { MOCK_ENDPOINT } from "./providers";
+
+/**
+ * Per-turn model selection.
+ * A version may pin its own provider, model, reply length and temperature; anything
+ * it leaves unset falls back to the user's settings. The result says which source
+ * picked the model so the decision log can explain a turn after the fact.
+ */
+
+export type ModelSource = "version" | "settings";
+
+export const VERSION_PROVIDERS = ["openai", "anthropic", "custom", "mock"] as const;
+
+// Base URLs used when a version pins a provider other than the one in settings.
+const PROVIDER_ENDPOINTS: Record<string, string> = {
+  openai: "https://api.openai.com/v1",
+  anthropic: "https://api.anthropic.com/v1",
+  mock: MOCK_ENDPOINT,
+};
+
+const DEFAULT_PROVIDER = "openai";
+const DEFAULT_MODEL = "gpt-4";
+const DEFAULT_ENDPOINT = "https://api.openai.com/v1";
+
+export type VersionModelOverrides = Pick<
+  NovaVersion,
+  "provider" | "modelName" | "maxTokens" | "temperature"
+>;
+
+export interface ModelSelection {
+  provider: string;
+  providerSource: ModelSource;
+  modelName: string;
+  modelSource: ModelSource;
+  // Not yet allowlisted; the caller still runs it through resolveAllowedEndpoint.
+  apiEndpoint: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+const pinned = <T>(value: T | null | undefined): value is T =>
+  value !== null && value !== undefined && value !== "";
+
+export function resolveModelSelection(
+  settings: Pick<UserSettings, "provider" | "modelName" | "apiEndpoint"> | undefined,
+  version: Partial<VersionModelOverrides> | undefined,
+  requestedModel?: string,
+): ModelSelection {
+  const settingsProvider = settings?.provider || DEFAULT_PROVIDER;
+  const settingsEndpoint = (settings?.apiEndpoint ?? DEFAULT_ENDPOINT).trim();
+
+  const provider = pinned(version?.provider) ? version.provider : settingsProvider;
+  // Same provider (or "custom") keeps the configured endpoint; switching provider
+  // uses that provider's public endpoint.
+  const apiEndpoint =
+    provider === settingsProvider || provider === "custom"
+      ? settingsEndpoint
+      : (PROVIDER_ENDPOINTS[provider] ?? settingsEndpoint);
+
+  // A model in the request body is the client echoing its settings, so it ranks
+  // with settings, below a version pin.
+  const modelName = pinned(version?.modelName)
+    ? version.modelName
+    : requestedModel || settings?.modelName || DEFAULT_MODEL;
+
+  return {
+    provider,
+    providerSource: pinned(version?.provider) ? "version" : "settings",
+    modelName,
+    modelSource: pinned(version?.modelName) ? "version" : "settings",
+    apiEndpoint,
+    maxTokens: pinned(version?.maxTokens) ? version.maxTokens : REPLY_MAX_TOKENS,
+    temperature: pinned(version?.temperature) ? version.temperature : undefined,
+  };
+}
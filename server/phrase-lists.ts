@@ -0,0 +1,155 @@
+import type { PhraseListKind, PhraseMatchType, PhraseRule } from "@shared/schema";
+
+/**
+ * Phrase lists for the reply sanitizer.
+ * - banned: always stripped from model replies
+ * - conditional: stripped unless the user asked what Nova is ("are you an AI?")
+ * Built-in defaults apply to every user and can be switched off one by one; users add
+ * their own entries, for all versions or one version, as a whole phrase or a regex.
+ */
+
+export interface PhraseEntry {
+  id: string; // "default:<list>:<phrase>" for built-ins, otherwise the phrase_rules row id
+  list: PhraseListKind;
+  pattern: string;
+  matchType: PhraseMatchType;
+  source: "default" | "user" | "version";
+}
+
+// Banned phrases that violate Nova's voice
+export const DEFAULT_BANNED_PHRASES = [
+  "tell me how that makes you feel",
+  "that's a thoughtful observation",
+  "i'm here to help",
+  "how does that make you feel",
+  "what a great question",
+  "that's a great point",
+  "i understand how you feel",
+  "it sounds like you're feeling",
+  "i hear what you're saying",
+  "thank you for sharing",
+  "i'm glad you shared that",
+  "that's understandable",
+  "that must be difficult",
+  "i can imagine",
+  "let's explore that",
+  "let's unpack that",
+  "it sounds like",
+  "i'm sorry you're going through",
+  "you are valid",
+];
+
+// Conditional banned phrases (allowed only if user asked about capabilities)
+export const DEFAULT_CONDITIONAL_PHRASES = ["as an ai", "as an artificial intelligence"];
+
+const defaultEntry = (list: PhraseListKind, pattern: string): PhraseEntry => ({
+  id: `default:${list}:${pattern}`,
+  list,
+  pattern,
+  matchType: "phrase",
+  source: "default",
+});
+
+export const DEFAULT_PHRASE_ENTRIES: PhraseEntry[] = [
+  ...DEFAULT_BANNED_PHRASES.map((p) => defaultEntry("banned", p)),
+  ...DEFAULT_CONDITIONAL_PHRASES.map((p) => defaultEntry("conditional", p)),
+];
+
+export const MAX_PATTERN_LENGTH = 200;
+
+// Error message for an unusable pattern, or null.
+export function validatePhrasePattern(
+  pattern: string,
+  matchType: PhraseMatchType,
+): string | null {
+  if (!pattern.trim()) return "Pattern must not be empty";
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (matchType === "regex") {
+    let re: RegExp;
+    try {
+      re = new RegExp(pattern, "i");
+    } catch {
+      return "Invalid regular expression";
+    }
+    // An empty match would "strip" nothing and fire on every reply.
+    if (re.test("")) return "Pattern must not match empty text";
+  }
+  return null;
+}
+
+/**
+ * Entries in force for one turn: enabled defaults, then the user's entries that apply
+ * to every version or to `versionId`.
+ */
+export function resolvePhraseList(
+  rules: PhraseRule[],
+  disabledDefaults: string[] = [],
+  versionId?: string | null,
+): PhraseEntry[] {
+  const disabled = new Set(disabledDefaults);
+  return [
+    ...DEFAULT_PHRASE_ENTRIES.filter((e) => !disabled.has(e.id)),
+    ...rules
+      .filter((r) => r.enabled && (!r.versionId || r.versionId === versionId))
+      .map(
+        (r): PhraseEntry => ({
+          id: r.id,
+          list: r.list,
+          pattern: r.pattern,
+          matchType: r.matchType,
+          source: r.versionId ? "version" : "user",
+        }),
+      ),
+  ];
+}
+
+function escapeRegExp(input: string): string {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toRegExp(entry: PhraseEntry): RegExp | null {
+  try {
+    const source =
+      entry.matchType === "regex" ? entry.pattern : escapeRegExp(entry.pattern);
+    return new RegExp(source, "ig");
+  } catch {
+    return null; // stored before validation existed; never fails a turn
+  }
+}
+
+// First entry found in `text` (banned before conditional), or null.
+export function findPhrase(
+  text: string,
+  entries: PhraseEntry[],
+  userAskedAboutCapabilities: boolean,
+): PhraseEntry | null {
+  const lists: PhraseListKind[] = userAskedAboutCapabilities
+    ? ["banned"]
+    : ["banned", "conditional"];
+  for (const list of lists) {
+    for (const entry of entries) {
+      if (entry.list !== list) continue;
+      const re = toRegExp(entry);
+      if (re && re.test(text)) return entry;
+    }
+  }
+  return null;
+}
+
+// Remove every match of `entry` and tidy the whitespace/punctuation left behind.
+export function stripPhrase(text: string, entry: PhraseEntry): string {
+  const re = toRegExp(entry);
+  if (!re) return text;
+  let sanitized = text.replace(re, "");
+
+  // Clean up whitespace/punctuation artifacts from removal
+  sanitized = sanitized.replace(/\s{2,}/g, " ");
+  sanitized = sanitized.replace(/\s+([,.;:!?])/g, "$1");
+  sanitized = sanitized.replace(/([,.;:!?])([A-Za-z])/g, "$1 $2");
+  sanitized = sanitized.trim();
+  sanitized = sanitized.replace(/^["'“”‘’]+|["'“”‘’]+$/g, "").trim();
+
+  return sanitized;
+}
@@ -0,0 +1,96 @@
+import fs from "fs";
+import path from "path";
+
+// ================== TOKEN PRICES ==================
+// USD per million tokens, matched by model-name prefix (longest prefix wins).
+// Operators can override or extend the table with a JSON file at NOVA_PRICES_FILE
+// (default: config/prices.json):
+//   { "prices": { "gpt-4o": { "input": 2.5, "output": 10 } } }
+// A model with no matching entry is still counted, just with an unknown cost.
+
+export interface ModelPrice {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-3-sonnet": { input: 3, output: 15 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  mock: { input: 0, output: 0 },
+};
+
+let cached: Record<string, ModelPrice> | null = null;
+
+function readPricesFile(file: string): Record<string, ModelPrice> {
+  if (!fs.existsSync(file)) return {};
+  const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  const entries = parsed?.prices ?? parsed;
+  if (!entries || typeof entries !== "object" || Array.isArray(entries)) {
+    throw new Error(`${file}: expected { "prices": { "<model>": { input, output } } }`);
+  }
+
+  const out: Record<string, ModelPrice> = {};
+  for (const [prefix, price] of Object.entries<any>(entries)) {
+    const input = Number(price?.input);
+    const output = Number(price?.output);
+    if (!Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) {
+      console.warn(
+        `[pricing] ignoring ${prefix}: input/output must be non-negative numbers`,
+      );
+      continue;
+    }
+    out[prefix.toLowerCase()] = { input, output };
+  }
+  return out;
+}
+
+export function loadPriceTable(env: NodeJS.ProcessEnv = process.env) {
+  const file = path.resolve(env.NOVA_PRICES_FILE || "config/prices.json");
+  try {
+    return { ...DEFAULT_PRICES, ...readPricesFile(file) };
+  } catch (error: any) {
+    console.error(`[pricing] ${error?.message ?? error}`);
+    return { ...DEFAULT_PRICES };
+  }
+}
+
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!cached) cached = loadPriceTable();
+  return cached;
+}
+
+export function resetPriceTable() {
+  cached = null;
+}
+
+export function priceForModel(
+  model: string,
+  table: Record<string, ModelPrice> = getPriceTable(),
+): ModelPrice | null {
+  const name = model.toLowerCase();
+  let best: string | null = null;
+  for (const prefix of Object.keys(table)) {
+    if (name.startsWith(prefix) && (!best || prefix.length > best.length)) best = prefix;
+  }
+  return best ? table[best] : null;
+}
+
+// Cost of one turn in USD, or null when the model has no price entry.
+export function costForTokens(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  table?: Record<string, ModelPrice>,
+): number | null {
+  const price = priceForModel(model, table);
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,62 @@
+import type { Boundary, NovaRule, NovaVersion } from "@shared/schema";
+
+/**
+ * Server-side prompt assembly.
+ * The client never supplies the system prompt: it is rebuilt every turn from the
+ * conversation's version (prompt, enabled rules, tone sliders) plus the user's
+ * enabled do/don't boundaries. The voice engine then appends its mode rules.
+ */
+
+type PromptSource = Pick<NovaVersion, "systemPrompt" | "rules" | "toneTraits">;
+
+function formatRules(rules: NovaRule[] | null | undefined): string[] {
+  return (rules ?? [])
+    .filter((r) => r?.enabled && String(r.content ?? "").trim())
+    .map((r) => {
+      const name = String(r.name ?? "").trim();
+      const content = String(r.content).trim();
+      return name ? `- ${name}: ${content}` : `- ${content}`;
+    });
+}
+
+function formatToneTraits(traits: Record<string, unknown> | null | undefined): string[] {
+  return Object.entries(traits ?? {})
+    .filter(([, v]) => typeof v === "number" && Number.isFinite(v))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => {
+      const level = Math.round(Math.min(100, Math.max(0, v as number)));
+      return `- ${k.charAt(0).toUpperCase() + k.slice(1)}: ${level}/100`;
+    });
+}
+
+function formatBoundaries(boundaries: Boundary[] | null | undefined): string[] {
+  return (boundaries ?? [])
+    .filter((b) => b?.enabled && String(b.content ?? "").trim())
+    .map(
+      (b) => `- ${b.type === "dont" ? "Never" : "Always"}: ${String(b.content).trim()}`,
+    );
+}
+
+export function assembleSystemPrompt(
+  version: PromptSource,
+  boundaries: Boundary[] | null | undefined,
+): string {
+  const sections = [String(version.systemPrompt ?? "").trim()];
+
+  const rules = formatRules(version.rules);
+  if (rules.length) sections.push(`**Rules (always follow):**\n${rules.join("\n")}`);
+
+  const tone = formatToneTraits(version.toneTraits);
+  if (tone.length) {
+    sections.push(
+      `**Tone (0 = none, 100 = strong):**\n${tone.join("\n")}\nLet these shape wording only; they never override rules or boundaries.`,
+    );
+  }
+
+  const limits = formatBoundaries(boundaries);
+  if (limits.length) {
+    sections.push(`**User boundaries (non-negotiable):**\n${limits.join("\n")}`);
+  }
+
+  return sections.filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,83 @@
+import type { ProviderKey, ProviderKeyStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { decryptSecret, encryptSecret, lastFour } from "./secrets";
+
+// Providers a user can hold a key for (matches the settings provider picker).
+export const KEYED_PROVIDERS = ["openai", "anthropic", "custom"] as const;
+export type KeyedProvider = (typeof KEYED_PROVIDERS)[number];
+
+// Ciphertext is bound to its owner and provider.
+const keyContext = (userId: string, provider: string) =>
+  `provider-key:${userId}:${provider}`;
+
+function toStatus(provider: string, row?: ProviderKey): ProviderKeyStatus {
+  return {
+    provider,
+    isSet: !!row,
+    last4: row?.last4 ?? null,
+    updatedAt: row ? row.updatedAt.toISOString() : null,
+  };
+}
+
+export async function getProviderKeyStatuses(
+  userId: string,
+): Promise<ProviderKeyStatus[]> {
+  const rows = await storage.getProviderKeys(userId);
+  return KEYED_PROVIDERS.map((p) =>
+    toStatus(
+      p,
+      rows.find((r) => r.provider === p),
+    ),
+  );
+}
+
+// Set or rotate: the previous ciphertext is overwritten in place.
+export async function saveProviderKey(
+  userId: string,
+  provider: KeyedProvider,
+  apiKey: string,
+): Promise<ProviderKeyStatus> {
+  const secret = apiKey.trim();
+  const row = await storage.upsertProviderKey(
+    userId,
+    provider,
+    encryptSecret(secret, keyContext(userId, provider)),
+    lastFour(secret),
+  );
+  return toStatus(provider, row);
+}
+
+export async function removeProviderKey(
+  userId: string,
+  provider: KeyedProvider,
+): Promise<boolean> {
+  return storage.deleteProviderKey(userId, provider);
+}
+
+// A stored key that no longer decrypts (master key rotated or row tampered with).
+export class ProviderKeyError extends Error {
+  constructor(readonly provider: string) {
+    super(`Stored ${provider} key could not be decrypted`);
+  }
+}
+
+/**
+ * Key used for a model call. The stored per-user key wins; the legacy
+ * OPENAI_API_KEY env var is only a fallback for the OpenAI provider.
+ * Throws ProviderKeyError rather than quietly treating an unreadable key as absent.
+ */
+export async function resolveProviderApiKey(
+  userId: string,
+  provider: string,
+): Promise<string | undefined> {
+  const row = await storage.getProviderKey(userId, provider);
+  if (row) {
+    try {
+      return decryptSecret(row.encryptedKey, keyContext(userId, provider));
+    } catch (error) {
+      console.error(`Stored ${provider} key could not be decrypted:`, error);
+      throw new ProviderKeyError(provider);
+    }
+  }
+  return provider === "openai" ? process.env.OPENAI_API_KEY : undefined;
+}
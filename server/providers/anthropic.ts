@@ -0,0 +1,156 @@
+import { fetchUpstream } from "./http";
+import { readSseEvents } from "./sse";
+import type {
+  ChatTurn,
+  ProviderAdapter,
+  ProviderCallInput,
+  ProviderResult,
+  ProviderStreamResult,
+  TokenUsage,
+} from "./types";
+
+// Native Anthropic Messages API.
+// - system prompt is a top-level field (not a message)
+// - auth via x-api-key + anthropic-version (no Bearer)
+// - messages carry content blocks and must start with a user turn and alternate roles
+export const ANTHROPIC_VERSION = "2023-06-01";
+
+type AnthropicMessage = {
+  role: "user" | "assistant";
+  content: Array<{ type: "text"; text: string }>;
+};
+
+export function toAnthropicMessages(msgs: ChatTurn[]): AnthropicMessage[] {
+  const out: AnthropicMessage[] = [];
+
+  for (const m of msgs) {
+    if (m.role !== "user" && m.role !== "assistant") continue; // system lives at top level
+    const text = String(m.content ?? "");
+    if (!text.trim()) continue;
+
+    // Drop leading assistant turns: the API requires the first message to be from the user.
+    if (out.length === 0 && m.role === "assistant") continue;
+
+    const prev = out[out.length - 1];
+    if (prev && prev.role === m.role) {
+      // Merge consecutive same-role turns to keep strict alternation.
+      prev.content.push({ type: "text", text });
+      continue;
+    }
+
+    out.push({ role: m.role, content: [{ type: "text", text }] });
+  }
+
+  return out;
+}
+
+export function buildAnthropicRequest(input: ProviderCallInput) {
+  return {
+    url: `${input.endpoint}/messages`,
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": input.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: {
+      model: input.model,
+      system: input.systemPrompt,
+      messages: toAnthropicMessages(input.messages),
+      max_tokens: input.maxTokens,
+      ...(input.temperature !== undefined && { temperature: input.temperature }),
+    },
+  };
+}
+
+export function parseAnthropicResponse(data: any): string {
+  const blocks: any[] = Array.isArray(data?.content) ? data.content : [];
+  return blocks
+    .filter((b) => b?.type === "text" && typeof b.text === "string")
+    .map((b) => b.text)
+    .join("");
+}
+
+export function parseAnthropicUsage(data: any): TokenUsage | undefined {
+  const usage = data?.usage;
+  if (typeof usage?.input_tokens !== "number") return undefined;
+  return {
+    promptTokens: usage.input_tokens,
+    completionTokens: Number(usage.output_tokens) || 0,
+  };
+}
+
+// Streaming events: text deltas are yielded; input tokens arrive on message_start,
+// output tokens on message_delta; message_stop ends the turn.
+async function* anthropicDeltas(
+  body: ReadableStream<Uint8Array>,
+  usage: TokenUsage,
+): AsyncGenerator<string> {
+  for await (const ev of readSseEvents(body)) {
+    let payload: any;
+    try {
+      payload = JSON.parse(ev.data);
+    } catch {
+      continue;
+    }
+
+    if (payload?.type === "message_stop") return;
+    if (payload?.type === "message_start") {
+      usage.promptTokens = Number(payload.message?.usage?.input_tokens) || 0;
+    }
+    if (payload?.type === "message_delta" && payload.usage) {
+      usage.completionTokens = Number(payload.usage.output_tokens) || 0;
+    }
+    if (payload?.type === "error")
+      throw new Error(payload?.error?.type || "stream_error");
+    if (
+      payload?.type === "content_block_delta" &&
+      payload.delta?.type === "text_delta" &&
+      typeof payload.delta.text === "string"
+    ) {
+      yield payload.delta.text;
+    }
+  }
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: "anthropic",
+  async complete(input: ProviderCallInput): Promise<ProviderResult> {
+    const { url, headers, body } = buildAnthropicRequest(input);
+    const response = await fetchUpstream(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: input.signal,
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: data };
+    }
+
+    const usage = parseAnthropicUsage(data);
+    return { ok: true, content: parseAnthropicResponse(data), ...(usage && { usage }) };
+  },
+
+  async stream(input: ProviderCallInput): Promise<ProviderStreamResult> {
+    const { url, headers, body } = buildAnthropicRequest(input);
+    const response = await fetchUpstream(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ ...body, stream: true }),
+      signal: input.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      return { ok: false, status: response.status, error: data };
+    }
+
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    return {
+      ok: true,
+      deltas: anthropicDeltas(response.body, usage),
+      usage: () => (usage.promptTokens > 0 ? usage : undefined),
+    };
+  },
+};
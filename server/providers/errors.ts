@@ -0,0 +1,112 @@
+// ================== MODEL CALL ERRORS ==================
+// A failed model call is never turned into assistant text. It surfaces as one of these
+// and the route answers with a structured error the client shows as a system banner.
+
+export type ModelErrorType =
+  | "timeout" // our deadline fired before the upstream finished
+  | "aborted" // the client went away or asked us to stop
+  | "upstream" // the provider answered with an error status
+  | "network"; // the provider could not be reached
+
+export interface ModelErrorBody {
+  error: string;
+  type: ModelErrorType;
+  retryable: boolean;
+  upstreamStatus: number | null;
+}
+
+export class ModelCallError extends Error {
+  constructor(
+    readonly type: ModelErrorType,
+    message: string,
+    readonly upstreamStatus: number | null = null,
+  ) {
+    super(message);
+    this.name = "ModelCallError";
+  }
+
+  get retryable(): boolean {
+    if (this.type === "aborted") return false;
+    if (this.type === "upstream") {
+      return this.upstreamStatus === 429 || (this.upstreamStatus ?? 0) >= 500;
+    }
+    return true;
+  }
+
+  // HTTP status for our own response.
+  get httpStatus(): number {
+    if (this.type === "timeout") return 504;
+    if (this.type === "aborted") return 499;
+    return 502;
+  }
+
+  toJSON(): ModelErrorBody {
+    return {
+      error: this.message,
+      type: this.type,
+      retryable: this.retryable,
+      upstreamStatus: this.upstreamStatus,
+    };
+  }
+}
+
+export function upstreamError(status: number): ModelCallError {
+  const message =
+    status === 401 || status === 403
+      ? "The model provider rejected the API key."
+      : status === 429
+        ? "The model provider is rate limiting requests."
+        : `The model provider returned an error (${status}).`;
+  return new ModelCallError("upstream", message, status);
+}
+
+/**
+ * Map whatever a provider call threw onto a ModelCallError. `signal` is the turn's
+ * abort signal; its reason tells a timeout apart from a client abort.
+ */
+export function toModelCallError(error: unknown, signal?: AbortSignal): ModelCallError {
+  if (error instanceof ModelCallError) return error;
+  if (signal?.aborted) {
+    const reason = signal.reason;
+    if (reason instanceof ModelCallError) return reason;
+    return new ModelCallError("aborted", "The request was cancelled.");
+  }
+  return new ModelCallError("network", "Couldn't reach the model provider.");
+}
+
+export const DEFAULT_MODEL_TIMEOUT_MS = 30_000;
+
+export function modelTimeoutMs(): number {
+  return Number(process.env.NOVA_MODEL_TIMEOUT_MS) || DEFAULT_MODEL_TIMEOUT_MS;
+}
+
+/**
+ * Signal for one model call: fires on the deadline or when `parent` (the client
+ * request) aborts, with a ModelCallError as the reason. Call `done()` when finished.
+ */
+export function createModelDeadline(parent: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () =>
+      controller.abort(
+        new ModelCallError(
+          "timeout",
+          `The model didn't answer within ${Math.round(timeoutMs / 1000)}s.`,
+        ),
+      ),
+    timeoutMs,
+  );
+  const onParentAbort = () =>
+    controller.abort(new ModelCallError("aborted", "The request was cancelled."));
+
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener("abort", onParentAbort);
+
+  return {
+    signal: controller.signal,
+    done: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onParentAbort);
+    },
+  };
+}
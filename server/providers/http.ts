@@ -0,0 +1,26 @@
+import { isAllowedUpstreamUrl } from "../endpoint-allowlist";
+
+const MAX_REDIRECTS = 3;
+
+/**
+ * fetch() for upstream model calls. Redirects are never followed blindly: only
+ * method-preserving ones (307/308) to another allowlisted URL are, so a permitted
+ * host cannot bounce the request (and its API key) somewhere off the list.
+ */
+export async function fetchUpstream(url: string, init: RequestInit): Promise<Response> {
+  let target = url;
+  for (let hop = 0; ; hop++) {
+    const response = await fetch(target, { ...init, redirect: "manual" });
+    if (response.status < 300 || response.status >= 400) return response;
+
+    const location = response.headers.get("location");
+    const next = location ? new URL(location, target).toString() : null;
+    const followable = response.status === 307 || response.status === 308;
+    if (!next || !followable || hop >= MAX_REDIRECTS || !isAllowedUpstreamUrl(next)) {
+      await response.body?.cancel();
+      throw new Error(`Upstream redirect refused (${response.status} -> ${next ?? "?"})`);
+    }
+    await response.body?.cancel();
+    target = next;
+  }
+}
@@ -0,0 +1,50 @@
+import { anthropicAdapter } from "./anthropic";
+import { mockAdapter } from "./mock";
+import { openaiAdapter } from "./openai";
+import type { ProviderAdapter } from "./types";
+
+export type {
+  ChatTurn,
+  ProviderAdapter,
+  ProviderCallInput,
+  ProviderResult,
+  ProviderStreamResult,
+  TokenUsage,
+} from "./types";
+export {
+  MOCK_ENDPOINT,
+  MOCK_MODEL,
+  createMockProvider,
+  mockAdapter,
+  mockDirectivesEnabled,
+} from "./mock";
+export type { MockProvider, MockStep } from "./mock";
+export {
+  ModelCallError,
+  createModelDeadline,
+  modelTimeoutMs,
+  toModelCallError,
+  upstreamError,
+} from "./errors";
+export type { ModelErrorBody, ModelErrorType } from "./errors";
+
+/**
+ * Pick the adapter for a settings row.
+ * "custom" endpoints are treated as OpenAI-compatible; if the provider is missing
+ * we fall back to the endpoint host so legacy rows still route correctly.
+ */
+export function resolveProviderAdapter(
+  provider: string | null | undefined,
+  endpoint: string,
+): ProviderAdapter {
+  if (provider === "anthropic") return anthropicAdapter;
+  if (provider === "mock") return mockAdapter;
+  if (provider === "openai" || provider === "custom") return openaiAdapter;
+
+  try {
+    if (new URL(endpoint).hostname === "api.anthropic.com") return anthropicAdapter;
+  } catch {
+    // fall through
+  }
+  return openaiAdapter;
+}
@@ -0,0 +1,87 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  MOCK_MODEL,
+  applyMockLatency,
+  createMockProvider,
+  mockChunks,
+  type MockStep,
+} from "./mock";
+
+/**
+ * Local OpenAI-compatible HTTP stub backed by the mock provider's reply rules.
+ * Lets the real adapter + endpoint allowlist + SSE plumbing run without a network:
+ * start it, add its URL to NOVA_ALLOWED_ENDPOINTS and pick the "custom" provider.
+ * Starting the stub is the opt-in, so it always follows scripts and directives.
+ */
+
+export interface MockLlmServer {
+  url: string; // base URL, e.g. http://127.0.0.1:11500/v1
+  close: () => Promise<void>;
+}
+
+export async function startMockLlmServer(
+  opts: { port?: number; host?: string; script?: MockStep[] } = {},
+): Promise<MockLlmServer> {
+  const mock = createMockProvider({ directives: true });
+  if (opts.script) mock.setScript(opts.script);
+
+  const server: Server = createServer((req, res) => {
+    if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      return res.end(JSON.stringify({ error: { message: "Not found" } }));
+    }
+
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", async () => {
+      let body: any;
+      try {
+        body = JSON.parse(raw || "{}");
+      } catch {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        return res.end(JSON.stringify({ error: { message: "Invalid JSON" } }));
+      }
+
+      const step = mock.nextStep(Array.isArray(body.messages) ? body.messages : []);
+      await applyMockLatency(step);
+
+      if (step.error) {
+        res.writeHead(step.error.status, { "Content-Type": "application/json" });
+        return res.end(
+          JSON.stringify({
+            error: { type: "mock_error", message: step.error.message ?? "Mock error" },
+          }),
+        );
+      }
+
+      const reply = step.reply ?? "";
+      if (body.stream) {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        for await (const piece of mockChunks(reply)) {
+          const chunk = { choices: [{ delta: { content: piece } }] };
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+        return res.end("data: [DONE]\n\n");
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          model: body.model ?? MOCK_MODEL,
+          choices: [{ message: { role: "assistant", content: reply } }],
+        }),
+      );
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(opts.port ?? 0, opts.host ?? "127.0.0.1", resolve),
+  );
+  const { address, port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${address}:${port}/v1`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
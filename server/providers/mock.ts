@@ -0,0 +1,198 @@
+import type {
+  ChatTurn,
+  ProviderAdapter,
+  ProviderCallInput,
+  ProviderResult,
+  ProviderStreamResult,
+} from "./types";
+
+/**
+ * Deterministic offline provider. Used for demo mode (no key set), for the explicit
+ * "mock" provider in settings, and by tests. No network, no randomness.
+ *
+ * Reply selection, first match wins:
+ *   1. the next step of a script set with setScript()
+ *   2. directives in the last user message:
+ *        [mock:banned]        reply containing a banned therapist phrase
+ *        [mock:long]          eight-sentence reply
+ *        [mock:error=503]     upstream error with that status (default 500)
+ *        [mock:latency=800]   wait before replying (ms, capped at 10s)
+ *        [mock:stall=800]     streaming only: wait after the first sentence (ms, capped)
+ *        [mock:reply=text]    reply with exactly `text`
+ *   3. a presence line picked by a hash of the last user message
+ *
+ * Steps 1 and 2 are test tooling. Demo mode answers real users through this adapter,
+ * so they apply only under tests or with NOVA_MOCK_DIRECTIVES=1; otherwise every
+ * reply is a presence line.
+ */
+
+export const MOCK_ENDPOINT = "mock://local";
+// Model name the offline adapter answers as, whatever model the settings name.
+export const MOCK_MODEL = "mock-1";
+
+export interface MockStep {
+  reply?: string;
+  error?: { status: number; message?: string };
+  latencyMs?: number;
+  stallMs?: number; // streaming only
+}
+
+const PRESENCE_LINES = [
+  "I'm here.",
+  "Listening.",
+  "I hear you.",
+  "Noted.",
+  "Present.",
+  "Understood.",
+];
+
+export const MOCK_BANNED_REPLY =
+  "That sounds heavy. Tell me how that makes you feel. I'm here.";
+
+export const MOCK_LONG_REPLY = [
+  "First, I'm here.",
+  "Second, that matters.",
+  "Third, take your time.",
+  "Fourth, nothing needs fixing right now.",
+  "Fifth, breathe.",
+  "Sixth, one step is enough.",
+  "Seventh, I'm still listening.",
+  "Eighth, that's all.",
+].join(" ");
+
+const MAX_LATENCY_MS = 10_000;
+
+export function mockDirectivesEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.NODE_ENV === "test" || env.NOVA_MOCK_DIRECTIVES === "1";
+}
+
+function hash(text: string): number {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = ((h << 5) + h + text.charCodeAt(i)) >>> 0;
+  return h;
+}
+
+function parseDirectives(text: string): MockStep | null {
+  const step: MockStep = {};
+  let matched = false;
+
+  for (const [, name, value] of Array.from(
+    text.matchAll(/\[mock:(\w+)(?:=([^\]]*))?\]/g),
+  )) {
+    matched = true;
+    if (name === "banned") step.reply = MOCK_BANNED_REPLY;
+    if (name === "long") step.reply = MOCK_LONG_REPLY;
+    if (name === "reply") step.reply = value ?? "";
+    if (name === "error") step.error = { status: Number(value) || 500 };
+    if (name === "latency") step.latencyMs = Number(value) || 0;
+    if (name === "stall") step.stallMs = Number(value) || 0;
+  }
+  return matched ? step : null;
+}
+
+export async function applyMockLatency(
+  step: MockStep,
+  signal?: AbortSignal,
+): Promise<void> {
+  await mockWait(step.latencyMs, signal);
+}
+
+async function mockWait(latencyMs: number | undefined, signal?: AbortSignal) {
+  const ms = Math.min(MAX_LATENCY_MS, Math.max(0, latencyMs ?? 0));
+  if (ms <= 0) return;
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function mockError(step: MockStep) {
+  const status = step.error!.status;
+  return {
+    ok: false as const,
+    status,
+    error: {
+      error: { type: "mock_error", message: step.error!.message ?? `Mock ${status}` },
+    },
+  };
+}
+
+// Word-sized chunks, so streaming consumers see several deltas per sentence.
+// `stall` pauses once, after the first sentence.
+export async function* mockChunks(
+  text: string,
+  stall?: { ms?: number; signal?: AbortSignal },
+): AsyncGenerator<string> {
+  let stalled = false;
+  for (const piece of text.match(/\S+\s*/g) ?? []) {
+    yield piece;
+    if (stall?.ms && !stalled && /[.!?]\s*$/.test(piece)) {
+      stalled = true;
+      await mockWait(stall.ms, stall.signal);
+    }
+  }
+}
+
+export interface MockProvider extends ProviderAdapter {
+  nextStep(messages: ChatTurn[]): MockStep;
+  // Replace the scripted queue; each model call consumes one step.
+  setScript(steps: MockStep[]): void;
+  reset(): void;
+}
+
+// Each instance keeps its own script. `directives` defaults to mockDirectivesEnabled().
+export function createMockProvider(opts: { directives?: boolean } = {}): MockProvider {
+  let script: MockStep[] = [];
+
+  const nextStep = (messages: ChatTurn[]): MockStep => {
+    const lastUser =
+      [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+    if (opts.directives ?? mockDirectivesEnabled()) {
+      const scripted = script.shift();
+      if (scripted) return scripted;
+      const directed = parseDirectives(lastUser);
+      if (directed) return directed;
+    }
+    return {
+      reply: PRESENCE_LINES[hash(lastUser.trim().toLowerCase()) % PRESENCE_LINES.length],
+    };
+  };
+
+  return {
+    id: "mock",
+    nextStep,
+    setScript(steps) {
+      script = [...steps];
+    },
+    reset() {
+      script = [];
+    },
+
+    async complete(input: ProviderCallInput): Promise<ProviderResult> {
+      const step = nextStep(input.messages);
+      await applyMockLatency(step, input.signal);
+      if (step.error) return mockError(step);
+      return { ok: true, content: step.reply ?? "" };
+    },
+
+    async stream(input: ProviderCallInput): Promise<ProviderStreamResult> {
+      const step = nextStep(input.messages);
+      await applyMockLatency(step, input.signal);
+      if (step.error) return mockError(step);
+      return {
+        ok: true,
+        deltas: mockChunks(step.reply ?? "", { ms: step.stallMs, signal: input.signal }),
+      };
+    },
+  };
+}
+
+// Demo mode and the "mock" provider in settings.
+export const mockAdapter = createMockProvider();
@@ -0,0 +1,120 @@
+import { fetchUpstream } from "./http";
+import { readSseEvents } from "./sse";
+import type {
+  ProviderAdapter,
+  ProviderCallInput,
+  ProviderResult,
+  ProviderStreamResult,
+  TokenUsage,
+} from "./types";
+
+// OpenAI-compatible Chat Completions (also used for "custom" endpoints).
+export function buildOpenAIRequest(input: ProviderCallInput) {
+  return {
+    url: `${input.endpoint}/chat/completions`,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${input.apiKey}`,
+    },
+    body: {
+      model: input.model,
+      messages: [
+        { role: "system", content: input.systemPrompt },
+        ...input.messages.filter((m) => m.role !== "system"), // Exclude any system messages from input
+      ],
+      max_tokens: input.maxTokens,
+      ...(input.temperature !== undefined && { temperature: input.temperature }),
+    },
+  };
+}
+
+export function parseOpenAIResponse(data: any): string {
+  return String(data?.choices?.[0]?.message?.content ?? "");
+}
+
+export function parseOpenAIUsage(data: any): TokenUsage | undefined {
+  const usage = data?.usage;
+  if (typeof usage?.prompt_tokens !== "number") return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: Number(usage.completion_tokens) || 0,
+  };
+}
+
+// Only api.openai.com is known to accept stream_options; other compatible servers
+// may reject unknown fields, so their streamed turns fall back to local estimates.
+function streamOptionsFor(endpoint: string) {
+  try {
+    if (new URL(endpoint).hostname === "api.openai.com") {
+      return { stream_options: { include_usage: true } };
+    }
+  } catch {
+    // fall through
+  }
+  return {};
+}
+
+async function* openAIDeltas(
+  body: ReadableStream<Uint8Array>,
+  onUsage: (usage: TokenUsage) => void,
+): AsyncGenerator<string> {
+  for await (const ev of readSseEvents(body)) {
+    if (ev.data === "[DONE]") return;
+    try {
+      const chunk = JSON.parse(ev.data);
+      const usage = parseOpenAIUsage(chunk);
+      if (usage) onUsage(usage);
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (typeof delta === "string" && delta) yield delta;
+    } catch {
+      // ignore malformed keep-alive chunks
+    }
+  }
+}
+
+export const openaiAdapter: ProviderAdapter = {
+  id: "openai",
+  async complete(input: ProviderCallInput): Promise<ProviderResult> {
+    const { url, headers, body } = buildOpenAIRequest(input);
+    const response = await fetchUpstream(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: input.signal,
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: data };
+    }
+
+    const usage = parseOpenAIUsage(data);
+    return { ok: true, content: parseOpenAIResponse(data), ...(usage && { usage }) };
+  },
+
+  async stream(input: ProviderCallInput): Promise<ProviderStreamResult> {
+    const { url, headers, body } = buildOpenAIRequest(input);
+    const response = await fetchUpstream(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        ...body,
+        stream: true,
+        ...streamOptionsFor(input.endpoint),
+      }),
+      signal: input.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      return { ok: false, status: response.status, error: data };
+    }
+
+    let usage: TokenUsage | undefined;
+    return {
+      ok: true,
+      deltas: openAIDeltas(response.body, (u) => (usage = u)),
+      usage: () => usage,
+    };
+  },
+};
@@ -0,0 +1,51 @@
+// Minimal Server-Sent Events reader for upstream streaming responses.
+// Yields one { event, data } per blank-line-delimited block; comments are skipped.
+
+export type SseEvent = { event?: string; data: string };
+
+function parseBlock(block: string): SseEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const idx = line.indexOf(":");
+    const field = idx === -1 ? line : line.slice(0, idx);
+    const value = idx === -1 ? "" : line.slice(idx + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    if (field === "data") data.push(value);
+  }
+
+  if (data.length === 0) return null;
+  return { event, data: data.join("\n") };
+}
+
+export async function* readSseEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let match: RegExpExecArray | null;
+      while ((match = /\r?\n\r?\n/.exec(buffer))) {
+        const block = buffer.slice(0, match.index);
+        buffer = buffer.slice(match.index + match[0].length);
+        const ev = parseBlock(block);
+        if (ev) yield ev;
+      }
+    }
+
+    const tail = parseBlock(buffer);
+    if (tail) yield tail;
+  } finally {
+    // Stop the upstream body when the consumer breaks out early (e.g. sentence cap reached).
+    await reader.cancel().catch(() => {});
+  }
+}
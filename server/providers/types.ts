@@ -0,0 +1,40 @@
+// ================== PROVIDER ADAPTERS: SHARED TYPES ==================
+// The voice engine only knows `(messages, sysPrompt) -> text`.
+// Each adapter translates that into one upstream request and maps the reply back.
+
+export type ProviderId = "openai" | "anthropic" | "mock";
+
+export type ChatTurn = { role: string; content: string };
+
+export interface ProviderCallInput {
+  endpoint: string; // normalized + allowlisted base URL (e.g. https://api.openai.com/v1)
+  apiKey: string;
+  model: string;
+  systemPrompt: string;
+  messages: ChatTurn[];
+  maxTokens: number;
+  temperature?: number; // omitted -> provider default
+  signal?: AbortSignal; // timeout / client disconnect; aborts the upstream request
+}
+
+// Token counts as reported by the provider. Absent when the upstream doesn't say.
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export type ProviderResult =
+  | { ok: true; content: string; usage?: TokenUsage }
+  | { ok: false; status: number; error: unknown };
+
+// Streaming: text deltas only. Upstream errors surface before the first delta.
+// `usage()` is only meaningful once `deltas` has been drained.
+export type ProviderStreamResult =
+  | { ok: true; deltas: AsyncIterable<string>; usage?: () => TokenUsage | undefined }
+  | { ok: false; status: number; error: unknown };
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  complete(input: ProviderCallInput): Promise<ProviderResult>;
+  stream(input: ProviderCallInput): Promise<ProviderStreamResult>;
+}
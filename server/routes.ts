@@ -1,14 +1,80 @@
 import type { Express, Request, Response, NextFunction } from "express";
-import { createServer, type Server } from "http";
+import type { Server } from "http";
 import session from "express-session";
 import bcrypt from "bcrypt";
 import { storage } from "./storage";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
 import { randomUUID } from "crypto";
-import type { NovaRule, Boundary, NovaMood, VoiceMode } from "@shared/schema";
-import { generateResponse, buildEnhancedSystemPrompt } from "./voice-engine";
-import { recordDecision } from "./telemetry/decision-log";
+import type {
+  NovaRule,
+  NovaVersion,
+  Conversation,
+  InsertMessage,
+  Message,
+  MessageAlternate,
+  MemoryReference,
+  GateLocale,
+} from "@shared/schema";
+import { GATE_LOCALES, MEMORY_IMPORTANCE, MEMORY_TYPES } from "@shared/schema";
+import {
+  generateResponse,
+  generateResponseStream,
+  sanitizeReply,
+  type VoiceEngineOutput,
+} from "./voice-engine";
+import {
+  DEFAULT_PHRASE_ENTRIES,
+  resolvePhraseList,
+  validatePhrasePattern,
+} from "./phrase-lists";
+import {
+  BUILT_IN_VOICE_MODES,
+  MAX_CUSTOM_VOICE_MODES,
+  customVoiceModeSchema,
+  isBuiltInVoiceMode,
+  resolveVoiceMode,
+} from "./voice-modes";
+import { activePath, latestLeaf, legacyLinks, withBranchInfo } from "./message-tree";
+import { stopTurn, takeStoppedTurn, trackTurn } from "./turn-registry";
+import { findDecision, recordDecision } from "./telemetry/decision-log";
+import {
+  cooldownDurations,
+  createStoredCooldownStore,
+  simulateGates,
+  type GateSession,
+} from "./gates";
+import {
+  MOCK_ENDPOINT,
+  MOCK_MODEL,
+  ModelCallError,
+  createModelDeadline,
+  mockAdapter,
+  modelTimeoutMs,
+  resolveProviderAdapter,
+  toModelCallError,
+  upstreamError,
+  type TokenUsage,
+} from "./providers";
+import { assembleSystemPrompt } from "./prompt-assembly";
+import { VERSION_PROVIDERS, resolveModelSelection } from "./model-selection";
+import {
+  estimateTokens,
+  fitContextWindow,
+  inputBudgetForModel,
+  type ContextWindow,
+} from "./context-window";
+import { costForTokens } from "./pricing";
+import { isSecretStoreConfigured } from "./secrets";
+import { getAllowedEndpoints, resolveAllowedEndpoint } from "./endpoint-allowlist";
+import {
+  KEYED_PROVIDERS,
+  getProviderKeyStatuses,
+  saveProviderKey,
+  removeProviderKey,
+  resolveProviderApiKey,
+  ProviderKeyError,
+} from "./provider-keys";
 // ================== SIMPLE IN-MEMORY RATE LIMITER ==================
 // Prevents accidental rapid calls that burn OpenAI usage.
 // In-memory: resets on restart/deploy (fine as a safety net).
@@ -35,16 +101,6 @@ function createRateLimiter(opts: { windowMs: number; max: number }) {
     next();
   };
 }
-// ================== STAGE 2: REFLECTION STATE (in-memory) ==================
-// Light reflection with cooldown so Nova doesn't over-reflect.
-// In-memory: resets on restart/deploy (fine for Stage 2).
-const reflectionState = new Map<string, { lastAt: number; lastMsgSig: string }>();
-
-// ================== STAGE 3: CONTINUITY STATE (in-memory) ==================
-// Memory-aware continuity with cooldown so Nova doesn't over-reference history.
-// In-memory: resets on restart/deploy (acceptable for Stage 3 v1).
-const continuityState = new Map<string, { lastAt: number; lastMemoryId?: string }>();
-
 const SALT_ROUNDS = 12;
 
 declare module "express-session" {
@@ -113,63 +169,47 @@ const DEFAULT_RULES: NovaRule[] = [
   },
 ];
 
-// Helper to detect simple greetings
-function isSimpleGreeting(message: string): boolean {
-  const normalized = message.toLowerCase().trim();
-  const greetings = ["hi", "hey", "hello", "yo", "sup", "heya", "hiya", "howdy"];
-  return (
-    greetings.includes(normalized) ||
-    greetings.some((g) => normalized === `${g}!` || normalized === `${g}.`)
-  );
+// Gate language setting: a supported locale or "auto" (guess each message).
+const gateLanguageSchema = z.enum(["auto", ...GATE_LOCALES]);
+
+function gateLanguage(value: string | null | undefined): GateLocale | "auto" {
+  const parsed = gateLanguageSchema.safeParse(value);
+  return parsed.success ? parsed.data : "auto";
 }
 
-// Stage 1 presence responses (no questions)
-const STAGE1_GREETING_RESPONSES = [
-  "I'm here.",
-  "Here with you.",
-  "Present.",
-  "I'm listening.",
-  "Here.",
-];
+// Gate cooldowns are kept in Postgres (gate_cooldowns), so restarts and other server
+// processes see them.
+const cooldownStore = createStoredCooldownStore(storage);
+
+// Per-user cooldown durations, in seconds.
+const cooldownSettingsSchema = z.object({
+  reflectionCooldownSec: z.number().int().min(0).max(3600).optional(),
+  continuityCooldownSec: z.number().int().min(0).max(24 * 3600).optional(),
+});
+
+// Fires when the client disconnects before the response finished; cancels upstream work.
+// Pass `controller` to cancel the same work by other means too (the Stop button).
+function abortOnDisconnect(
+  res: Response,
+  controller = new AbortController(),
+): AbortSignal {
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+}
 
-const STAGE1_DEMO_RESPONSES = [
-  "I'm here.",
-  "Listening.",
-  "I hear you.",
-  "Noted.",
-  "Present.",
-  "Understood.",
-];
-/* 001 */ // ================== P1.1: API ENDPOINT ALLOWLIST (SSRF GUARD) ==================
-/* 002 */ // Canonicalize endpoints so variants like :443 or trailing slashes can’t bypass checks.
-/* 003 */ function normalizeApiEndpoint(raw: string): string | null {
-/* 004 */   try {
-/* 005 */     const u = new URL(raw.trim());
-/* 006 */     // Require HTTPS only
-/* 007 */     if (u.protocol !== "https:") return null;
-/* 008 */     // Disallow embedded credentials
-/* 009 */     if (u.username || u.password) return null;
-/* 010 */
-/* 011 */     // Strip default ports (443 for https)
-/* 012 */     const hostname = u.hostname.toLowerCase();
-/* 013 */     const port = u.port;
-/* 014 */     const isDefaultHttpsPort = port === "" || port === "443";
-/* 015 */     if (!isDefaultHttpsPort) return null; // block non-standard ports
-/* 016 */
-/* 017 */     // Normalize path - must start with /v1 (allow common user input like /v1/chat/completions)
-/* 018 */     const path = (u.pathname || "/").replace(/\/+$/, "");
-/* 019 */     if (!path.startsWith("/v1")) return null;
-/* 020 */
-/* 021 */     return `https://${hostname}/v1`;
-/* 022 */   } catch {
-/* 023 */     return null;
-/* 024 */   }
-/* 025 */ }
-/* 026 */
-/* 027 */ const ALLOWED_API_ENDPOINTS = new Set<string>([
-/* 028 */   "https://api.openai.com/v1",
-/* 029 */   "https://api.anthropic.com/v1",
-/* 030 */ ]);
+// Server-Sent Events response: one `event:` / `data:` block per send.
+function openEventStream(res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  return (event: string, data: unknown) =>
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
 export async function registerRoutes(httpServer: Server, app: Express): Promise<Server> {
   // Trust proxy for production (required for secure cookies behind reverse proxy)
@@ -333,6 +373,18 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   // ============ VERSIONS ROUTES ============
 
+  // Model pins are optional; null clears a pin so the version follows settings again.
+  const versionOverridesSchema = z.object({
+    provider: z.enum(VERSION_PROVIDERS).nullable().optional(),
+    modelName: z.string().trim().min(1).max(100).nullable().optional(),
+    maxTokens: z.number().int().min(16).max(4096).nullable().optional(),
+    temperature: z.number().min(0).max(2).nullable().optional(),
+  });
+  const invalidOverrides = {
+    error:
+      "Invalid model overrides: provider must be known, maxTokens 16-4096, temperature 0-2",
+  };
+
   app.get("/api/versions", requireAuth, async (req, res) => {
     try {
       const versions = await storage.getVersions(req.session.userId!);
@@ -343,6 +395,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   });
 
   app.post("/api/versions", requireAuth, async (req, res) => {
+    if (!versionOverridesSchema.safeParse(req.body).success) {
+      return res.status(400).json(invalidOverrides);
+    }
     try {
       const version = await storage.createVersion({
         ...req.body,
@@ -355,6 +410,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   });
 
   app.patch("/api/versions/:id", requireAuth, async (req, res) => {
+    if (!versionOverridesSchema.safeParse(req.body).success) {
+      return res.status(400).json(invalidOverrides);
+    }
     try {
       const version = await storage.updateVersion(req.params.id, req.session.userId!, req.body);
       if (!version) {
@@ -396,6 +454,10 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         toneTraits: original.toneTraits,
         modules: original.modules,
         parentVersionId: original.id,
+        provider: original.provider,
+        modelName: original.modelName,
+        maxTokens: original.maxTokens,
+        temperature: original.temperature,
       });
 
       res.json(cloned);
@@ -406,6 +468,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   // ============ CONVERSATIONS ROUTES ============
 
+  // Conversation plus the messages of the branch being shown
+  const branchView = (conv: Conversation, msgs: Message[]) => ({
+    ...conv,
+    messages: withBranchInfo(activePath(msgs, conv.activeLeafId), msgs, conv.activeLeafId),
+  });
+
   app.get("/api/conversations", requireAuth, async (req, res) => {
     try {
       const convs = await storage.getConversations(req.session.userId!);
@@ -421,8 +489,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       if (!conv) {
         return res.status(404).json({ error: "Conversation not found" });
       }
-      const msgs = await storage.getMessages(req.params.id, req.session.userId!);
-      res.json({ ...conv, messages: msgs });
+      const msgs = (await storage.getMessages(req.params.id, req.session.userId!)) ?? [];
+      // Only the branch being shown; sibling ids let the client switch branches.
+      res.json(branchView(conv, msgs));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch conversation" });
     }
@@ -441,9 +510,21 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // Only the title is editable here; the active branch moves through /branch, which
+  // checks the message belongs to the conversation.
+  const conversationUpdateSchema = z.object({ title: z.string().min(1) }).strict();
+
   app.patch("/api/conversations/:id", requireAuth, async (req, res) => {
+    const parsed = conversationUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Only the title can be updated" });
+    }
     try {
-      const conv = await storage.updateConversation(req.params.id, req.session.userId!, req.body);
+      const conv = await storage.updateConversation(
+        req.params.id,
+        req.session.userId!,
+        parsed.data,
+      );
       if (!conv) {
         return res.status(404).json({ error: "Conversation not found" });
       }
@@ -467,13 +548,143 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   // ============ MESSAGES ROUTES ============
 
+  // Appends to the branch being shown: the row links to the current leaf (or to
+  // `parentMessageId` when editing) and becomes the new leaf. A thread from before
+  // branching gets its parent links written first.
+  const appendMessage = async (
+    conv: Conversation,
+    userId: string,
+    message: Omit<InsertMessage, "conversationId" | "parentMessageId">,
+    parentMessageId?: string | null,
+  ): Promise<Message | null> => {
+    let leafId = conv.activeLeafId;
+    if (!leafId) {
+      const thread = (await storage.getMessages(conv.id, userId)) ?? [];
+      for (const link of legacyLinks(thread)) {
+        await storage.updateMessage(link.id, conv.id, userId, {
+          parentMessageId: link.parentMessageId,
+        });
+      }
+      leafId = thread[thread.length - 1]?.id ?? null;
+    }
+    const created = await storage.createMessage(
+      {
+        ...message,
+        conversationId: conv.id,
+        parentMessageId: parentMessageId === undefined ? leafId : parentMessageId,
+      },
+      userId,
+    );
+    if (created) {
+      conv.activeLeafId = created.id; // callers append the reply to the same object
+      await storage.updateConversation(conv.id, userId, { activeLeafId: created.id });
+    }
+    return created;
+  };
+
+  // Adds `reply` as the newest alternate of an assistant message and shows it. Replies
+  // from before regeneration existed become the first alternate.
+  const addAlternate = async (
+    target: Message,
+    userId: string,
+    reply: { content: string; requestId: string },
+  ): Promise<Message | null> => {
+    const previous: MessageAlternate[] = target.alternates.length
+      ? target.alternates
+      : [
+          {
+            content: target.content,
+            requestId: target.requestId,
+            timestamp: target.timestamp.toISOString(),
+          },
+        ];
+    const alternates = [...previous, { ...reply, timestamp: new Date().toISOString() }];
+    return storage.updateMessage(target.id, target.conversationId, userId, {
+      ...reply,
+      alternates,
+      alternateIndex: alternates.length - 1,
+    });
+  };
+
+  // Ledger rows for a reply that cited memories. Best-effort like usage accounting: a
+  // failed insert never fails the turn.
+  const recordMemoryReferences = async (
+    userId: string,
+    message: Message | null | undefined,
+    requestId: string,
+    memoryIds: string[] = [],
+  ): Promise<MemoryReference[]> => {
+    if (!message || memoryIds.length === 0) return [];
+    try {
+      return await storage.recordMemoryReferences(
+        memoryIds.map((memoryId) => ({
+          userId,
+          memoryId,
+          messageId: message.id,
+          conversationId: message.conversationId,
+          requestId,
+        })),
+      );
+    } catch (error) {
+      console.error("Failed to record memory references:", error);
+      return [];
+    }
+  };
+
+  // Which memories the replies in a conversation cited. A reply's current text is the
+  // one whose requestId matches the message's.
+  app.get("/api/conversations/:id/memory-references", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const conv = await storage.getConversation(req.params.id, userId);
+      if (!conv) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      res.json(await storage.getMemoryReferences(userId, conv.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch memory references" });
+    }
+  });
+
+  // Show another branch: `messageId` and its newest descendants become the active path.
+  const branchSchema = z.object({ messageId: z.string().min(1) });
+
+  app.patch("/api/conversations/:id/branch", requireAuth, async (req, res) => {
+    const parsed = branchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "messageId is required" });
+    }
+    try {
+      const userId = req.session.userId!;
+      const conv = await storage.getConversation(req.params.id, userId);
+      const msgs = conv ? await storage.getMessages(conv.id, userId) : null;
+      if (!conv || !msgs) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      if (!msgs.some((m) => m.id === parsed.data.messageId)) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      // A thread from before branching has only the one branch.
+      if (!conv.activeLeafId) {
+        return res.json(branchView(conv, msgs));
+      }
+      const activeLeafId = latestLeaf(msgs, parsed.data.messageId);
+      const updated = await storage.updateConversation(conv.id, userId, { activeLeafId });
+      res.json(branchView(updated ?? { ...conv, activeLeafId }, msgs));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to switch branch" });
+    }
+  });
+
   app.post("/api/conversations/:id/messages", requireAuth, async (req, res) => {
     try {
-      const message = await storage.createMessage({
-        conversationId: req.params.id,
-        role: req.body.role,
-        content: req.body.content,
-      }, req.session.userId!);
+      const conv = await storage.getConversation(req.params.id, req.session.userId!);
+      const message = conv
+        ? await appendMessage(conv, req.session.userId!, {
+            role: req.body.role,
+            content: req.body.content,
+          })
+        : null;
 
       if (!message) {
         return res.status(404).json({ error: "Conversation not found" });
@@ -505,24 +716,73 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   // ============ MEMORIES ROUTES ============
 
+  // expiresAt/reviewAfter take an ISO date, or null to clear it
+  const memorySchema = z.object({
+    content: z.string().trim().min(1),
+    tags: z.array(z.string()).default([]),
+    importance: z.enum(MEMORY_IMPORTANCE).default("medium"),
+    type: z.enum(MEMORY_TYPES).default("fact"),
+    expiresAt: z.coerce.date().nullable().optional(),
+    reviewAfter: z.coerce.date().nullable().optional(),
+    sourceConversationId: z.string().uuid().nullable().optional(),
+    sourceMessageId: z.string().uuid().nullable().optional(),
+  });
+  // Provenance is fixed when the memory is saved
+  const memoryUpdateSchema = memorySchema
+    .omit({ sourceConversationId: true, sourceMessageId: true })
+    .partial();
+
+  // Each memory with how often replies have cited it, from the reference ledger
   app.get("/api/memories", requireAuth, async (req, res) => {
     try {
-      const mems = await storage.getMemories(req.session.userId!);
-      res.json(mems);
+      const userId = req.session.userId!;
+      const mems = await storage.getMemories(userId);
+      const stats = new Map(
+        (await storage.getMemoryReferenceStats(userId)).map((s) => [s.memoryId, s]),
+      );
+      res.json(
+        mems.map((m) => ({
+          ...m,
+          referenceCount: stats.get(m.id)?.count ?? 0,
+          lastReferencedAt: stats.get(m.id)?.lastReferencedAt ?? null,
+        })),
+      );
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch memories" });
     }
   });
 
   app.post("/api/memories", requireAuth, async (req, res) => {
+    const parsed = memorySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid memory" });
+    }
     try {
+      const userId = req.session.userId!;
+      // The snapshot is the stored text of the user's own message, not what the
+      // client sent
+      let sourceSnapshot: string | null = null;
+      if (parsed.data.sourceMessageId) {
+        const msgs = parsed.data.sourceConversationId
+          ? await storage.getMessages(parsed.data.sourceConversationId, userId)
+          : null;
+        const source = msgs?.find((m) => m.id === parsed.data.sourceMessageId);
+        if (!source) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        sourceSnapshot = source.content;
+      }
       const memory = await storage.createMemory({
-        userId: req.session.userId!,
-        content: req.body.content,
-        tags: req.body.tags || [],
-        importance: req.body.importance || "medium",
-        type: req.body.type || "long-term",
-        sourceConversationId: req.body.sourceConversationId || null,
+        userId,
+        content: parsed.data.content,
+        tags: parsed.data.tags,
+        importance: parsed.data.importance,
+        type: parsed.data.type,
+        expiresAt: parsed.data.expiresAt ?? null,
+        reviewAfter: parsed.data.reviewAfter ?? null,
+        sourceConversationId: parsed.data.sourceConversationId ?? null,
+        sourceMessageId: parsed.data.sourceMessageId ?? null,
+        sourceSnapshot,
       });
       res.json(memory);
     } catch (error) {
@@ -531,8 +791,16 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   });
 
   app.patch("/api/memories/:id", requireAuth, async (req, res) => {
+    const parsed = memoryUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid memory" });
+    }
     try {
-      const memory = await storage.updateMemory(req.params.id, req.session.userId!, req.body);
+      const memory = await storage.updateMemory(
+        req.params.id,
+        req.session.userId!,
+        parsed.data,
+      );
       if (!memory) {
         return res.status(404).json({ error: "Memory not found" });
       }
@@ -570,16 +838,373 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.patch("/api/settings", requireAuth, async (req, res) => {
     try {
-      const settings = await storage.updateSettings(req.session.userId!, req.body);
+      const updates = { ...req.body };
+      if (updates.apiEndpoint !== undefined && updates.apiEndpoint !== MOCK_ENDPOINT) {
+        const endpoint = resolveAllowedEndpoint(String(updates.apiEndpoint));
+        if (!endpoint) {
+          return res.status(400).json({ error: "API endpoint is not on the server allowlist" });
+        }
+        updates.apiEndpoint = endpoint;
+      }
+      if (
+        updates.voiceMode !== undefined &&
+        !(await ownsVoiceMode(String(updates.voiceMode), req.session.userId!))
+      ) {
+        return res.status(400).json({ error: "Unknown voice mode" });
+      }
+      if (
+        updates.language !== undefined &&
+        !gateLanguageSchema.safeParse(updates.language).success
+      ) {
+        return res.status(400).json({ error: "Unknown language" });
+      }
+      if (!cooldownSettingsSchema.safeParse(updates).success) {
+        return res.status(400).json({ error: "Cooldowns must be whole seconds within range" });
+      }
+      const settings = await storage.updateSettings(req.session.userId!, updates);
       res.json(settings);
     } catch (error) {
       res.status(500).json({ error: "Failed to update settings" });
     }
   });
 
+  // Operator-managed allowlist (see endpoint-allowlist.ts); shown read-only in settings.
+  app.get("/api/endpoints", requireAuth, (_req, res) => {
+    res.json({
+      endpoints: getAllowedEndpoints().map(({ url, label, source }) => ({ url, label, source })),
+    });
+  });
+
+  // ============ PROVIDER KEYS (write-only) ============
+  // Keys go in, never come back out: responses carry set/not set and the last 4 chars.
+
+  const providerParamSchema = z.enum(KEYED_PROVIDERS);
+  const providerKeyBodySchema = z.object({
+    apiKey: z.string().trim().min(8, "apiKey looks too short"),
+  });
+
+  app.get("/api/provider-keys", requireAuth, async (req, res) => {
+    try {
+      const keys = await getProviderKeyStatuses(req.session.userId!);
+      res.json({ masterKeyConfigured: isSecretStoreConfigured(), keys });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch API keys" });
+    }
+  });
+
+  // Set or rotate the key for one provider.
+  app.put("/api/provider-keys/:provider", requireAuth, async (req, res) => {
+    const provider = providerParamSchema.safeParse(req.params.provider);
+    if (!provider.success) {
+      return res.status(400).json({ error: "Unknown provider" });
+    }
+    const body = providerKeyBodySchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ error: "Invalid request: apiKey must be at least 8 characters" });
+    }
+    if (!isSecretStoreConfigured()) {
+      return res
+        .status(503)
+        .json({ error: "Key storage is not configured on the server (NOVA_MASTER_KEY)" });
+    }
+
+    try {
+      const status = await saveProviderKey(
+        req.session.userId!,
+        provider.data,
+        body.data.apiKey,
+      );
+      res.json(status);
+    } catch (error) {
+      console.error("Failed to save API key:", error);
+      res.status(500).json({ error: "Failed to save API key" });
+    }
+  });
+
+  app.delete("/api/provider-keys/:provider", requireAuth, async (req, res) => {
+    const provider = providerParamSchema.safeParse(req.params.provider);
+    if (!provider.success) {
+      return res.status(400).json({ error: "Unknown provider" });
+    }
+
+    try {
+      const deleted = await removeProviderKey(req.session.userId!, provider.data);
+      if (!deleted) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete API key" });
+    }
+  });
+
+  // ============ VOICE MODES ============
+  // Built-in modes are fixed; custom modes are per user and selected through
+  // settings.voiceMode by id.
+
+  // true for a built-in name or one of the user's own custom modes
+  const ownsVoiceMode = async (id: string, userId: string) =>
+    isBuiltInVoiceMode(id) || !!(await storage.getCustomVoiceMode(id, userId));
+
+  const loadVoiceMode = async (userId: string, selected: string | null | undefined) => {
+    if (!selected || isBuiltInVoiceMode(selected)) return resolveVoiceMode(selected);
+    const custom = await storage.getCustomVoiceMode(selected, userId);
+    return resolveVoiceMode(selected, custom ? [custom] : []);
+  };
+
+  // Names are unique per user, ignoring case
+  const voiceModeNameTaken = async (userId: string, name: string, exceptId?: string) =>
+    (await storage.getCustomVoiceModes(userId)).some(
+      (m) => m.id !== exceptId && m.name.toLowerCase() === name.toLowerCase(),
+    );
+
+  const invalidVoiceMode = (error: z.ZodError) =>
+    error.issues[0]?.message ?? "Invalid voice mode";
+
+  app.get("/api/voice-modes", requireAuth, async (req, res) => {
+    try {
+      res.json({
+        builtIn: Object.values(BUILT_IN_VOICE_MODES),
+        custom: await storage.getCustomVoiceModes(req.session.userId!),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch voice modes" });
+    }
+  });
+
+  app.post("/api/voice-modes", requireAuth, async (req, res) => {
+    const parsed = customVoiceModeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: invalidVoiceMode(parsed.error) });
+    }
+    try {
+      const userId = req.session.userId!;
+      const existing = await storage.getCustomVoiceModes(userId);
+      if (existing.length >= MAX_CUSTOM_VOICE_MODES) {
+        return res
+          .status(400)
+          .json({ error: `At most ${MAX_CUSTOM_VOICE_MODES} custom voice modes` });
+      }
+      if (await voiceModeNameTaken(userId, parsed.data.name)) {
+        return res.status(400).json({ error: "A voice mode with that name already exists" });
+      }
+      const mode = await storage.createCustomVoiceMode({ userId, ...parsed.data });
+      res.json(mode);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create voice mode" });
+    }
+  });
+
+  app.patch("/api/voice-modes/:id", requireAuth, async (req, res) => {
+    const parsed = customVoiceModeSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: invalidVoiceMode(parsed.error) });
+    }
+    try {
+      const userId = req.session.userId!;
+      if (
+        parsed.data.name !== undefined &&
+        (await voiceModeNameTaken(userId, parsed.data.name, req.params.id))
+      ) {
+        return res.status(400).json({ error: "A voice mode with that name already exists" });
+      }
+      const mode = await storage.updateCustomVoiceMode(req.params.id, userId, parsed.data);
+      if (!mode) {
+        return res.status(404).json({ error: "Voice mode not found" });
+      }
+      res.json(mode);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update voice mode" });
+    }
+  });
+
+  app.delete("/api/voice-modes/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const deleted = await storage.deleteCustomVoiceMode(req.params.id, userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Voice mode not found" });
+      }
+      // Don't leave settings pointing at a mode that no longer exists
+      const settings = await storage.getSettings(userId);
+      if (settings?.voiceMode === req.params.id) {
+        await storage.updateSettings(userId, { voiceMode: "quiet" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete voice mode" });
+    }
+  });
+
+  // ============ PHRASE LISTS ============
+  // Reply sanitizer entries: built-in defaults (can be switched off) plus the user's own,
+  // for all versions or one version, as a whole phrase or a regex.
+
+  const phraseRuleSchema = z.object({
+    list: z.enum(["banned", "conditional"]),
+    pattern: z.string(),
+    matchType: z.enum(["phrase", "regex"]).default("phrase"),
+    versionId: z.string().uuid().nullable().optional(),
+    enabled: z.boolean().optional(),
+  });
+
+  // false when the version is missing or belongs to someone else
+  const ownsVersion = async (versionId: string | null | undefined, userId: string) =>
+    !versionId || !!(await storage.getVersion(versionId, userId));
+
+  app.get("/api/phrase-lists", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const settings = await storage.getSettings(userId);
+      const disabled = new Set(settings?.disabledDefaultPhrases ?? []);
+      res.json({
+        defaults: DEFAULT_PHRASE_ENTRIES.map((e) => ({ ...e, enabled: !disabled.has(e.id) })),
+        entries: await storage.getPhraseRules(userId),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch phrase lists" });
+    }
+  });
+
+  app.post("/api/phrase-lists", requireAuth, async (req, res) => {
+    const parsed = phraseRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid phrase entry" });
+    }
+    const invalid = validatePhrasePattern(parsed.data.pattern, parsed.data.matchType);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    try {
+      const userId = req.session.userId!;
+      if (!(await ownsVersion(parsed.data.versionId, userId))) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      const rule = await storage.createPhraseRule({
+        userId,
+        list: parsed.data.list,
+        pattern: parsed.data.pattern,
+        matchType: parsed.data.matchType,
+        versionId: parsed.data.versionId ?? null,
+        enabled: parsed.data.enabled ?? true,
+      });
+      res.json(rule);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create phrase entry" });
+    }
+  });
+
+  // Switch one built-in default on or off
+  const defaultToggleSchema = z.object({
+    id: z.string().refine((id) => DEFAULT_PHRASE_ENTRIES.some((e) => e.id === id), {
+      message: "Unknown default phrase",
+    }),
+    enabled: z.boolean(),
+  });
+
+  app.patch("/api/phrase-lists/defaults", requireAuth, async (req, res) => {
+    const parsed = defaultToggleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Unknown default phrase" });
+    }
+    try {
+      const userId = req.session.userId!;
+      const settings = await storage.getSettings(userId);
+      const disabled = new Set(settings?.disabledDefaultPhrases ?? []);
+      if (parsed.data.enabled) disabled.delete(parsed.data.id);
+      else disabled.add(parsed.data.id);
+      const updated = await storage.updateSettings(userId, {
+        disabledDefaultPhrases: Array.from(disabled),
+      });
+      res.json({ disabledDefaultPhrases: updated.disabledDefaultPhrases });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update default phrases" });
+    }
+  });
+
+  // Run the sanitizer on sample text with the lists a turn would use. No model call.
+  const phrasePreviewSchema = z.object({
+    text: z.string().min(1).max(5000),
+    userMessage: z.string().max(5000).optional(),
+    versionId: z.string().uuid().nullable().optional(),
+  });
+
+  app.post("/api/phrase-lists/preview", requireAuth, async (req, res) => {
+    const parsed = phrasePreviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request: text must be a non-empty string" });
+    }
+    try {
+      const userId = req.session.userId!;
+      if (!(await ownsVersion(parsed.data.versionId, userId))) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      const settings = await storage.getSettings(userId);
+      const phrases = resolvePhraseList(
+        await storage.getPhraseRules(userId),
+        settings?.disabledDefaultPhrases,
+        parsed.data.versionId,
+      );
+      const result = sanitizeReply(parsed.data.text, phrases, parsed.data.userMessage ?? "");
+      res.json({
+        output: result.response,
+        rewritten: result.response !== parsed.data.text,
+        sanitizedBy: result.sanitizedBy,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to preview sanitizer" });
+    }
+  });
+
+  app.patch("/api/phrase-lists/:id", requireAuth, async (req, res) => {
+    const parsed = phraseRuleSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid phrase entry" });
+    }
+    try {
+      const userId = req.session.userId!;
+      const existing = (await storage.getPhraseRules(userId)).find(
+        (r) => r.id === req.params.id,
+      );
+      if (!existing) {
+        return res.status(404).json({ error: "Phrase entry not found" });
+      }
+      const invalid = validatePhrasePattern(
+        parsed.data.pattern ?? existing.pattern,
+        parsed.data.matchType ?? existing.matchType,
+      );
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      if (!(await ownsVersion(parsed.data.versionId, userId))) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      const rule = await storage.updatePhraseRule(req.params.id, userId, parsed.data);
+      if (!rule) {
+        return res.status(404).json({ error: "Phrase entry not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update phrase entry" });
+    }
+  });
+
+  app.delete("/api/phrase-lists/:id", requireAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deletePhraseRule(req.params.id, req.session.userId!);
+      if (!deleted) {
+        return res.status(404).json({ error: "Phrase entry not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete phrase entry" });
+    }
+  });
+
   // ============ OPENAI PROXY WITH VOICE ENGINE ============
 
-  // P4: Zod schema for chat completions validation  const chatMessageSchema = z.object({
+  // P4: Zod schema for chat completions validation
+  const chatMessageSchema = z.object({
     role: z.string(),
     content: z.string(),
   });
@@ -598,10 +1223,13 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
       // Optional model selection; kept permissive (validated downstream / by OpenAI).
       model: z.string().optional(),
+
+      // Stream the reply as Server-Sent Events instead of one JSON body.
+      stream: z.boolean().optional(),
     })
     .passthrough()
     .superRefine((v, ctx) => {
-      if (v.apiEndpoint && !validateApiEndpoint(v.apiEndpoint)) {
+      if (v.apiEndpoint && !resolveAllowedEndpoint(v.apiEndpoint)) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
           message: "apiEndpoint is not allowed",
@@ -610,466 +1238,994 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       }
     });
 
-  app.post(
-    "/api/chat/completions",
-    requireAuth,
-    createRateLimiter({ windowMs: 15_000, max: 8 }),
-    async (req, res) => {
+  type ChatTurnParams = {
+    userId: string;
+    route: string;
+    messages: Array<{ role: string; content: string }>;
+    conversationId?: string;
+    model?: string;
+    signal?: AbortSignal; // client disconnect
+  };
+
+  type PreparedChatTurn =
+    | {
+        ok: true;
+        requestId: string; // decision-log id of this turn
+        mock: boolean;
+        voiceMode: string;
+        run: () => Promise<VoiceEngineOutput>;
+        runStream: (onDelta: (text: string) => void) => Promise<VoiceEngineOutput>;
+      }
+    | { ok: false; status: number; error: string };
+
+  // One chat turn: settings, prompt assembly, endpoint guard, gates and the single
+  // model call. Shared by /api/chat/completions and /api/conversations/:id/turn.
+  const prepareChatTurn = async (params: ChatTurnParams): Promise<PreparedChatTurn> => {
+    const { userId, messages, conversationId } = params;
+    const requestId = randomUUID();
+    let modelCallCount = 0;
+
+    // Get user settings for voice mode (built-in or one of the user's custom modes)
+    const settings = await storage.getSettings(userId);
+    const mode = await loadVoiceMode(userId, settings?.voiceMode);
+    const voiceMode = mode.id;
+
+    // Prompt is assembled server-side from the conversation's version; any
+    // client-supplied system_prompt is ignored.
+    let version: NovaVersion | undefined;
+    if (conversationId) {
+      const conv = await storage.getConversation(conversationId, userId);
+      if (!conv) {
+        return { ok: false, status: 404, error: "Conversation not found" };
+      }
+      version = await storage.getVersion(conv.versionId, userId);
+    } else {
+      version = (await storage.getVersions(userId))[0];
+    }
+    const systemPrompt = assembleSystemPrompt(
+      version ?? {
+        systemPrompt: DEFAULT_SYSTEM_PROMPT,
+        rules: DEFAULT_RULES,
+        toneTraits: {},
+      },
+      settings?.boundaries,
+    );
+
+    // Version pins win over settings for provider, model, reply length and temperature.
+    const selection = resolveModelSelection(settings, version, params.model);
+    const { modelName } = selection;
+    let apiKey: string | undefined;
+    try {
+      apiKey = await resolveProviderApiKey(userId, selection.provider);
+    } catch (error) {
+      if (!(error instanceof ProviderKeyError)) throw error;
+      // Falling back to demo mode here would hide a broken key behind canned replies.
+      return {
+        ok: false,
+        status: 409,
+        error: `The saved ${error.provider} key can't be read; re-enter it in Settings.`,
+      };
+    }
+
+    // Demo mode (no key) and the explicit "mock" provider both use the deterministic
+    // offline adapter, so the full model path still runs.
+    const useMock = selection.provider === "mock" || !apiKey;
+    // Usage is booked to the model that actually answered.
+    const answeringModel = useMock ? MOCK_MODEL : modelName;
+
+    // P1.1 — Enforce API endpoint allowlist (null = invalid/rejected)
+    const endpoint =
+      selection.provider === "mock"
+        ? MOCK_ENDPOINT
+        : resolveAllowedEndpoint(selection.apiEndpoint);
+    if (!endpoint) {
+      return { ok: false, status: 400, error: "Invalid API endpoint" };
+    }
+
+    const provider = useMock
+      ? mockAdapter
+      : resolveProviderAdapter(selection.provider, endpoint);
+
+    // Stage 3: opt-in gate for memory-aware continuity (defaults OFF if missing)
+    const allowMemoryRefs: boolean = settings?.allowMemoryReferences === true;
+
+    // Per-user gate state for the shared gate pipeline (server/gates).
+    const gates: GateSession = {
+      userId,
+      conversationId,
+      allowMemoryReferences: allowMemoryRefs,
+      cooldowns: cooldownStore,
+      loadMemories: () => storage.getMemories(userId),
+      language: gateLanguage(settings?.language),
+      cooldownMs: cooldownDurations(settings),
+    };
+
+    // Sanitizer phrase lists: enabled defaults plus the user's entries for this version.
+    const phrases = resolvePhraseList(
+      await storage.getPhraseRules(userId),
+      settings?.disabledDefaultPhrases,
+      version?.id,
+    );
+
+    // History trimmed to the model's token budget; set once the model is actually called.
+    const contextBudget = inputBudgetForModel(modelName, selection.maxTokens);
+    let context: ContextWindow | null = null;
+
+    // Provider-reported usage for the model call, when the upstream sends it.
+    let reportedUsage: TokenUsage | undefined;
+    let replyText = "";
+
+    const timeoutMs = modelTimeoutMs();
+
+    // Helper function to call the model
+    // Note: sysPrompt is the enhanced system prompt from voice engine
+    const callModel = async (
+      msgs: Array<{ role: string; content: string }>,
+      sysPrompt: string,
+    ): Promise<string> => {
+      // Provider adapter turns (msgs, sysPrompt) into the native upstream request
+      context = fitContextWindow({
+        systemPrompt: sysPrompt,
+        messages: msgs,
+        budget: contextBudget,
+      });
+      modelCallCount += 1;
+      const deadline = createModelDeadline(params.signal, timeoutMs);
       try {
-        // P4: Validate messages array
-        const parseResult = chatCompletionsSchema.safeParse(req.body);
-        if (!parseResult.success) {
-          return res.status(400).json({
-            error: "Invalid request: messages must be a non-empty array of { role, content }",
-          });
+        const upstream = await provider.complete({
+          endpoint,
+          apiKey: apiKey ?? "",
+          model: modelName,
+          systemPrompt: context.systemPrompt,
+          messages: context.messages,
+          maxTokens: selection.maxTokens,
+          temperature: selection.temperature,
+          signal: deadline.signal,
+        });
+
+        if (!upstream.ok) {
+          console.error(`${provider.id} error:`, upstream.status, upstream.error);
+          throw upstreamError(upstream.status);
         }
 
-        const apiKey = process.env.OPENAI_API_KEY;
-        const messages = parseResult.data.messages;
-        const systemPrompt = req.body.system_prompt || "";
-        const modelName = req.body.model || "gpt-4";
-        const requestId = randomUUID();
-        let modelCallCount = 0;
-
-        // Get user settings for voice mode
-        const settings = await storage.getSettings(req.session.userId!);
-        const voiceMode: VoiceMode = (settings?.voiceMode as VoiceMode) || "quiet";
-    
-        // Normalize: remove trailing slashes
-        const rawEndpoint = (settings?.apiEndpoint ?? "https://api.openai.com/v1").trim();
-        const endpoint = normalizeApiEndpoint(rawEndpoint);
-
-        // P1.1 — Enforce API endpoint allowlist (null = invalid/rejected)
-        if (!endpoint || !ALLOWED_API_ENDPOINTS.has(endpoint)) {
-          return res.status(400).json({
-            error: "Invalid API endpoint",
-          });
+        reportedUsage = upstream.usage;
+        replyText = upstream.content;
+        return upstream.content || "I'm here.";
+      } catch (error) {
+        throw toModelCallError(error, deadline.signal);
+      } finally {
+        deadline.done();
+      }
+    };
+
+    // Streaming twin of callModel: same gates, same single upstream call.
+    const streamModel = async function* (
+      msgs: Array<{ role: string; content: string }>,
+      sysPrompt: string,
+    ): AsyncGenerator<string> {
+      context = fitContextWindow({
+        systemPrompt: sysPrompt,
+        messages: msgs,
+        budget: contextBudget,
+      });
+      modelCallCount += 1;
+      // The deadline covers the whole stream, not just the first byte.
+      const deadline = createModelDeadline(params.signal, timeoutMs);
+      try {
+        const upstream = await provider.stream({
+          endpoint,
+          apiKey: apiKey ?? "",
+          model: modelName,
+          systemPrompt: context.systemPrompt,
+          messages: context.messages,
+          maxTokens: selection.maxTokens,
+          temperature: selection.temperature,
+          signal: deadline.signal,
+        });
+
+        if (!upstream.ok) {
+          console.error(`${provider.id} error:`, upstream.status, upstream.error);
+          throw upstreamError(upstream.status);
         }
 
-        // Stage 3: opt-in gate for memory-aware continuity (defaults OFF if missing)
-        const allowMemoryRefs: boolean = settings?.allowMemoryReferences === true;
-
-        // Helper function to call the model
-        // Note: sysPrompt is the enhanced system prompt from voice engine
-        const callModel = async (
-          msgs: Array<{ role: string; content: string }>,
-          sysPrompt: string,
-        ): Promise<string> => {
-          // ================== NOVA BEHAVIOR GATES (PROTECTED ZONE) ==================
-          // Stage 1/2/3 gating logic below is intentionally order-sensitive.
-          // Do not refactor, reorder, or “simplify” without re-running STAGE3_TESTS.md.
-          // Any changes here must preserve:
-          // - local-first short-circuit behavior
-          // - no questions by default
-          // - no advice unless asked
-          // - opt-in only memory continuity
-          // ========================================================================
-
-          // -------------------- STAGE 1 + STAGE 2: SILENCE, PAUSE & REFLECTION RULES --------------------
-
-          // Helper: get last user message
-          const getLastUserText = (m: Array<{ role: string; content: string }>) => {
-            for (let i = m.length - 1; i >= 0; i--) {
-              if (m[i]?.role === "user") return (m[i].content ?? "").trim();
+        for await (const delta of upstream.deltas) {
+          replyText += delta;
+          yield delta;
+        }
+        reportedUsage = upstream.usage?.();
+      } catch (error) {
+        throw toModelCallError(error, deadline.signal);
+      } finally {
+        deadline.done();
+      }
+    };
+
+    // Tokens for the turn's model call (null if the gates answered locally). Provider
+    // counts win; demo mode and streams without usage fall back to local estimates.
+    const measureUsage = () => {
+      if (!context) return null;
+      const promptTokens = reportedUsage?.promptTokens ?? context.estimatedTokens;
+      const completionTokens = reportedUsage?.completionTokens ?? estimateTokens(replyText);
+      return {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        estimated: !reportedUsage,
+        costUsd: costForTokens(answeringModel, promptTokens, completionTokens),
+      };
+    };
+
+    // Exactly one decision per turn, whichever path produced it (failures included).
+    const logDecision = (
+      result: VoiceEngineOutput | ModelCallError,
+      usage: ReturnType<typeof measureUsage> = null,
+    ) =>
+      recordDecision(userId, {
+        ts: new Date().toISOString(),
+        requestId,
+        route: params.route,
+        voiceMode,
+        allowMemoryReferences: allowMemoryRefs,
+        model: modelName,
+        modelSource: selection.modelSource,
+        apiEndpoint: endpoint,
+        provider: provider.id,
+        providerSource: selection.providerSource,
+        versionId: version?.id,
+        ...(result instanceof ModelCallError
+          ? {
+              status: result.type === "aborted" ? "aborted" : "error",
+              errorType: result.type,
+              upstreamStatus: result.upstreamStatus ?? undefined,
             }
-            return "";
-          };
+          : {
+              status: "ok",
+              stage: result.stage,
+              reason: result.reason,
+              gateId: result.gateId,
+              gateChain: result.gateChain,
+              memoryReadCount: result.memoryReadCount,
+              memoryIds: result.memoryIds,
+              sanitizedBy: result.sanitizedBy?.map(({ id, list, source }) => ({
+                id,
+                list,
+                source,
+              })),
+              shortCircuited: result.shortCircuited,
+              rewritten: result.rewritten,
+            }),
+        modelCallCount,
+        messagesSent: context?.sent,
+        messagesDropped: context?.dropped,
+        contextTokens: context?.estimatedTokens,
+        contextBudget: context?.budget,
+        conversationId,
+        promptTokens: usage?.promptTokens,
+        completionTokens: usage?.completionTokens,
+        totalTokens: usage?.totalTokens,
+        usageEstimated: usage?.estimated,
+        costUsd: usage?.costUsd ?? undefined,
+      });
 
-          // Helper: strict ellipsis detection (only "..." or "…")
-          const isEllipsisOnly = (text: string) => {
-            const trimmed = text.trim();
-            return trimmed === "..." || trimmed === "…";
-          };
+    // Log the outcome either way; model failures reach the route as ModelCallError.
+    const settle = async (pending: Promise<VoiceEngineOutput>) => {
+      try {
+        const result = await pending;
+        const usage = measureUsage();
+        logDecision(result, usage);
+        if (usage) {
+          // Accounting is best-effort; a failed insert never fails the turn.
+          storage
+            .recordTurnUsage({
+              userId,
+              requestId,
+              conversationId: conversationId ?? null,
+              versionId: version?.id ?? null,
+              model: answeringModel,
+              ...usage,
+            })
+            .catch((error) => console.error("Failed to record token usage:", error));
+        }
+        return result;
+      } catch (error) {
+        if (error instanceof ModelCallError) logDecision(error);
+        throw error;
+      }
+    };
+
+    return {
+      ok: true,
+      requestId,
+      mock: useMock,
+      voiceMode,
+      run: () =>
+        settle(
+          // Route through voice engine
+          generateResponse({
+            messages,
+            systemPrompt,
+            mode,
+            callModel,
+            gates,
+            phrases,
+          }),
+        ),
+      runStream: (onDelta) =>
+        settle(
+          generateResponseStream({
+            messages,
+            systemPrompt,
+            mode,
+            streamModel,
+            onDelta,
+            gates,
+            phrases,
+          }),
+        ),
+    };
+  };
 
-          // Helper: word count
-          const wordCount = (text: string) =>
-            text.trim().split(/\s+/).filter(Boolean).length;
+  const chatRateLimit = createRateLimiter({ windowMs: 15_000, max: 8 });
 
-          // Helper: looks like a question
-          const looksLikeQuestion = (text: string) => {
-            const trimmed = text.trim();
-            if (trimmed.includes("?")) return true;
-            return /^(what|why|how|when|where|who|can|could|would|should|do|does|did|is|are|am|will)\b/i.test(
-              trimmed,
-            );
-          };
+  app.post("/api/chat/completions", requireAuth, chatRateLimit, async (req, res) => {
+    try {
+      // P4: Validate messages array
+      const parseResult = chatCompletionsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid request: messages must be a non-empty array of { role, content }",
+        });
+      }
 
-          const lastUser = getLastUserText(msgs);
-          const lowerUser = lastUser.toLowerCase().trim();
-          const wc = wordCount(lastUser);
-
-          // ================== STAGE 3: MEMORY-AWARE CONTINUITY (one-line, opt-in) ==================
-          // Returns a single continuity sentence or null.
-          // - Opt-in only (allowMemoryRefs)
-          // - Cooldown enforced
-          // - High-confidence: only uses explicit stored memory content
-          // - Never asks questions, never gives advice
-          const maybeGetContinuityLine = async (
-            lastUserText: string,
-            convoId: string,
-          ) => {
-            try {
-              if (!allowMemoryRefs) return null;
-
-              const now = Date.now();
-              const stateKey = `${req.session.userId}:${convoId}`;
-              const prev = continuityState.get(stateKey) || {
-                lastAt: 0,
-                lastMemoryId: undefined,
-              };
-
-              const COOLDOWN_MS = 10 * 60_000; // 10 minutes
-              if (now - prev.lastAt < COOLDOWN_MS) return null;
-
-              const lower = lastUserText.toLowerCase();
-
-              // Only attempt continuity on emotionally substantive messages (Stage 2 already gates this elsewhere,
-              // but we keep a minimal guard here too).
-              if (wordCount(lastUserText) < 3) return null;
-
-              // Fetch memories (explicit user-stored)
-              const mems = await storage.getMemories(req.session.userId!);
-              if (!mems || mems.length === 0) return null;
-
-              // Lightweight keyword focus (keeps Stage 3 conservative and high-confidence)
-              const focusTerms = [
-                "stress",
-                "stressed",
-                "overwhelmed",
-                "pressure",
-                "tired",
-                "exhausted",
-                "drained",
-                "long day",
-                "hard day",
-                "rough day",
-                "worried",
-                "anxious",
-                "uneasy",
-                "sad",
-                "down",
-                "low",
-                "angry",
-                "mad",
-                "irritated",
-                "lonely",
-                "alone",
-                "isolated",
-              ];
-
-              const matchedFocus = focusTerms.filter((t) => lower.includes(t));
-              if (matchedFocus.length === 0) return null;
-
-              // Score memories by overlap (simple + predictable)
-              const scored = mems
-                .map((m: any) => {
-                  const text = String(m?.content ?? "").toLowerCase();
-                  const score = matchedFocus.reduce(
-                    (acc, term) => acc + (text.includes(term) ? 1 : 0),
-                    0,
-                  );
-                  return { m, score };
-                })
-                .filter((x) => x.score > 0)
-                .sort((a, b) => b.score - a.score);
-
-              const best = scored[0]?.m;
-              if (!best) return null;
-
-              // Avoid repeating the same memory reference again and again
-              if (prev.lastMemoryId && String(best.id) === String(prev.lastMemoryId))
-                return null;
-
-              // Build a short, safe continuity sentence (no quotes, no interpretation)
-              const raw = String(best.content ?? "")
-                .trim()
-                .replace(/\s+/g, " ");
-              if (!raw) return null;
-
-              const snippet = raw.length > 80 ? `${raw.slice(0, 80)}…` : raw;
-              const line = `Earlier you mentioned ${snippet.toLowerCase().startsWith("i ") ? snippet : snippet}.`;
-
-              continuityState.set(stateKey, {
-                lastAt: now,
-                lastMemoryId: String(best.id),
-              });
-              return line;
-            } catch {
-              return null; // Failure mode: silent fallback to Stage 2 (contract rule)
-            }
-          };
+      const turn = await prepareChatTurn({
+        userId: req.session.userId!,
+        route: "/api/chat/completions",
+        messages: parseResult.data.messages,
+        conversationId: parseResult.data.conversationId,
+        model: parseResult.data.model,
+        signal: abortOnDisconnect(res),
+      });
+      if (!turn.ok) {
+        return res.status(turn.status).json({ error: turn.error });
+      }
 
-          // Wrap a local Stage 2 reflection line with continuity (if allowed).
-          const maybePrefixContinuity = async (baseLine: string) => {
-            const convoId =
-              (req.body?.conversationId as string) ||
-              (req.body?.conversation_id as string) ||
-              "default";
+      // SSE variant: deltas are only what the voice engine has already cleared.
+      if (parseResult.data.stream) {
+        const send = openEventStream(res);
+        try {
+          const result = await turn.runStream((content) => send("delta", { content }));
+          send("done", {
+            mock: turn.mock,
+            voiceEngine: {
+              shortCircuited: result.shortCircuited,
+              rewritten: result.rewritten,
+              mode: turn.voiceMode,
+            },
+            content: result.response,
+          });
+        } catch (error) {
+          console.error("Chat stream error:", error);
+          send(
+            "error",
+            error instanceof ModelCallError
+              ? error.toJSON()
+              : { error: "Chat completion failed" },
+          );
+        }
+        return res.end();
+      }
 
-            const continuity = await maybeGetContinuityLine(lastUser, convoId);
-            if (!continuity) return baseLine;
-            return `${continuity} ${baseLine}`;
-          };
-          // ==================================================================================================
-
-          // 1) Pure pauses ("..." or "…") get a gentle presence line (no model call)
-          if (isEllipsisOnly(lastUser)) {
-            const quiet = [
-              "I'm here.",
-              "Still with you.",
-              "Take your time.",
-              "I'm listening.",
-            ];
-            return quiet[Math.floor(Math.random() * quiet.length)];
-          }
+      const result = await turn.run();
 
-          // 2) Ultra-short Stage 1 messages: short-circuit with presence acknowledgment
-          const ultraShortSet = new Set([
-            "ok",
-            "okay",
-            "k",
-            "kk",
-            "yeah",
-            "yep",
-            "no",
-            "nope",
-            "nah",
-            "sure",
-            "thanks",
-            "ty",
-            "lol",
-            "lmao",
-            "hm",
-            "hmm",
-            "idk",
-            "i dont know",
-            "i don't know",
-            "nm",
-            "not much",
-            "meh",
-            "nothing",
-            "nothin",
-          ]);
-
-          const isUltraShort =
-            (wc <= 2 && !looksLikeQuestion(lastUser)) || ultraShortSet.has(lowerUser);
-
-          if (isUltraShort) {
-            const softAcks = [
-              "Okay. I'm here.",
-              "No rush. I'm here.",
-              "Alright. We can sit for a moment.",
-              "Got it. I'm with you.",
-            ];
-            return softAcks[Math.floor(Math.random() * softAcks.length)];
-          }
+      res.json({
+        mock: turn.mock,
+        voiceEngine: {
+          shortCircuited: result.shortCircuited,
+          rewritten: result.rewritten,
+          mode: turn.voiceMode,
+        },
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content: result.response,
+            },
+          },
+        ],
+      });
+    } catch (error) {
+      if (error instanceof ModelCallError) {
+        if (error.type !== "aborted") console.error("Model call failed:", error.message);
+        return res.status(error.httpStatus).json(error.toJSON());
+      }
+      console.error("OpenAI proxy error:", error);
+      res.status(500).json({ error: "Chat completion failed" });
+    }
+  });
 
-          // 3) If user explicitly invites conversation, open the door (still no probing)
-          const invitesConversation =
-            /(i want to talk|can i tell you|i need to tell you|i need to ask you|i want to tell you|can we talk|i want to share)/i.test(
-              lastUser,
-            );
+  // Server-authoritative turn: the client sends only the new user text. History comes
+  // from storage, and both rows are persisted here so the transcript matches what
+  // the model actually saw.
+  const chatTurnSchema = z.object({
+    content: z.string().trim().min(1, "content must be a non-empty string"),
+    stream: z.boolean().optional(),
+  });
 
-          if (invitesConversation) {
-            return "Sure. Go ahead—I'm listening.";
-          }
+  // One user turn: save the user message on the branch being shown (or under
+  // `parentMessageId` when editing), then run the turn over that branch's history.
+  const runUserTurn = async (
+    res: Response,
+    opts: {
+      conv: Conversation;
+      userId: string;
+      content: string;
+      stream?: boolean;
+      route: string;
+      parentMessageId?: string | null;
+    },
+  ) => {
+    const { conv, userId, content, stream } = opts;
+    const conversationId = conv.id;
 
-          // ================== STAGE 2: REFLECTIVE PRESENCE (with cooldown) ==================
-          // Quick feeling match for phrases like "stressed", "tired", "long day", "worried"
-          // Only fires when message has >= 3 words, respects 45-second cooldown
-          {
-            const now = Date.now();
-
-            // Get conversation id for cooldown key (or "default" if not present)
-            const convoId =
-              (req.body?.conversationId as string) ||
-              (req.body?.conversation_id as string) ||
-              "default";
-
-            const stateKey = `${req.session.userId}:${convoId}`;
-            const prev = reflectionState.get(stateKey) || { lastAt: 0, lastMsgSig: "" };
-
-            const msgSig = lowerUser.slice(0, 140);
-            const COOLDOWN_MS = 45_000;
-
-            // Check cooldown: don't reflect twice on same message, respect 45s cooldown
-            const canReflect =
-              now - prev.lastAt > COOLDOWN_MS && msgSig && msgSig !== prev.lastMsgSig;
-
-            // Only consider reflection if message has substance (>= 3 words)
-            if (canReflect && wc >= 3) {
-              // Feeling buckets with single and repeat lines
-              const buckets: Array<{
-                key: string;
-                re: RegExp;
-                lines: string[];
-                repeatLines: string[];
-              }> = [
-                {
-                  key: "tired",
-                  re: /\b(tired|exhausted|drained|sleepy|worn\s*out)\b/i,
-                  lines: ["Sounds like you're running on low right now."],
-                  repeatLines: ["You've sounded drained more than once lately."],
-                },
-                {
-                  key: "stress",
-                  re: /\b(stressed|stressful|overwhelmed|pressure|burnt?\s*out)\b/i,
-                  lines: ["That sounds like a lot to carry."],
-                  repeatLines: ["This pressure has come up more than once lately."],
-                },
-                {
-                  key: "longday",
-                  re: /\b(long day|rough day|hard day)\b/i,
-                  lines: ["That kind of day can leave you heavy."],
-                  repeatLines: ["You've mentioned hard days a few times lately."],
-                },
-                {
-                  key: "worry",
-                  re: /\b(anxious|anxiety|worried|worry|nervous|uneasy)\b/i,
-                  lines: ["That has a restless feel to it."],
-                  repeatLines: ["That worry has echoed a few times lately."],
-                },
-                {
-                  key: "sad",
-                  re: /\b(sad|down|low|empty|hurt)\b/i,
-                  lines: ["That sounds painful."],
-                  repeatLines: ["That low feeling has appeared more than once lately."],
-                },
-                {
-                  key: "anger",
-                  re: /\b(angry|mad|furious|irritated|annoyed)\b/i,
-                  lines: ["That sounds like it hit a nerve."],
-                  repeatLines: ["That irritation has shown up a few times lately."],
-                },
-                {
-                  key: "lonely",
-                  re: /\b(lonely|alone|isolated|left out)\b/i,
-                  lines: ["That sounds isolating."],
-                  repeatLines: ["That alone feeling has come up more than once lately."],
-                },
-              ];
-
-              const hit = buckets.find((b) => b.re.test(lowerUser));
-
-              // P2: Substantive message gate — let longer/context-rich messages through to model
-              const isSubstantive =
-                wc >= 12 ||
-                /\b(because|and then|so that|which means|but then|after that)\b/i.test(lastUser);
-
-              if (hit && !isSubstantive) {
-                // Repetition scan: check last 6 user messages for pattern
-                const recentUsers = msgs
-                  .filter((m) => m?.role === "user")
-                  .slice(-6)
-                  .map((m) => (m?.content ?? "").toString().toLowerCase());
-
-                let repeatCount = 0;
-                for (const text of recentUsers) {
-                  if (hit.re.test(text)) repeatCount++;
-                }
-
-                const isRepeated = repeatCount >= 2;
-                const pick = (arr: string[]) =>
-                  arr[Math.floor(Math.random() * arr.length)];
-
-                // Update cooldown state
-                reflectionState.set(stateKey, { lastAt: now, lastMsgSig: msgSig });
-
-                // Stage 3: wrap Stage 2 reflection with memory continuity (if opt-in)
-                const base = isRepeated ? pick(hit.repeatLines) : pick(hit.lines);
-                return await maybePrefixContinuity(base);
-              }
-            }
-          }
-          // ==================================================================================
+    let userMessage: Message | null = null;
+    try {
+      userMessage = await appendMessage(
+        conv,
+        userId,
+        { role: "user", content },
+        opts.parentMessageId,
+      );
+      if (!userMessage) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
 
-          if (!apiKey) {
-            // Demo mode - return a placeholder
-            return STAGE1_DEMO_RESPONSES[
-              Math.floor(Math.random() * STAGE1_DEMO_RESPONSES.length)
-            ];
-          }
+      const history = activePath(
+        (await storage.getMessages(conversationId, userId)) ?? [],
+        userMessage.id,
+      );
 
-          // Build messages array with system prompt first, then user/assistant messages
-          const apiMessages = [
-            { role: "system", content: sysPrompt },
-            ...msgs.filter((m) => m.role !== "system"), // Exclude any system messages from input
-          ];
-
-          modelCallCount += 1;
-          const response = await fetch(`${endpoint}/chat/completions`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${apiKey}`,
-            },
-            body: JSON.stringify({
-              model: modelName,
-              messages: apiMessages,
-              max_tokens: 220,
-            }),
-          });
+      // Update conversation title if first user message
+      if (history.filter((m) => m.role === "user").length === 1) {
+        const title = content.slice(0, 40) + (content.length > 40 ? "..." : "");
+        await storage.updateConversation(conversationId, userId, { title });
+      }
+
+      const stop = new AbortController();
+      const turn = await prepareChatTurn({
+        userId,
+        route: opts.route,
+        messages: history.map((m) => ({ role: m.role, content: m.content })),
+        conversationId,
+        signal: abortOnDisconnect(res, stop),
+      });
+      if (!turn.ok) {
+        return res.status(turn.status).json({ error: turn.error, userMessage });
+      }
+      const tracked = trackTurn(
+        turn.requestId,
+        { userId, conversationId, keepAs: { userMessageId: userMessage.id } },
+        stop,
+      );
 
-          const data = await response.json();
+      const persist = async (result: VoiceEngineOutput) => {
+        const assistantMessage = await appendMessage(conv, userId, {
+          role: "assistant",
+          content: result.response,
+          requestId: turn.requestId,
+        });
+        const memoryReferences = await recordMemoryReferences(
+          userId,
+          assistantMessage,
+          turn.requestId,
+          result.memoryIds,
+        );
 
-          if (!response.ok) {
-            console.error("OpenAI error:", data);
-            // Clear message so you SEE issues rather than silently looping and burning usage.
-            return "I couldn’t reach the model just now. Try again in a moment.";
+        // Update sync status (one bump per turn)
+        try {
+          const status = await storage.getSyncStatus(userId);
+          if (status) {
+            await storage.updateSyncStatus(userId, { syncCount: status.syncCount + 1 });
           }
+        } catch {
+          // non-critical
+        }
 
-          return data.choices?.[0]?.message?.content || "I'm here.";
+        return {
+          userMessage,
+          assistantMessage,
+          memoryReferences,
+          mock: turn.mock,
+          voiceEngine: {
+            shortCircuited: result.shortCircuited,
+            rewritten: result.rewritten,
+            mode: turn.voiceMode,
+          },
         };
+      };
 
-        // Route through voice engine
-        const result = await generateResponse(
-          {
-            messages,
-            systemPrompt,
-            mode: voiceMode,
-            modelName,
-          },
-          callModel,
+      if (stream) {
+        const send = openEventStream(res);
+        // The requestId is what the Stop button cancels.
+        send("start", { requestId: turn.requestId, userMessage });
+        try {
+          const result = await turn.runStream((delta) => {
+            tracked.onDelta(delta);
+            send("delta", { content: delta });
+          });
+          tracked.finish(false);
+          send("done", await persist(result));
+        } catch (error) {
+          const aborted = error instanceof ModelCallError && error.type === "aborted";
+          tracked.finish(aborted);
+          if (!aborted) console.error("Chat turn stream error:", error);
+          // Failures are reported, never saved as Nova's reply.
+          const body =
+            error instanceof ModelCallError
+              ? error.toJSON()
+              : { error: "Chat turn failed" };
+          send("error", { ...body, userMessage });
+        }
+        return res.end();
+      }
+
+      let result: VoiceEngineOutput;
+      try {
+        result = await turn.run();
+      } finally {
+        tracked.finish(false);
+      }
+      res.json(await persist(result));
+    } catch (error) {
+      if (res.headersSent) return res.end();
+      if (error instanceof ModelCallError) {
+        if (error.type !== "aborted") console.error("Model call failed:", error.message);
+        return res.status(error.httpStatus).json({ ...error.toJSON(), userMessage });
+      }
+      console.error("Chat turn error:", error);
+      res.status(500).json({ error: "Chat turn failed", userMessage });
+    }
+  };
+
+  // Stop button: cancel a running turn. Its decision is logged as aborted and nothing
+  // is saved as Nova's reply.
+  app.post("/api/turns/:requestId/stop", requireAuth, (req, res) => {
+    if (!stopTurn(req.params.requestId, req.session.userId!)) {
+      return res.status(404).json({ error: "Turn is not running" });
+    }
+    res.json({ stopped: true });
+  });
+
+  // Save what a stopped turn had streamed, only when the user asks for it.
+  app.post(
+    "/api/conversations/:id/turns/:requestId/keep",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const userId = req.session.userId!;
+        const conv = await storage.getConversation(req.params.id, userId);
+        if (!conv) {
+          return res.status(404).json({ error: "Conversation not found" });
+        }
+        const stopped = takeStoppedTurn(req.params.requestId, userId);
+        if (!stopped || stopped.conversationId !== conv.id) {
+          return res.status(404).json({ error: "No stopped reply to keep" });
+        }
+        // Only while the message it answered (or regenerated) is still the end of the
+        // branch being shown.
+        const { keepAs } = stopped;
+        const shown = activePath(
+          (await storage.getMessages(conv.id, userId)) ?? [],
+          conv.activeLeafId,
         );
+        const end = shown[shown.length - 1];
+        const anchor =
+          "userMessageId" in keepAs ? keepAs.userMessageId : keepAs.regeneratedMessageId;
+        if (!end || end.id !== anchor) {
+          return res.status(409).json({ error: "The conversation has moved on" });
+        }
+        const reply = { content: stopped.content, requestId: req.params.requestId };
+        const assistantMessage =
+          "userMessageId" in keepAs
+            ? await appendMessage(conv, userId, { role: "assistant", ...reply })
+            : await addAlternate(end, userId, reply);
+        res.json({ assistantMessage });
+      } catch (error) {
+        res.status(500).json({ error: "Failed to keep partial reply" });
+      }
+    },
+  );
 
-        recordDecision(req.session.userId!, {
-          ts: new Date().toISOString(),
-          requestId,
-          route: "/api/chat/completions",
-          voiceMode,
-          allowMemoryReferences: allowMemoryRefs,
-          model: modelName,
-          apiEndpoint: endpoint,
-          shortCircuited: result.shortCircuited,
-          rewritten: result.rewritten,
-          modelCallCount,
+  app.post("/api/conversations/:id/turn", requireAuth, chatRateLimit, async (req, res) => {
+    const userId = req.session.userId!;
+
+    const parseResult = chatTurnSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid request: content must be a non-empty string" });
+    }
+
+    let conv: Conversation | undefined;
+    try {
+      conv = await storage.getConversation(req.params.id, userId);
+    } catch (error) {
+      console.error("Chat turn error:", error);
+      return res.status(500).json({ error: "Chat turn failed" });
+    }
+    if (!conv) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    return runUserTurn(res, {
+      conv,
+      userId,
+      ...parseResult.data,
+      route: "/api/conversations/:id/turn",
+    });
+  });
+
+  // Edit a past user message: the edited text becomes a sibling of the original (same
+  // parent), i.e. a new branch, and the turn continues from there. The old branch stays.
+  app.post(
+    "/api/conversations/:id/messages/:messageId/edit",
+    requireAuth,
+    chatRateLimit,
+    async (req, res) => {
+      const userId = req.session.userId!;
+
+      const parseResult = chatTurnSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res
+          .status(400)
+          .json({ error: "Invalid request: content must be a non-empty string" });
+      }
+
+      let conv: Conversation | undefined;
+      let parentMessageId: string | null = null;
+      try {
+        conv = await storage.getConversation(req.params.id, userId);
+        if (!conv) {
+          return res.status(404).json({ error: "Conversation not found" });
+        }
+        const msgs = (await storage.getMessages(conv.id, userId)) ?? [];
+        const index = msgs.findIndex((m) => m.id === req.params.messageId);
+        if (index === -1) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        if (msgs[index].role !== "user") {
+          return res.status(409).json({ error: "Only user messages can be edited" });
+        }
+        // A thread from before branching is linear: the parent is the previous row.
+        parentMessageId = conv.activeLeafId
+          ? msgs[index].parentMessageId
+          : (msgs[index - 1]?.id ?? null);
+      } catch (error) {
+        console.error("Edit message error:", error);
+        return res.status(500).json({ error: "Failed to edit message" });
+      }
+
+      return runUserTurn(res, {
+        conv,
+        userId,
+        ...parseResult.data,
+        route: "/api/conversations/:id/messages/:messageId/edit",
+        parentMessageId,
+      });
+    },
+  );
+
+  // Regenerate the last reply: a fresh turn over the same history. Earlier replies are
+  // kept as alternates on the message; the new one becomes its content. Same one model
+  // call per turn, and a failed regeneration leaves the message untouched.
+  app.post(
+    "/api/conversations/:id/messages/:messageId/regenerate",
+    requireAuth,
+    chatRateLimit,
+    async (req, res) => {
+      const userId = req.session.userId!;
+      const { id: conversationId, messageId } = req.params;
+      const stream = req.body?.stream === true;
+
+      try {
+        const conv = await storage.getConversation(conversationId, userId);
+        const all = conv ? await storage.getMessages(conversationId, userId) : null;
+        if (!conv || !all) {
+          return res.status(404).json({ error: "Conversation not found" });
+        }
+        const msgs = activePath(all, conv.activeLeafId);
+        const index = msgs.findIndex((m) => m.id === messageId);
+        if (index === -1) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        const target = msgs[index];
+        if (target.role !== "assistant" || index !== msgs.length - 1) {
+          return res.status(409).json({ error: "Only the last reply can be regenerated" });
+        }
+
+        const stop = new AbortController();
+        const turn = await prepareChatTurn({
+          userId,
+          route: "/api/conversations/:id/messages/:messageId/regenerate",
+          messages: msgs.slice(0, index).map((m) => ({ role: m.role, content: m.content })),
+          conversationId,
+          signal: abortOnDisconnect(res, stop),
         });
+        if (!turn.ok) {
+          return res.status(turn.status).json({ error: turn.error });
+        }
+        const tracked = trackTurn(
+          turn.requestId,
+          { userId, conversationId, keepAs: { regeneratedMessageId: messageId } },
+          stop,
+        );
 
-        res.json({
-          mock: !apiKey,
-          voiceEngine: {
-            shortCircuited: result.shortCircuited,
-            rewritten: result.rewritten,
-            mode: voiceMode,
-          },
-          choices: [
-            {
-              message: {
-                role: "assistant",
-                content: result.response,
-              },
+        const persist = async (result: VoiceEngineOutput) => {
+          const assistantMessage = await addAlternate(target, userId, {
+            content: result.response,
+            requestId: turn.requestId,
+          });
+          const memoryReferences = await recordMemoryReferences(
+            userId,
+            assistantMessage,
+            turn.requestId,
+            result.memoryIds,
+          );
+
+          try {
+            const status = await storage.getSyncStatus(userId);
+            if (status) {
+              await storage.updateSyncStatus(userId, { syncCount: status.syncCount + 1 });
+            }
+          } catch {
+            // non-critical
+          }
+
+          return {
+            assistantMessage,
+            memoryReferences,
+            mock: turn.mock,
+            voiceEngine: {
+              shortCircuited: result.shortCircuited,
+              rewritten: result.rewritten,
+              mode: turn.voiceMode,
             },
-          ],
+          };
+        };
+
+        if (stream) {
+          const send = openEventStream(res);
+          // The requestId is what the Stop button cancels.
+          send("start", { requestId: turn.requestId });
+          try {
+            const result = await turn.runStream((delta) => {
+              tracked.onDelta(delta);
+              send("delta", { content: delta });
+            });
+            tracked.finish(false);
+            send("done", await persist(result));
+          } catch (error) {
+            const aborted = error instanceof ModelCallError && error.type === "aborted";
+            tracked.finish(aborted);
+            if (!aborted) console.error("Regenerate stream error:", error);
+            send(
+              "error",
+              error instanceof ModelCallError
+                ? error.toJSON()
+                : { error: "Regenerate failed" },
+            );
+          }
+          return res.end();
+        }
+
+        let result: VoiceEngineOutput;
+        try {
+          result = await turn.run();
+        } finally {
+          tracked.finish(false);
+        }
+        res.json(await persist(result));
+      } catch (error) {
+        if (res.headersSent) return res.end();
+        if (error instanceof ModelCallError) {
+          if (error.type !== "aborted") console.error("Model call failed:", error.message);
+          return res.status(error.httpStatus).json(error.toJSON());
+        }
+        console.error("Regenerate error:", error);
+        res.status(500).json({ error: "Regenerate failed" });
+      }
+    },
+  );
+
+  // Pick which alternate is canonical; later turns see only the chosen one.
+  const alternateSchema = z.object({ index: z.number().int().min(0) });
+
+  app.patch(
+    "/api/conversations/:id/messages/:messageId/alternate",
+    requireAuth,
+    async (req, res) => {
+      const parsed = alternateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "index must be a non-negative integer" });
+      }
+      try {
+        const userId = req.session.userId!;
+        const { id: conversationId, messageId } = req.params;
+        const msgs = await storage.getMessages(conversationId, userId);
+        const target = msgs?.find((m) => m.id === messageId);
+        if (!target) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        const chosen = target.alternates[parsed.data.index];
+        if (!chosen) {
+          return res.status(400).json({ error: "No such alternate" });
+        }
+        const updated = await storage.updateMessage(messageId, conversationId, userId, {
+          content: chosen.content,
+          requestId: chosen.requestId,
+          alternateIndex: parsed.data.index,
         });
+        res.json(updated);
       } catch (error) {
-        console.error("OpenAI proxy error:", error);
-        res.status(500).json({ error: "Chat completion failed" });
+        res.status(500).json({ error: "Failed to switch alternate" });
       }
     },
   );
 
+  // ============ FEEDBACK ============
+
+  // Thumbs up/down plus an optional note on a reply. Recorded for the user to read;
+  // nothing adapts to it.
+  const feedbackSchema = z.object({
+    rating: z.enum(["up", "down"]),
+    note: z.string().trim().max(500).optional(),
+  });
+
+  app.put(
+    "/api/conversations/:id/messages/:messageId/feedback",
+    requireAuth,
+    async (req, res) => {
+      const parsed = feedbackSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "rating must be up or down" });
+      }
+      try {
+        const userId = req.session.userId!;
+        const conv = await storage.getConversation(req.params.id, userId);
+        const msgs = conv ? await storage.getMessages(conv.id, userId) : null;
+        const target = msgs?.find((m) => m.id === req.params.messageId);
+        if (!conv || !target) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        if (target.role !== "assistant") {
+          return res.status(409).json({ error: "Only Nova's replies can be rated" });
+        }
+        // Evicted from the ring buffer (or from before a restart): keep what the
+        // conversation still tells us.
+        const decision = target.requestId ? findDecision(userId, target.requestId) : null;
+        const feedback = await storage.upsertMessageFeedback({
+          userId,
+          messageId: target.id,
+          conversationId: conv.id,
+          requestId: target.requestId,
+          content: target.content,
+          rating: parsed.data.rating,
+          note: parsed.data.note || null,
+          gate: decision ? (decision.gateId ?? "model") : null,
+          voiceMode: decision?.voiceMode ?? null,
+          versionId: decision?.versionId ?? conv.versionId,
+          model: decision?.model ?? null,
+        });
+        res.json(feedback);
+      } catch (error) {
+        res.status(500).json({ error: "Failed to save feedback" });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/conversations/:id/messages/:messageId/feedback",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const deleted = await storage.deleteMessageFeedback(
+          req.params.messageId,
+          req.session.userId!,
+        );
+        if (!deleted) {
+          return res.status(404).json({ error: "Feedback not found" });
+        }
+        res.json({ success: true });
+      } catch (error) {
+        res.status(500).json({ error: "Failed to delete feedback" });
+      }
+    },
+  );
+
+  const feedbackFilterSchema = z.object({
+    versionId: z.string().uuid().optional(),
+    gate: z.string().min(1).optional(),
+    rating: z.enum(["up", "down"]).optional(),
+    conversationId: z.string().uuid().optional(),
+  });
+
+  app.get("/api/feedback", requireAuth, async (req, res) => {
+    const parsed = feedbackFilterSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid feedback filter" });
+    }
+    try {
+      res.json(await storage.getMessageFeedback(req.session.userId!, parsed.data));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch feedback" });
+    }
+  });
+
   // ============ DIAGNOSTICS ============
 
+  // Gate dry run: which gate would answer `content` as the next user message.
+  // No model call, no memory write, no cooldown mutation.
+  const gateSimulateSchema = z.object({
+    content: z.string().min(1),
+    conversationId: z.string().optional(),
+    // Context when no conversation is given (e.g. tuning a version offline)
+    history: z.array(chatMessageSchema).max(200).optional(),
+    // Overrides for trying a setting without saving it
+    voiceMode: z.string().min(1).optional(), // built-in name or custom mode id
+    allowMemoryReferences: z.boolean().optional(),
+    language: gateLanguageSchema.optional(),
+  });
+
+  app.post("/api/gates/simulate", requireAuth, async (req, res) => {
+    const userId = req.session.userId!;
+    const parseResult = gateSimulateSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res
+        .status(400)
+        .json({ error: "Invalid request: content must be a non-empty string" });
+    }
+    const input = parseResult.data;
+
+    try {
+      let history: Array<{ role: string; content: string }> = input.history ?? [];
+      if (input.conversationId) {
+        const conv = await storage.getConversation(input.conversationId, userId);
+        const msgs = conv ? await storage.getMessages(conv.id, userId) : null;
+        if (!conv || !msgs) {
+          return res.status(404).json({ error: "Conversation not found" });
+        }
+        history = activePath(msgs, conv.activeLeafId).map((m) => ({
+          role: m.role,
+          content: m.content,
+        }));
+      }
+
+      const settings = await storage.getSettings(userId);
+      if (input.voiceMode && !(await ownsVoiceMode(input.voiceMode, userId))) {
+        return res.status(404).json({ error: "Voice mode not found" });
+      }
+      const mode = await loadVoiceMode(userId, input.voiceMode ?? settings?.voiceMode);
+      const allowMemoryReferences =
+        input.allowMemoryReferences ?? settings?.allowMemoryReferences === true;
+
+      const result = await simulateGates(
+        mode,
+        [...history, { role: "user", content: input.content }],
+        {
+          userId,
+          conversationId: input.conversationId,
+          allowMemoryReferences,
+          cooldowns: cooldownStore,
+          // a dry run: leave expired memories for the next real read to purge
+          loadMemories: () => storage.getMemories(userId, { purgeExpired: false }),
+          language: input.language ?? gateLanguage(settings?.language),
+          cooldownMs: cooldownDurations(settings),
+        },
+      );
+      res.json({ voiceMode: mode.id, allowMemoryReferences, ...result });
+    } catch (error) {
+      console.error("Gate simulation error:", error);
+      res.status(500).json({ error: "Failed to simulate gates" });
+    }
+  });
+
   // ============ BACKUPS ============
 
   app.get("/api/backups", requireAuth, async (req, res) => {
@@ -1088,6 +2244,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       const conversations = await storage.getConversations(userId);
       const memories = await storage.getMemories(userId);
       const settings = await storage.getSettings(userId);
+      const phraseRules = await storage.getPhraseRules(userId);
+      const customVoiceModes = await storage.getCustomVoiceModes(userId);
+      const messageFeedback = await storage.getMessageFeedback(userId);
 
       // Get messages for all conversations
       const conversationsWithMessages = await Promise.all(
@@ -1104,6 +2263,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         conversations: conversationsWithMessages,
         memories,
         settings,
+        phraseRules,
+        customVoiceModes,
+        messageFeedback,
       };
 
       const backup = await storage.createBackup({
@@ -1125,6 +2287,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       const conversations = await storage.getConversations(userId);
       const memories = await storage.getMemories(userId);
       const settings = await storage.getSettings(userId);
+      const phraseRules = await storage.getPhraseRules(userId);
+      const customVoiceModes = await storage.getCustomVoiceModes(userId);
+      const messageFeedback = await storage.getMessageFeedback(userId);
 
       const conversationsWithMessages = await Promise.all(
         conversations.map(async (conv) => ({
@@ -1140,6 +2305,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         conversations: conversationsWithMessages,
         memories,
         settings,
+        phraseRules,
+        customVoiceModes,
+        messageFeedback,
       };
 
       res.json(data);
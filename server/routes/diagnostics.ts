@@ -1,5 +1,10 @@
 import express from "express";
-import { getCooldownSnapshotForUser } from "../routes";
+import {
+  cooldownDurations,
+  createStoredCooldownStore,
+  getCooldownSnapshotForUser,
+} from "../gates";
+import { storage } from "../storage";
 import {
   __getDecisionLogPathForDebug,
   clearDecisionLog,
@@ -11,12 +16,13 @@ import {
 
 export function createDiagnosticsRouter() {
   const router = express.Router();
+  const cooldownStore = createStoredCooldownStore(storage);
 
   // Stage 4 — Diagnostics & Observability (read-only, system-only)
   // - No model calls
   // - No memory reads
   // - No UI influence
-  router.get("/diagnostics", (req, res) => {
+  router.get("/diagnostics", async (req, res) => {
     const nowIso = new Date().toISOString();
     const uptimeSec = Math.floor(process.uptime());
     const nodeEnv = process.env.NODE_ENV || "development";
@@ -30,7 +36,33 @@ export function createDiagnosticsRouter() {
     const lastDecision = sessionUserId ? getLastDecision(userKey) : globalLast?.decision || null;
     const recent = userKey !== "unknown" ? getRecentDecisions(userKey, 20) : [];
 
-    const cooldowns = userKey !== "unknown" ? getCooldownSnapshotForUser(userKey) : null;
+    let cooldowns = null;
+    if (userKey !== "unknown") {
+      try {
+        const settings = await storage.getSettings(userKey);
+        cooldowns = await getCooldownSnapshotForUser(
+          userKey,
+          cooldownStore,
+          Date.now(),
+          cooldownDurations(settings),
+        );
+      } catch (error) {
+        console.error("Failed to load cooldowns:", error);
+      }
+    }
+
+    // Token/cost totals over the last `days` days (default 30). Aggregates only: keys
+    // are days, version ids and conversation ids, never titles or content.
+    const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 365);
+    let usage = null;
+    if (sessionUserId) {
+      try {
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        usage = await storage.getUsageTotals(sessionUserId, since);
+      } catch (error) {
+        console.error("Failed to load usage totals:", error);
+      }
+    }
 
     res.json({
       ok: true,
@@ -68,12 +100,22 @@ export function createDiagnosticsRouter() {
         ? {
             ts: lastDecision.ts,
             route: lastDecision.route,
-            gate: lastDecision.stage ?? null,
+            gate: lastDecision.gateId ?? null,
+            stage: lastDecision.stage ?? null,
             reason: lastDecision.reason ?? null,
             llm: {
               called: (lastDecision.modelCallCount ?? 0) > 0,
               modelCallCount: lastDecision.modelCallCount ?? 0,
-              tokens: null,
+              tokens:
+                lastDecision.totalTokens !== undefined
+                  ? {
+                      prompt: lastDecision.promptTokens ?? 0,
+                      completion: lastDecision.completionTokens ?? 0,
+                      total: lastDecision.totalTokens,
+                      estimated: !!lastDecision.usageEstimated,
+                    }
+                  : null,
+              costUsd: lastDecision.costUsd ?? null,
             },
             memory: {
               allowMemoryReferences: !!lastDecision.allowMemoryReferences,
@@ -82,6 +124,9 @@ export function createDiagnosticsRouter() {
           }
         : null,
 
+      // Token usage and cost (per day / version / conversation)
+      usage: { days, totals: usage },
+
       // Gate decision log (Stage 4.1 requirement)
       gateDecisionLog: {
         storage: "local",
@@ -117,7 +162,9 @@ export function createDiagnosticsRouter() {
   // Diagnostics GET remains read-only; deletion is a separate endpoint.
   router.delete("/telemetry/decision-log", (req, res) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const sessionUserId = (req as any).session?.userId ? String((req as any).session.userId) : null;
+    const sessionUserId = (req as any).session?.userId
+      ? String((req as any).session.userId)
+      : null;
     if (!sessionUserId) {
       return res.status(401).json({ ok: false, error: "Not authenticated" });
     }
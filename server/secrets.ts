@@ -0,0 +1,83 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/**
+ * Encryption at rest for user secrets (provider API keys).
+ * AES-256-GCM under the server master key `NOVA_MASTER_KEY` (32 bytes, hex or base64).
+ * Each payload is bound to its owner via associated data, so a row copied to another
+ * user or provider fails to decrypt instead of leaking a key.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const PAYLOAD_VERSION = "v1";
+
+export class SecretStoreError extends Error {}
+
+function decodeMasterKey(raw: string): Buffer | null {
+  const value = raw.trim();
+  if (/^[0-9a-f]{64}$/i.test(value)) return Buffer.from(value, "hex");
+  const decoded = Buffer.from(value, "base64");
+  return decoded.length === 32 ? decoded : null;
+}
+
+function getMasterKey(): Buffer {
+  const raw = process.env.NOVA_MASTER_KEY;
+  if (!raw) {
+    throw new SecretStoreError("NOVA_MASTER_KEY is not set");
+  }
+  const key = decodeMasterKey(raw);
+  if (!key) {
+    throw new SecretStoreError(
+      "NOVA_MASTER_KEY must be 32 bytes (64 hex chars or base64)",
+    );
+  }
+  return key;
+}
+
+export function isSecretStoreConfigured(): boolean {
+  try {
+    getMasterKey();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Payload format: v1:<iv>:<auth tag>:<ciphertext>, all base64.
+export function encryptSecret(plaintext: string, context: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getMasterKey(), iv);
+  cipher.setAAD(Buffer.from(context, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [PAYLOAD_VERSION, iv, tag, ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+export function decryptSecret(payload: string, context: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  if (version !== PAYLOAD_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new SecretStoreError("Unrecognized secret payload");
+  }
+
+  try {
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      getMasterKey(),
+      Buffer.from(iv, "base64"),
+    );
+    decipher.setAAD(Buffer.from(context, "utf8"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch (error) {
+    if (error instanceof SecretStoreError) throw error;
+    throw new SecretStoreError("Secret could not be decrypted (wrong master key?)");
+  }
+}
+
+export function lastFour(secret: string): string {
+  return secret.trim().slice(-4);
+}
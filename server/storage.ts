@@ -7,6 +7,13 @@ import {
   userSettings,
   syncStatus,
   safetyBackups,
+  providerKeys,
+  phraseRules,
+  customVoiceModes,
+  messageFeedback,
+  gateCooldowns,
+  memoryReferences,
+  turnUsage,
   type User,
   type InsertUser,
   type NovaVersion,
@@ -23,9 +30,32 @@ import {
   type InsertSyncStatus,
   type SafetyBackup,
   type InsertSafetyBackup,
+  type ProviderKey,
+  type PhraseRule,
+  type InsertPhraseRule,
+  type CustomVoiceMode,
+  type InsertCustomVoiceMode,
+  type MessageFeedback,
+  type InsertMessageFeedback,
+  type FeedbackFilters,
+  type GateCooldown,
+  type GateCooldownKind,
+  type MemoryReference,
+  type InsertMemoryReference,
+  type MemoryReferenceStats,
+  type InsertTurnUsage,
+  type TurnUsage,
+  type UsageBucket,
+  type UsageTotals,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, gt, gte, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+
+// One user+conversation's gate cooldowns inside withGateCooldowns.
+export interface GateCooldownScope {
+  get(kind: GateCooldownKind): Promise<GateCooldown | undefined>;
+  set(kind: GateCooldownKind, lastAt: Date, lastSig: string | null): Promise<void>;
+}
 
 export interface IStorage {
   // Users
@@ -52,9 +82,10 @@ export interface IStorage {
   // Messages (P3: ownership via conversation)
   getMessages(conversationId: string, userId: string): Promise<Message[] | null>;
   createMessage(message: InsertMessage, userId: string): Promise<Message | null>;
+  updateMessage(id: string, conversationId: string, userId: string, updates: Partial<Message>): Promise<Message | null>;
 
   // Memories (P3: userId for ownership checks)
-  getMemories(userId: string): Promise<Memory[]>;
+  getMemories(userId: string, options?: { purgeExpired?: boolean }): Promise<Memory[]>;
   createMemory(memory: InsertMemory): Promise<Memory>;
   updateMemory(id: string, userId: string, updates: Partial<Memory>): Promise<Memory | undefined>;
   deleteMemory(id: string, userId: string): Promise<boolean>;
@@ -73,6 +104,52 @@ export interface IStorage {
   getBackups(userId: string): Promise<SafetyBackup[]>;
   createBackup(backup: InsertSafetyBackup): Promise<SafetyBackup>;
   deleteBackup(id: string, userId: string): Promise<boolean>;
+
+  // Provider API keys (ciphertext only; encryption lives in ./secrets)
+  getProviderKeys(userId: string): Promise<ProviderKey[]>;
+  getProviderKey(userId: string, provider: string): Promise<ProviderKey | undefined>;
+  upsertProviderKey(
+    userId: string,
+    provider: string,
+    encryptedKey: string,
+    last4: string,
+  ): Promise<ProviderKey>;
+  deleteProviderKey(userId: string, provider: string): Promise<boolean>;
+
+  // Sanitizer phrase entries (P3: userId for ownership checks)
+  getPhraseRules(userId: string): Promise<PhraseRule[]>;
+  createPhraseRule(rule: InsertPhraseRule): Promise<PhraseRule>;
+  updatePhraseRule(id: string, userId: string, updates: Partial<PhraseRule>): Promise<PhraseRule | undefined>;
+  deletePhraseRule(id: string, userId: string): Promise<boolean>;
+
+  // Custom voice modes (P3: userId for ownership checks)
+  getCustomVoiceModes(userId: string): Promise<CustomVoiceMode[]>;
+  getCustomVoiceMode(id: string, userId: string): Promise<CustomVoiceMode | undefined>;
+  createCustomVoiceMode(mode: InsertCustomVoiceMode): Promise<CustomVoiceMode>;
+  updateCustomVoiceMode(id: string, userId: string, updates: Partial<CustomVoiceMode>): Promise<CustomVoiceMode | undefined>;
+  deleteCustomVoiceMode(id: string, userId: string): Promise<boolean>;
+
+  // Response ratings (P3: userId for ownership checks)
+  getMessageFeedback(userId: string, filters?: FeedbackFilters): Promise<MessageFeedback[]>;
+  upsertMessageFeedback(feedback: InsertMessageFeedback): Promise<MessageFeedback>;
+  deleteMessageFeedback(messageId: string, userId: string): Promise<boolean>;
+
+  // Gate cooldowns (keyed by user and conversation)
+  getGateCooldowns(userId: string): Promise<GateCooldown[]>;
+  withGateCooldowns<T>(
+    userId: string,
+    conversationId: string,
+    fn: (scope: GateCooldownScope) => Promise<T>,
+  ): Promise<T>;
+
+  // Memory reference ledger (one row per memory a reply cited)
+  recordMemoryReferences(refs: InsertMemoryReference[]): Promise<MemoryReference[]>;
+  getMemoryReferences(userId: string, conversationId: string): Promise<MemoryReference[]>;
+  getMemoryReferenceStats(userId: string): Promise<MemoryReferenceStats[]>;
+
+  // Token usage (one row per model call)
+  recordTurnUsage(usage: InsertTurnUsage): Promise<TurnUsage>;
+  getUsageTotals(userId: string, since: Date): Promise<UsageTotals>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -201,12 +278,43 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  // Memories
-  async getMemories(userId: string): Promise<Memory[]> {
+  async updateMessage(
+    id: string,
+    conversationId: string,
+    userId: string,
+    updates: Partial<Message>,
+  ): Promise<Message | null> {
+    const conv = await this.getConversation(conversationId, userId);
+    if (!conv) return null;
+    const [updated] = await db
+      .update(messages)
+      .set(updates)
+      .where(and(eq(messages.id, id), eq(messages.conversationId, conversationId)))
+      .returning();
+    return updated || null;
+  }
+
+  // Memories. Expiry is lazy: expired rows are never returned, and are deleted here
+  // rather than by a background job. Read-only callers pass purgeExpired: false.
+  async getMemories(
+    userId: string,
+    { purgeExpired = true }: { purgeExpired?: boolean } = {},
+  ): Promise<Memory[]> {
+    const now = new Date();
+    if (purgeExpired) {
+      await db
+        .delete(memories)
+        .where(and(eq(memories.userId, userId), lte(memories.expiresAt, now)));
+    }
     return db
       .select()
       .from(memories)
-      .where(eq(memories.userId, userId))
+      .where(
+        and(
+          eq(memories.userId, userId),
+          or(isNull(memories.expiresAt), gt(memories.expiresAt, now)),
+        ),
+      )
       .orderBy(desc(memories.createdAt));
   }
 
@@ -305,6 +413,282 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return result.length > 0;
   }
+
+  // Provider API keys
+  async getProviderKeys(userId: string): Promise<ProviderKey[]> {
+    return db.select().from(providerKeys).where(eq(providerKeys.userId, userId));
+  }
+
+  async getProviderKey(userId: string, provider: string): Promise<ProviderKey | undefined> {
+    const [key] = await db
+      .select()
+      .from(providerKeys)
+      .where(and(eq(providerKeys.userId, userId), eq(providerKeys.provider, provider)));
+    return key || undefined;
+  }
+
+  async upsertProviderKey(
+    userId: string,
+    provider: string,
+    encryptedKey: string,
+    last4: string,
+  ): Promise<ProviderKey> {
+    const [saved] = await db
+      .insert(providerKeys)
+      .values({ userId, provider, encryptedKey, last4 })
+      .onConflictDoUpdate({
+        target: [providerKeys.userId, providerKeys.provider],
+        set: { encryptedKey, last4, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteProviderKey(userId: string, provider: string): Promise<boolean> {
+    const result = await db
+      .delete(providerKeys)
+      .where(and(eq(providerKeys.userId, userId), eq(providerKeys.provider, provider)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Sanitizer phrase entries
+  async getPhraseRules(userId: string): Promise<PhraseRule[]> {
+    return db
+      .select()
+      .from(phraseRules)
+      .where(eq(phraseRules.userId, userId))
+      .orderBy(phraseRules.createdAt);
+  }
+
+  async createPhraseRule(rule: InsertPhraseRule): Promise<PhraseRule> {
+    const [created] = await db.insert(phraseRules).values(rule).returning();
+    return created;
+  }
+
+  async updatePhraseRule(
+    id: string,
+    userId: string,
+    updates: Partial<PhraseRule>,
+  ): Promise<PhraseRule | undefined> {
+    const [updated] = await db
+      .update(phraseRules)
+      .set(updates)
+      .where(and(eq(phraseRules.id, id), eq(phraseRules.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deletePhraseRule(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(phraseRules)
+      .where(and(eq(phraseRules.id, id), eq(phraseRules.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Custom voice modes
+  async getCustomVoiceModes(userId: string): Promise<CustomVoiceMode[]> {
+    return db
+      .select()
+      .from(customVoiceModes)
+      .where(eq(customVoiceModes.userId, userId))
+      .orderBy(customVoiceModes.createdAt);
+  }
+
+  async getCustomVoiceMode(id: string, userId: string): Promise<CustomVoiceMode | undefined> {
+    const [mode] = await db
+      .select()
+      .from(customVoiceModes)
+      .where(and(eq(customVoiceModes.id, id), eq(customVoiceModes.userId, userId)));
+    return mode || undefined;
+  }
+
+  async createCustomVoiceMode(mode: InsertCustomVoiceMode): Promise<CustomVoiceMode> {
+    const [created] = await db.insert(customVoiceModes).values(mode).returning();
+    return created;
+  }
+
+  async updateCustomVoiceMode(
+    id: string,
+    userId: string,
+    updates: Partial<CustomVoiceMode>,
+  ): Promise<CustomVoiceMode | undefined> {
+    const [updated] = await db
+      .update(customVoiceModes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(customVoiceModes.id, id), eq(customVoiceModes.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCustomVoiceMode(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(customVoiceModes)
+      .where(and(eq(customVoiceModes.id, id), eq(customVoiceModes.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Response ratings
+  async getMessageFeedback(
+    userId: string,
+    filters: FeedbackFilters = {},
+  ): Promise<MessageFeedback[]> {
+    const conditions = [eq(messageFeedback.userId, userId)];
+    if (filters.versionId) conditions.push(eq(messageFeedback.versionId, filters.versionId));
+    if (filters.gate) conditions.push(eq(messageFeedback.gate, filters.gate));
+    if (filters.rating) conditions.push(eq(messageFeedback.rating, filters.rating));
+    if (filters.conversationId) {
+      conditions.push(eq(messageFeedback.conversationId, filters.conversationId));
+    }
+    return db
+      .select()
+      .from(messageFeedback)
+      .where(and(...conditions))
+      .orderBy(desc(messageFeedback.updatedAt));
+  }
+
+  // Rating a message again replaces its earlier rating.
+  async upsertMessageFeedback(feedback: InsertMessageFeedback): Promise<MessageFeedback> {
+    const [saved] = await db
+      .insert(messageFeedback)
+      .values(feedback)
+      .onConflictDoUpdate({
+        target: messageFeedback.messageId,
+        set: { ...feedback, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteMessageFeedback(messageId: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(messageFeedback)
+      .where(
+        and(eq(messageFeedback.messageId, messageId), eq(messageFeedback.userId, userId)),
+      )
+      .returning();
+    return result.length > 0;
+  }
+
+  // Gate cooldowns
+  async getGateCooldowns(userId: string): Promise<GateCooldown[]> {
+    return db
+      .select()
+      .from(gateCooldowns)
+      .where(eq(gateCooldowns.userId, userId))
+      .orderBy(desc(gateCooldowns.lastAt));
+  }
+
+  // Taken only to start a cooldown: re-check what the gates read, then write. The
+  // advisory lock serializes that step per conversation (across server processes
+  // too), so two turns can't both start the same cooldown.
+  async withGateCooldowns<T>(
+    userId: string,
+    conversationId: string,
+    fn: (scope: GateCooldownScope) => Promise<T>,
+  ): Promise<T> {
+    return db.transaction(async (tx) => {
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(hashtext(${`gate_cooldowns:${userId}:${conversationId}`}))`,
+      );
+      const row = (kind: GateCooldownKind) =>
+        and(
+          eq(gateCooldowns.userId, userId),
+          eq(gateCooldowns.conversationId, conversationId),
+          eq(gateCooldowns.kind, kind),
+        );
+      return fn({
+        async get(kind) {
+          const [found] = await tx.select().from(gateCooldowns).where(row(kind));
+          return found;
+        },
+        async set(kind, lastAt, lastSig) {
+          await tx
+            .insert(gateCooldowns)
+            .values({ userId, conversationId, kind, lastAt, lastSig })
+            .onConflictDoUpdate({
+              target: [gateCooldowns.userId, gateCooldowns.conversationId, gateCooldowns.kind],
+              set: { lastAt, lastSig },
+            });
+        },
+      });
+    });
+  }
+
+  // Memory reference ledger
+  async recordMemoryReferences(refs: InsertMemoryReference[]): Promise<MemoryReference[]> {
+    if (refs.length === 0) return [];
+    return db.insert(memoryReferences).values(refs).returning();
+  }
+
+  async getMemoryReferences(userId: string, conversationId: string): Promise<MemoryReference[]> {
+    return db
+      .select()
+      .from(memoryReferences)
+      .where(
+        and(
+          eq(memoryReferences.userId, userId),
+          eq(memoryReferences.conversationId, conversationId),
+        ),
+      )
+      .orderBy(memoryReferences.referencedAt);
+  }
+
+  async getMemoryReferenceStats(userId: string): Promise<MemoryReferenceStats[]> {
+    return db
+      .select({
+        memoryId: memoryReferences.memoryId,
+        count: sql<number>`count(*)::int`,
+        lastReferencedAt: sql<Date>`max(${memoryReferences.referencedAt})`.mapWith(
+          memoryReferences.referencedAt,
+        ),
+      })
+      .from(memoryReferences)
+      .where(eq(memoryReferences.userId, userId))
+      .groupBy(memoryReferences.memoryId);
+  }
+
+  // Token usage
+  async recordTurnUsage(usage: InsertTurnUsage): Promise<TurnUsage> {
+    const [created] = await db.insert(turnUsage).values(usage).returning();
+    return created;
+  }
+
+  async getUsageTotals(userId: string, since: Date): Promise<UsageTotals> {
+    const day = sql<string>`to_char(${turnUsage.createdAt}, 'YYYY-MM-DD')`;
+    const totalsBy = (key: SQL<string | null> | null) => {
+      const base = db
+        .select({
+          key: key ?? sql<string | null>`null`,
+          turns: sql<number>`count(*)::int`,
+          promptTokens: sql<number>`coalesce(sum(${turnUsage.promptTokens}), 0)::int`,
+          completionTokens: sql<number>`coalesce(sum(${turnUsage.completionTokens}), 0)::int`,
+          totalTokens: sql<number>`coalesce(sum(${turnUsage.totalTokens}), 0)::int`,
+          costUsd: sql<number>`coalesce(sum(${turnUsage.costUsd}), 0)::float8`,
+          estimatedTurns: sql<number>`count(*) filter (where ${turnUsage.estimated})::int`,
+          unpricedTurns: sql<number>`count(*) filter (where ${turnUsage.costUsd} is null)::int`,
+        })
+        .from(turnUsage)
+        .where(and(eq(turnUsage.userId, userId), gte(turnUsage.createdAt, since)));
+      return key ? base.groupBy(key).orderBy(key) : base;
+    };
+
+    const [[total], byDay, byVersion, byConversation] = await Promise.all([
+      totalsBy(null),
+      totalsBy(day),
+      totalsBy(sql<string | null>`${turnUsage.versionId}::text`),
+      totalsBy(sql<string | null>`${turnUsage.conversationId}::text`),
+    ]);
+    return {
+      since: since.toISOString(),
+      total: total as UsageBucket,
+      byDay: byDay as UsageBucket[],
+      byVersion: byVersion as UsageBucket[],
+      byConversation: byConversation as UsageBucket[],
+    };
+  }
 }
 
 export const storage = new DatabaseStorage();
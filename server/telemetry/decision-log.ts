@@ -16,17 +16,42 @@ export type DecisionRecord = {
   // Stage 4: which gate handled the response
   stage?: string;
   reason?: string;
+  gateId?: string; // id from GATE_PIPELINE; absent when the model answered
+  gateChain?: string[]; // gates that contributed, outermost first
 
   // execution facts (observability only)
+  status?: "ok" | "error" | "aborted";
+  errorType?: string; // ModelCallError type when status !== "ok"
+  upstreamStatus?: number;
   shortCircuited?: boolean;
   rewritten?: boolean;
+  sanitizedBy?: Array<{ id: string; list: string; source: string }>; // phrase entries stripped
   modelCallCount?: number;
   memoryReadCount?: number;
+  memoryIds?: string[]; // memories the reply cited; see the memory reference ledger
+
+  // context window: what history actually reached the model
+  messagesSent?: number;
+  messagesDropped?: number;
+  contextTokens?: number; // local estimate, system prompt included
+  contextBudget?: number;
+
+  // token usage for the turn's model call (absent when the gates answered locally)
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  usageEstimated?: boolean; // local estimate; the provider reported no usage
+  costUsd?: number; // from the price table; absent for unpriced models
 
   // policy-relevant metadata (no secrets)
   voiceMode?: string;
+  versionId?: string;
+  conversationId?: string;
   allowMemoryReferences?: boolean;
   model?: string;
+  modelSource?: "version" | "settings"; // who picked the model for this turn
+  provider?: string;
+  providerSource?: "version" | "settings";
   apiEndpoint?: string;
 };
 
@@ -67,8 +92,6 @@ export function recordDecision(userKey: string, record: RecordDecisionInput) {
   const iso = record.ts || record.at || new Date().toISOString();
 
   const entry: DecisionRecord = {
-    ts: iso,
-    at: iso,
     ...record,
     ts: iso,
     at: iso,
@@ -97,6 +120,15 @@ export function getLastDecision(userKey: string): DecisionRecord | null {
   return arr.length ? arr[arr.length - 1] : null;
 }
 
+// The turn that produced a message, while it is still in the user's ring buffer.
+export function findDecision(userKey: string, requestId: string): DecisionRecord | null {
+  const arr = store.get(userKey) ?? [];
+  for (let i = arr.length - 1; i >= 0; i--) {
+    if (arr[i].requestId === requestId) return arr[i];
+  }
+  return null;
+}
+
 export function getDecisionLogCount(userKey: string): number {
   return (store.get(userKey) ?? []).length;
 }
@@ -104,7 +136,7 @@ export function getDecisionLogCount(userKey: string): number {
 export function getLastDecisionGlobal(): { userKey: string; decision: DecisionRecord } | null {
   let best: { userKey: string; decision: DecisionRecord } | null = null;
 
-  for (const [userKey, arr] of store.entries()) {
+  for (const [userKey, arr] of Array.from(store.entries())) {
     const d = arr[arr.length - 1];
     if (!d) continue;
 
@@ -0,0 +1,171 @@
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Message } from "@shared/schema";
+import { activePath, latestLeaf, legacyLinks } from "../message-tree";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+function msg(id: string, parentMessageId: string | null, at: number): Message {
+  return {
+    id,
+    conversationId: "c1",
+    role: "user",
+    content: id,
+    parentMessageId,
+    requestId: null,
+    alternates: [],
+    alternateIndex: 0,
+    timestamp: new Date(at),
+  };
+}
+
+describe("message tree", () => {
+  // a1 ─ b1 ─ c1
+  //    └ b2 ─ c2 (newer)
+  const tree = [
+    msg("a1", null, 1),
+    msg("b1", "a1", 2),
+    msg("c1", "b1", 3),
+    msg("b2", "a1", 4),
+    msg("c2", "b2", 5),
+  ];
+
+  it("walks a leaf back to the root", () => {
+    expect(activePath(tree, "c1").map((m) => m.id)).toEqual(["a1", "b1", "c1"]);
+    expect(activePath(tree, null)).toBe(tree);
+  });
+
+  it("follows the newest child when switching branches", () => {
+    expect(latestLeaf(tree, "a1")).toBe("c2");
+    expect(latestLeaf(tree, "b1")).toBe("c1");
+  });
+
+  it("links a pre-branching thread in order", () => {
+    const legacy = [msg("x", null, 1), msg("y", null, 2), msg("z", null, 3)];
+    expect(legacyLinks(legacy)).toEqual([
+      { id: "y", parentMessageId: "x" },
+      { id: "z", parentMessageId: "y" },
+    ]);
+  });
+});
+
+let testApp: TestApp;
+let app: Express;
+let storage: MemoryStorage;
+let getLastDecision: typeof import("../telemetry/decision-log").getLastDecision;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  ({ app, storage } = testApp);
+  ({ getLastDecision } = await import("../telemetry/decision-log"));
+});
+
+afterAll(() => testApp.close());
+
+const contents = (res: request.Response) =>
+  res.body.messages.map((m: { content: string }) => m.content);
+
+describe("edit a past user message", () => {
+  it("forks a branch, sends only that branch, and can switch back", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const url = `/api/conversations/${conversationId}`;
+
+    await request(app)
+      .post(`${url}/turn`)
+      .send({ content: "I went hiking this morning." });
+    const second = await request(app)
+      .post(`${url}/turn`)
+      .send({ content: "The trail was muddy after the rain." });
+    const original = second.body.userMessage;
+
+    const edited = await request(app)
+      .post(`${url}/messages/${original.id}/edit`)
+      .send({ content: "The trail was dry and dusty." });
+    expect(edited.status).toBe(200);
+    expect(edited.body.userMessage.parentMessageId).toBe(original.parentMessageId);
+    // user, reply, edited user message: the original never reaches the model
+    expect(getLastDecision(userId)?.messagesSent).toBe(3);
+
+    const view = await request(app).get(url);
+    expect(contents(view)).toEqual([
+      "I went hiking this morning.",
+      expect.any(String),
+      "The trail was dry and dusty.",
+      edited.body.assistantMessage.content,
+    ]);
+    expect(view.body.messages[2].siblingIds).toEqual([
+      original.id,
+      edited.body.userMessage.id,
+    ]);
+
+    const back = await request(app)
+      .patch(`${url}/branch`)
+      .send({ messageId: original.id });
+    expect(back.status).toBe(200);
+    expect(contents(back)).toEqual([
+      "I went hiking this morning.",
+      expect.any(String),
+      "The trail was muddy after the rain.",
+      second.body.assistantMessage.content,
+    ]);
+  });
+
+  it("links a conversation from before branching on its first new turn", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    for (const [role, content] of [
+      ["user", "old question"],
+      ["assistant", "old answer"],
+    ] as const) {
+      await storage.createMessage({ conversationId, role, content }, userId);
+    }
+
+    await request(app)
+      .post(`/api/conversations/${conversationId}/turn`)
+      .send({ content: "Picking this back up after a week away from it." });
+
+    const view = await request(app).get(`/api/conversations/${conversationId}`);
+    expect(contents(view).slice(0, 3)).toEqual([
+      "old question",
+      "old answer",
+      "Picking this back up after a week away from it.",
+    ]);
+    expect(getLastDecision(userId)?.messagesSent).toBe(3);
+  });
+
+  it("only edits user messages", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const turn = await request(app)
+      .post(`/api/conversations/${conversationId}/turn`)
+      .send({ content: "Something substantive enough to reach the model." });
+    const res = await request(app)
+      .post(
+        `/api/conversations/${conversationId}/messages/${turn.body.assistantMessage.id}/edit`,
+      )
+      .send({ content: "nope" });
+    expect(res.status).toBe(409);
+  });
+
+  it("renames through PATCH but never moves the active branch there", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const moved = await request(app)
+      .patch(`/api/conversations/${conversationId}`)
+      .send({ title: "Renamed", activeLeafId: "another-conversations-message" });
+    expect(moved.status).toBe(400);
+
+    const renamed = await request(app)
+      .patch(`/api/conversations/${conversationId}`)
+      .send({ title: "Renamed" });
+    expect(renamed.body.title).toBe("Renamed");
+    expect(renamed.body.activeLeafId).not.toBe("another-conversations-message");
+  });
+});
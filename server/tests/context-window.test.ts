@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  contextTokensForModel,
+  estimateTokens,
+  fitContextWindow,
+  inputBudgetForModel,
+} from "../context-window";
+
+const turn = (role: "user" | "assistant", n: number) => ({
+  role,
+  content: `${role} message ${n} `.repeat(10).trim(),
+});
+
+function conversation(pairs: number) {
+  const out = [];
+  for (let i = 1; i <= pairs; i++) out.push(turn("user", i), turn("assistant", i));
+  return out;
+}
+
+describe("context window: token budget per model", () => {
+  it("sends everything when the conversation fits", () => {
+    const messages = conversation(3);
+    const ctx = fitContextWindow({
+      systemPrompt: "You are Nova.",
+      messages,
+      budget: 4000,
+    });
+    expect(ctx.messages).toEqual(messages);
+    expect(ctx).toMatchObject({ sent: 6, dropped: 0, systemPrompt: "You are Nova." });
+  });
+
+  it("keeps an opening assistant greeting when nothing was trimmed", () => {
+    const messages = [
+      { role: "assistant", content: "Welcome back." },
+      { role: "user", content: "hi there friend" },
+    ];
+    const ctx = fitContextWindow({
+      systemPrompt: "You are Nova.",
+      messages,
+      budget: 8000,
+    });
+    expect(ctx.messages).toEqual(messages);
+    expect(ctx).toMatchObject({ dropped: 0, systemPrompt: "You are Nova." });
+  });
+
+  it("keeps the newest turns, drops the oldest and says so in the system prompt", () => {
+    const messages = [...conversation(40), turn("user", 41)];
+    const ctx = fitContextWindow({
+      systemPrompt: "You are Nova.",
+      messages,
+      budget: 600,
+    });
+
+    expect(ctx.dropped).toBeGreaterThan(0);
+    expect(ctx.sent + ctx.dropped).toBe(messages.length);
+    expect(ctx.messages).toEqual(messages.slice(ctx.dropped));
+    expect(ctx.messages[0].role).toBe("user");
+    expect(ctx.estimatedTokens).toBeLessThanOrEqual(600);
+    expect(ctx.systemPrompt).toContain(
+      `(${ctx.dropped} earlier messages omitted to fit the context window.)`,
+    );
+
+    // Deterministic: same input, same cut.
+    expect(
+      fitContextWindow({ systemPrompt: "You are Nova.", messages, budget: 600 }),
+    ).toEqual(ctx);
+  });
+
+  it("always keeps the latest message even if it alone exceeds the budget", () => {
+    const huge = { role: "user", content: "word ".repeat(2000) };
+    const ctx = fitContextWindow({
+      systemPrompt: "You are Nova.",
+      messages: [turn("user", 1), turn("assistant", 1), huge],
+      budget: 100,
+    });
+    expect(ctx.messages).toEqual([huge]);
+    expect(ctx.dropped).toBe(2);
+  });
+
+  it("derives budgets from the model table with a cost cap", () => {
+    expect(contextTokensForModel("gpt-4")).toBe(8192);
+    expect(contextTokensForModel("gpt-4-turbo-preview")).toBe(128000);
+    expect(contextTokensForModel("claude-3-5-sonnet-latest")).toBe(200000);
+    expect(inputBudgetForModel("gpt-4")).toBe(8192 - 220);
+    expect(inputBudgetForModel("claude-3-opus-latest")).toBe(8000);
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("a b c d e")).toBe(5);
+  });
+});
@@ -0,0 +1,95 @@
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+// Response ratings: saved against the message with the turn's decision context.
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+let testApp: TestApp;
+let app: Express;
+let storage: MemoryStorage;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  ({ app, storage } = testApp);
+});
+
+afterAll(() => testApp.close());
+
+describe("response feedback", () => {
+  it("links each rating to its decision record and filters by gate and version", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const url = `/api/conversations/${conversationId}`;
+    const greeting = await request(app).post(`${url}/turn`).send({ content: "hey" });
+    const answered = await request(app)
+      .post(`${url}/turn`)
+      .send({ content: "I finally finished the bookshelf I was building." });
+    const versionId = (await storage.getConversation(conversationId, userId))!.versionId;
+
+    const down = await request(app)
+      .put(`${url}/messages/${greeting.body.assistantMessage.id}/feedback`)
+      .send({ rating: "down", note: "  too curt  " });
+    expect(down.status).toBe(200);
+    expect(down.body).toMatchObject({
+      rating: "down",
+      note: "too curt",
+      gate: "greeting",
+      voiceMode: "quiet",
+      versionId,
+      requestId: greeting.body.assistantMessage.requestId,
+      content: greeting.body.assistantMessage.content,
+    });
+
+    await request(app)
+      .put(`${url}/messages/${answered.body.assistantMessage.id}/feedback`)
+      .send({ rating: "up" });
+
+    const byGate = await request(app).get("/api/feedback").query({ gate: "model" });
+    expect(byGate.body).toHaveLength(1);
+    expect(byGate.body[0]).toMatchObject({ rating: "up", note: null, model: "gpt-4" });
+
+    const byVersion = await request(app).get("/api/feedback").query({ versionId });
+    expect(byVersion.body).toHaveLength(2);
+  });
+
+  it("replaces a rating and can clear it", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const url = `/api/conversations/${conversationId}`;
+    const turn = await request(app).post(`${url}/turn`).send({ content: "hey" });
+    const feedbackUrl = `${url}/messages/${turn.body.assistantMessage.id}/feedback`;
+
+    await request(app).put(feedbackUrl).send({ rating: "down" });
+    await request(app).put(feedbackUrl).send({ rating: "up", note: "fine actually" });
+    const list = await request(app).get("/api/feedback");
+    expect(list.body).toHaveLength(1);
+    expect(list.body[0]).toMatchObject({ rating: "up", note: "fine actually" });
+
+    expect((await request(app).delete(feedbackUrl)).status).toBe(200);
+    expect((await request(app).get("/api/feedback")).body).toEqual([]);
+  });
+
+  it("rates only Nova's replies", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const url = `/api/conversations/${conversationId}`;
+    const turn = await request(app).post(`${url}/turn`).send({ content: "hey" });
+
+    const userRated = await request(app)
+      .put(`${url}/messages/${turn.body.userMessage.id}/feedback`)
+      .send({ rating: "up" });
+    expect(userRated.status).toBe(409);
+
+    const badRating = await request(app)
+      .put(`${url}/messages/${turn.body.assistantMessage.id}/feedback`)
+      .send({ rating: "meh" });
+    expect(badRating.status).toBe(400);
+  });
+});
@@ -0,0 +1,395 @@
+import { randomUUID } from "crypto";
+import type {
+  Conversation,
+  CustomVoiceMode,
+  GateCooldown,
+  InsertCustomVoiceMode,
+  InsertMessage,
+  InsertMessageFeedback,
+  InsertTurnUsage,
+  Memory,
+  MemoryReference,
+  Message,
+  MessageFeedback,
+  NovaVersion,
+  SyncStatus,
+  TurnUsage,
+  UserSettings,
+} from "@shared/schema";
+import type { IStorage } from "../../storage";
+
+/**
+ * In-memory stand-in for the storage methods a chat turn touches, so route-level
+ * tests run without Postgres. Ownership rules match DatabaseStorage: rows of
+ * another user read as missing.
+ */
+type ChatTurnStorage = Pick<
+  IStorage,
+  | "getVersions"
+  | "getVersion"
+  | "getConversation"
+  | "updateConversation"
+  | "getMessages"
+  | "createMessage"
+  | "updateMessage"
+  | "getMemories"
+  | "createMemory"
+  | "updateMemory"
+  | "getSettings"
+  | "getSyncStatus"
+  | "updateSyncStatus"
+  | "getProviderKey"
+  | "getPhraseRules"
+  | "getCustomVoiceMode"
+  | "getMessageFeedback"
+  | "upsertMessageFeedback"
+  | "deleteMessageFeedback"
+  | "getGateCooldowns"
+  | "withGateCooldowns"
+  | "recordMemoryReferences"
+  | "getMemoryReferences"
+  | "getMemoryReferenceStats"
+  | "recordTurnUsage"
+>;
+
+export interface MemoryStorage extends ChatTurnStorage {
+  // customVoiceMode is created for the user and selected in their settings
+  seedUser(opts?: {
+    settings?: Partial<UserSettings>;
+    memories?: Array<string | Partial<Memory>>;
+    customVoiceMode?: Omit<InsertCustomVoiceMode, "userId">;
+  }): {
+    userId: string;
+    conversationId: string;
+  };
+}
+
+export function isMemoryStorage(storage: object): storage is MemoryStorage {
+  return "seedUser" in storage;
+}
+
+export function createMemoryStorage(): MemoryStorage {
+  const versions: NovaVersion[] = [];
+  const conversations: Conversation[] = [];
+  const messages: Message[] = [];
+  const memories: Memory[] = [];
+  const settings: UserSettings[] = [];
+  const voiceModes: CustomVoiceMode[] = [];
+  const feedback: MessageFeedback[] = [];
+  const cooldowns: GateCooldown[] = [];
+  const references: MemoryReference[] = [];
+  // withGateCooldowns holds a per-scope lock, like the advisory lock in Postgres
+  const cooldownLocks = new Map<string, Promise<unknown>>();
+
+  const owns = (conversationId: string, userId: string) =>
+    conversations.some((c) => c.id === conversationId && c.userId === userId);
+
+  return {
+    seedUser(opts = {}) {
+      const userId = randomUUID();
+      const now = new Date();
+      const version: NovaVersion = {
+        id: randomUUID(),
+        userId,
+        name: "Nova v1",
+        description: "",
+        systemPrompt: "You are Nova.",
+        rules: [],
+        toneTraits: {},
+        modules: [],
+        parentVersionId: null,
+        provider: null,
+        modelName: null,
+        maxTokens: null,
+        temperature: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const conversation: Conversation = {
+        id: randomUUID(),
+        userId,
+        versionId: version.id,
+        title: "New Conversation",
+        activeLeafId: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      versions.push(version);
+      conversations.push(conversation);
+      settings.push({
+        id: randomUUID(),
+        userId,
+        provider: "openai",
+        apiEndpoint: "https://api.openai.com/v1",
+        modelName: "gpt-4",
+        voiceMode: "quiet",
+        allowMemoryReferences: false,
+        language: "auto",
+        reflectionCooldownSec: 45,
+        continuityCooldownSec: 600,
+        boundaries: [],
+        disabledDefaultPhrases: [],
+        currentMood: { emotion: "calm", intensity: 60, lastReflection: "" },
+        updatedAt: now,
+        ...opts.settings,
+      });
+      if (opts.customVoiceMode) {
+        const mode: CustomVoiceMode = {
+          id: randomUUID(),
+          userId,
+          maxSentences: 2,
+          allowQuestionsOnGreeting: false,
+          warmthBias: 50,
+          greetingResponses: [],
+          instructions: "",
+          createdAt: now,
+          updatedAt: now,
+          ...opts.customVoiceMode,
+        };
+        voiceModes.push(mode);
+        settings[settings.length - 1].voiceMode = mode.id;
+      }
+      for (const memory of opts.memories ?? []) {
+        memories.push({
+          id: randomUUID(),
+          userId,
+          content: "",
+          tags: [],
+          importance: "medium",
+          type: "fact",
+          expiresAt: null,
+          reviewAfter: null,
+          sourceConversationId: null,
+          sourceMessageId: null,
+          sourceSnapshot: null,
+          createdAt: now,
+          ...(typeof memory === "string" ? { content: memory } : memory),
+        });
+      }
+      return { userId, conversationId: conversation.id };
+    },
+
+    async getVersions(userId) {
+      return versions.filter((v) => v.userId === userId);
+    },
+    async getVersion(id, userId) {
+      return versions.find((v) => v.id === id && v.userId === userId);
+    },
+    async getConversation(id, userId) {
+      return conversations.find((c) => c.id === id && c.userId === userId);
+    },
+    async updateConversation(id, userId, updates) {
+      const conv = conversations.find((c) => c.id === id && c.userId === userId);
+      if (!conv) return undefined;
+      Object.assign(conv, updates, { updatedAt: new Date() });
+      return conv;
+    },
+    async getMessages(conversationId, userId) {
+      if (!owns(conversationId, userId)) return null;
+      return messages.filter((m) => m.conversationId === conversationId);
+    },
+    async createMessage(message: InsertMessage, userId) {
+      if (!owns(message.conversationId, userId)) return null;
+      const row: Message = {
+        id: randomUUID(),
+        timestamp: new Date(),
+        parentMessageId: null,
+        requestId: null,
+        alternates: [],
+        alternateIndex: 0,
+        ...message,
+      };
+      messages.push(row);
+      return row;
+    },
+    async updateMessage(id, conversationId, userId, updates) {
+      if (!owns(conversationId, userId)) return null;
+      const row = messages.find(
+        (m) => m.id === id && m.conversationId === conversationId,
+      );
+      if (!row) return null;
+      return Object.assign(row, updates);
+    },
+    async getMemories(userId, { purgeExpired = true } = {}) {
+      const now = new Date();
+      const expired = (m: Memory) => !!m.expiresAt && m.expiresAt <= now;
+      if (purgeExpired) {
+        const purged = memories.filter((m) => m.userId === userId && expired(m));
+        for (const m of purged) memories.splice(memories.indexOf(m), 1);
+        // the ledger's rows go with their memory, as the foreign key cascades
+        for (let i = references.length - 1; i >= 0; i--) {
+          if (purged.some((m) => m.id === references[i].memoryId))
+            references.splice(i, 1);
+        }
+      }
+      return memories.filter((m) => m.userId === userId && !expired(m));
+    },
+    async createMemory(memory) {
+      const created: Memory = {
+        id: randomUUID(),
+        tags: [],
+        importance: "medium",
+        type: "fact",
+        expiresAt: null,
+        reviewAfter: null,
+        sourceConversationId: null,
+        sourceMessageId: null,
+        sourceSnapshot: null,
+        createdAt: new Date(),
+        ...memory,
+      };
+      memories.push(created);
+      return created;
+    },
+    async updateMemory(id, userId, updates) {
+      const row = memories.find((m) => m.id === id && m.userId === userId);
+      return row ? Object.assign(row, updates) : undefined;
+    },
+    async getSettings(userId) {
+      return settings.find((s) => s.userId === userId);
+    },
+    async getSyncStatus(_userId): Promise<SyncStatus | undefined> {
+      return undefined;
+    },
+    async updateSyncStatus(userId, updates) {
+      return {
+        id: randomUUID(),
+        userId,
+        lastSyncTime: new Date(),
+        schemaVersion: 1,
+        lastError: null,
+        syncCount: 0,
+        ...updates,
+      };
+    },
+    async getProviderKey() {
+      return undefined;
+    },
+    async getPhraseRules() {
+      return [];
+    },
+    async getCustomVoiceMode(id, userId) {
+      return voiceModes.find((m) => m.id === id && m.userId === userId);
+    },
+    async getMessageFeedback(userId, filters = {}) {
+      return feedback.filter(
+        (f) =>
+          f.userId === userId &&
+          (!filters.versionId || f.versionId === filters.versionId) &&
+          (!filters.gate || f.gate === filters.gate) &&
+          (!filters.rating || f.rating === filters.rating) &&
+          (!filters.conversationId || f.conversationId === filters.conversationId),
+      );
+    },
+    async upsertMessageFeedback(data: InsertMessageFeedback) {
+      const existing = feedback.find((f) => f.messageId === data.messageId);
+      if (existing) return Object.assign(existing, data, { updatedAt: new Date() });
+      const row: MessageFeedback = {
+        id: randomUUID(),
+        requestId: null,
+        note: null,
+        gate: null,
+        voiceMode: null,
+        versionId: null,
+        model: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...data,
+      };
+      feedback.push(row);
+      return row;
+    },
+    async deleteMessageFeedback(messageId, userId) {
+      const index = feedback.findIndex(
+        (f) => f.messageId === messageId && f.userId === userId,
+      );
+      if (index < 0) return false;
+      feedback.splice(index, 1);
+      return true;
+    },
+    async getGateCooldowns(userId) {
+      return cooldowns.filter((c) => c.userId === userId);
+    },
+    async withGateCooldowns(userId, conversationId, fn) {
+      const key = `${userId}:${conversationId}`;
+      const find = (kind: GateCooldown["kind"]) =>
+        cooldowns.find(
+          (c) =>
+            c.userId === userId && c.conversationId === conversationId && c.kind === kind,
+        );
+      const run = (cooldownLocks.get(key) ?? Promise.resolve()).then(() =>
+        fn({
+          async get(kind) {
+            return find(kind);
+          },
+          async set(kind, lastAt, lastSig) {
+            const row = find(kind);
+            if (row) Object.assign(row, { lastAt, lastSig });
+            else {
+              cooldowns.push({
+                id: randomUUID(),
+                userId,
+                conversationId,
+                kind,
+                lastAt,
+                lastSig,
+              });
+            }
+          },
+        }),
+      );
+      cooldownLocks.set(
+        key,
+        run.catch(() => {}),
+      );
+      return run;
+    },
+    async recordMemoryReferences(refs) {
+      const rows = refs.map((ref) => ({
+        id: randomUUID(),
+        referencedAt: new Date(),
+        ...ref,
+      }));
+      references.push(...rows);
+      return rows;
+    },
+    async getMemoryReferences(userId, conversationId) {
+      return references.filter(
+        (r) => r.userId === userId && r.conversationId === conversationId,
+      );
+    },
+    async getMemoryReferenceStats(userId) {
+      const stats = new Map<
+        string,
+        { memoryId: string; count: number; lastReferencedAt: Date }
+      >();
+      for (const ref of references.filter((r) => r.userId === userId)) {
+        const entry = stats.get(ref.memoryId);
+        if (!entry) {
+          stats.set(ref.memoryId, {
+            memoryId: ref.memoryId,
+            count: 1,
+            lastReferencedAt: ref.referencedAt,
+          });
+        } else {
+          entry.count += 1;
+          if (ref.referencedAt > entry.lastReferencedAt) {
+            entry.lastReferencedAt = ref.referencedAt;
+          }
+        }
+      }
+      return Array.from(stats.values());
+    },
+    async recordTurnUsage(usage: InsertTurnUsage): Promise<TurnUsage> {
+      return {
+        id: randomUUID(),
+        conversationId: null,
+        versionId: null,
+        estimated: false,
+        costUsd: null,
+        createdAt: new Date(),
+        ...usage,
+      };
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import express, { type Express, type Request } from "express";
+import { createServer, type Server } from "http";
+import { isMemoryStorage, type MemoryStorage } from "./memory-storage";
+
+export interface TestApp {
+  app: Express;
+  httpServer: Server;
+  storage: MemoryStorage;
+  setMockUser(userId: string): void;
+  close(): Promise<void>;
+}
+
+/**
+ * The real routes signed in as whoever setMockUser names, with the decision log in a
+ * temp dir. The calling test file mocks "../storage" with createMemoryStorage (vi.mock
+ * is hoisted per file, so it cannot live here).
+ */
+export async function createTestApp(): Promise<TestApp> {
+  const logDir = fs.mkdtempSync(path.join(os.tmpdir(), "nova-test-"));
+  process.env.NOVA_LOG_DIR = logDir;
+
+  let mockUserId = "";
+  const app = express();
+  app.use(express.json());
+  // express-session leaves a session that is already set alone.
+  app.use((req, _res, next) => {
+    req.session = { userId: mockUserId } as Request["session"];
+    next();
+  });
+
+  const httpServer = createServer(app);
+  const { registerRoutes } = await import("../../routes");
+  await registerRoutes(httpServer, app);
+
+  const { storage } = await import("../../storage");
+  if (!isMemoryStorage(storage)) {
+    throw new Error('createTestApp needs vi.mock("../storage") with createMemoryStorage');
+  }
+
+  return {
+    app,
+    httpServer,
+    storage,
+    setMockUser: (userId) => {
+      mockUserId = userId;
+    },
+    close: async () => {
+      if (httpServer.listening) {
+        await new Promise((resolve) => httpServer.close(resolve));
+      }
+      fs.rmSync(logDir, { recursive: true, force: true });
+    },
+  };
+}
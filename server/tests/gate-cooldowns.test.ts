@@ -0,0 +1,215 @@
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  applyCooldownWrites,
+  createStoredCooldownStore,
+  getCooldownSnapshotForUser,
+  runGatePipeline,
+  type GateSession,
+} from "../gates";
+import { generateResponse } from "../voice-engine";
+import { createMemoryStorage, type MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+// Cooldowns kept by storage: they outlive the process that started them and each
+// user can set their own durations.
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+const TIRED = [{ role: "user", content: "so tired tonight honestly" }];
+
+describe("stored cooldowns", () => {
+  const backend = createMemoryStorage();
+  const { userId, conversationId } = backend.seedUser();
+  let t = 1_000_000;
+
+  const session = (overrides: Partial<GateSession> = {}): GateSession => ({
+    userId,
+    conversationId,
+    allowMemoryReferences: false,
+    cooldowns: createStoredCooldownStore(backend),
+    loadMemories: async () => [],
+    now: () => t,
+    random: () => 0,
+    ...overrides,
+  });
+
+  async function reflect(s: GateSession, content = TIRED) {
+    const { outcome } = await runGatePipeline("quiet", content, s);
+    if (outcome) await applyCooldownWrites(s.cooldowns, outcome.cooldownWrites);
+    return outcome?.gateId ?? null;
+  }
+
+  it("survives a restart", async () => {
+    expect(await reflect(session())).toBe("reflection");
+    t += 10_000;
+    // A new store over the same rows, as after a restart or on another process
+    const other = [{ role: "user", content: "still so tired, really" }];
+    expect(await reflect(session(), other)).toBeNull();
+
+    const snapshot = await getCooldownSnapshotForUser(
+      userId,
+      createStoredCooldownStore(backend),
+      t,
+    );
+    expect(snapshot.summary.reflection).toMatchObject({
+      convoId: conversationId,
+      remainingMs: 35_000,
+      active: true,
+    });
+  });
+
+  it("uses the user's own durations", async () => {
+    t += 60_000;
+    const short = { reflection: 5_000, continuity: 60_000 };
+    expect(
+      await reflect(session({ cooldownMs: short }), [
+        { role: "user", content: "drained after work today" },
+      ]),
+    ).toBe("reflection");
+    t += 6_000;
+    expect(
+      await reflect(session({ cooldownMs: short }), [
+        { role: "user", content: "exhausted again, sorry" },
+      ]),
+    ).toBe("reflection");
+
+    const snapshot = await getCooldownSnapshotForUser(
+      userId,
+      createStoredCooldownStore(backend),
+      t + 1_000,
+      short,
+    );
+    expect(snapshot.summary.reflection.remainingMs).toBe(4_000);
+  });
+
+  it("keeps a transaction to its own conversation", async () => {
+    const store = createStoredCooldownStore(backend);
+    await expect(
+      store.transaction(`${userId}:${conversationId}`, (tx) =>
+        tx.get("reflection", `${userId}:other`),
+      ),
+    ).rejects.toThrow(/cannot use/);
+  });
+});
+
+describe("cooldown locking", () => {
+  // A backend that notes when its lock is held and what ran under it.
+  function lockedBackend() {
+    const base = createMemoryStorage();
+    const seeded = base.seedUser();
+    let locked = false;
+    const withGateCooldowns = vi.fn<typeof base.withGateCooldowns>(
+      (userId, convoId, fn) =>
+        base.withGateCooldowns(userId, convoId, async (scope) => {
+          locked = true;
+          try {
+            return await fn(scope);
+          } finally {
+            locked = false;
+          }
+        }),
+    );
+    const memoryLoads: boolean[] = []; // whether the lock was held at each load
+    const gates: GateSession = {
+      ...seeded,
+      allowMemoryReferences: true,
+      cooldowns: createStoredCooldownStore({ ...base, withGateCooldowns }),
+      loadMemories: async () => {
+        memoryLoads.push(locked);
+        return [{ id: "m1", content: "I've been stressed at work lately" }];
+      },
+      random: () => 0,
+    };
+    return { base, seeded, withGateCooldowns, memoryLoads, gates };
+  }
+
+  const turn = (gates: GateSession, content: string) =>
+    generateResponse({
+      mode: "quiet",
+      systemPrompt: "",
+      messages: [{ role: "user", content }],
+      callModel: async () => "From the model.",
+      gates,
+    });
+
+  it("locks only to start a cooldown, and never while loading memories", async () => {
+    const { withGateCooldowns, memoryLoads, gates } = lockedBackend();
+
+    const plain = await turn(gates, "what should I cook with rice and beans tonight");
+    expect(plain.shortCircuited).toBe(false);
+    expect(withGateCooldowns).not.toHaveBeenCalled();
+
+    const reflected = await turn(gates, "I'm stressed today");
+    expect(reflected.gateChain).toEqual(["continuity", "reflection"]);
+    expect(withGateCooldowns).toHaveBeenCalledTimes(1);
+    expect(memoryLoads).toEqual([false]);
+  });
+
+  it("runs the gates again when another turn started the cooldown first", async () => {
+    const { base, seeded, memoryLoads, gates } = lockedBackend();
+    // Another turn reflects between this turn's read and its write.
+    const cooldowns = createStoredCooldownStore({
+      ...base,
+      getGateCooldowns: async (userId) => {
+        const rows = await base.getGateCooldowns(userId);
+        if (rows.length === 0) {
+          await base.withGateCooldowns(userId, seeded.conversationId, (scope) =>
+            scope.set("reflection", new Date(), "other turn"),
+          );
+        }
+        return rows;
+      },
+    });
+
+    const out = await turn({ ...gates, cooldowns }, "I'm stressed today");
+    expect(out).toMatchObject({ shortCircuited: false, response: "From the model." });
+    expect(await base.getGateCooldowns(seeded.userId)).toEqual([
+      expect.objectContaining({ kind: "reflection", lastSig: "other turn" }),
+    ]);
+    expect(memoryLoads).toHaveLength(1);
+  });
+});
+
+let testApp: TestApp;
+let app: Express;
+let storage: MemoryStorage;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  ({ app, storage } = testApp);
+});
+
+afterAll(() => testApp.close());
+
+describe("cooldowns on chat turns", () => {
+  it("lets only one of two simultaneous turns reflect", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const send = (content: string) =>
+      request(app).post(`/api/conversations/${conversationId}/turn`).send({ content });
+    const turns = await Promise.all([
+      send("so tired tonight honestly"),
+      send("completely exhausted this evening"),
+    ]);
+
+    const replies = turns.map((r) => r.body.assistantMessage.content);
+    const reflected = replies.filter((text) => text.includes("running on low"));
+    expect(reflected).toHaveLength(1);
+    expect(await storage.getGateCooldowns(userId)).toEqual([
+      expect.objectContaining({ conversationId, kind: "reflection" }),
+    ]);
+  });
+
+  it("rejects cooldowns out of range", async () => {
+    testApp.setMockUser(storage.seedUser().userId);
+    const res = await request(app)
+      .patch("/api/settings")
+      .send({ reflectionCooldownSec: -5 });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,175 @@
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  GATE_LEXICONS,
+  createMemoryCooldownStore,
+  guessLocale,
+  runGatePipeline,
+  type GateSession,
+} from "../gates";
+import { customVoiceModeProfile } from "../voice-modes";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+// Presence gates in the user's language: a setting, or a local guess per message.
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+function session(overrides: Partial<GateSession> = {}): GateSession {
+  return {
+    userId: "u1",
+    conversationId: "c1",
+    allowMemoryReferences: false,
+    cooldowns: createMemoryCooldownStore(),
+    loadMemories: async () => [],
+    now: () => 1_000_000,
+    random: () => 0,
+    ...overrides,
+  };
+}
+
+const user = (content: string) => [{ role: "user", content }];
+
+describe("gate lexicons", () => {
+  it.each([
+    ["hola", "es"],
+    ["je suis fatigué", "fr"],
+    ["Hallo!", "de"],
+    ["hey", "en"],
+    ["ok", "en"],
+    ["estoy muy cansada hoy", "es"],
+  ])("guesses %j as %s", (text, locale) => {
+    expect(guessLocale(text)).toBe(locale);
+  });
+
+  it("greets in the guessed language with the mode's localized pool", async () => {
+    const quiet = await runGatePipeline("quiet", user("hola"), session());
+    expect(quiet.locale).toBe("es");
+    expect(quiet.outcome).toMatchObject({ gateId: "greeting", response: "Hola." });
+
+    const mythic = await runGatePipeline("mythic", user("salut"), session());
+    expect(mythic.outcome?.response).toBe(GATE_LEXICONS.fr.modeGreetings!.mythic[0]);
+  });
+
+  it("keeps a custom mode's own greetings", async () => {
+    const mode = customVoiceModeProfile({
+      id: "m1",
+      userId: "u1",
+      name: "Sparse",
+      maxSentences: 1,
+      allowQuestionsOnGreeting: false,
+      warmthBias: 30,
+      greetingResponses: ["Present."],
+      instructions: "",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    const { outcome } = await runGatePipeline(mode, user("hallo"), session());
+    expect(outcome?.response).toBe("Present.");
+  });
+
+  it("reflects a named feeling in French, then notices it repeating", async () => {
+    const s = session();
+    const first = await runGatePipeline("quiet", user("je suis fatigué"), s);
+    expect(first.outcome).toMatchObject({
+      gateId: "reflection",
+      response: "On dirait que tu es à court d'énergie en ce moment.",
+    });
+
+    const again = await runGatePipeline(
+      "quiet",
+      [...user("je suis fatiguée ce soir"), ...user("je suis encore épuisée")],
+      s,
+    );
+    expect(again.outcome?.response).toBe(
+      "La fatigue est revenue plus d'une fois ces derniers temps.",
+    );
+  });
+
+  it("answers probes, invitations and short replies in Spanish and German", async () => {
+    const fire = async (content: string) =>
+      (await runGatePipeline("quiet", user(content), session())).outcome;
+    expect(await fire("¿estás ahí?")).toMatchObject({
+      gateId: "casual_probe",
+      response: "Sí.",
+    });
+    expect(await fire("Können wir reden? Es geht um die Arbeit")).toMatchObject({
+      gateId: "invite",
+      response: "Klar. Erzähl—ich höre zu.",
+    });
+    expect(await fire("vale, gracias")).toMatchObject({
+      gateId: "ultra_short",
+      response: "Vale.",
+    });
+    expect(await fire("¿por qué?")).toBeNull();
+  });
+
+  it("uses Stage 3 continuity from the user's own language", async () => {
+    const { outcome } = await runGatePipeline(
+      "quiet",
+      user("hoy estoy muy estresada"),
+      session({
+        allowMemoryReferences: true,
+        loadMemories: async () => [
+          { id: "m1", content: "estar estresada con la mudanza" },
+        ],
+      }),
+    );
+    expect(outcome?.chain).toEqual(["continuity", "reflection"]);
+    expect(outcome?.response).toBe(
+      "Antes mencionaste estar estresada con la mudanza. Suena a mucho peso que cargar.",
+    );
+  });
+
+  it("follows the language setting over the guess", async () => {
+    const { outcome, locale } = await runGatePipeline(
+      "quiet",
+      user("hola"),
+      session({ language: "de" }),
+    );
+    expect(locale).toBe("de");
+    // Not a German greeting: a short reply, answered in German
+    expect(outcome).toMatchObject({ gateId: "ultra_short", response: "Okay." });
+  });
+});
+
+let testApp: TestApp;
+let app: Express;
+let storage: MemoryStorage;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  ({ app, storage } = testApp);
+});
+
+afterAll(() => testApp.close());
+
+describe("language setting", () => {
+  it("answers a chat turn from the chosen language's pool", async () => {
+    const { userId, conversationId } = storage.seedUser({ settings: { language: "fr" } });
+    testApp.setMockUser(userId);
+    const turn = await request(app)
+      .post(`/api/conversations/${conversationId}/turn`)
+      .send({ content: "salut" });
+    expect(GATE_LEXICONS.fr.modeGreetings!.quiet).toContain(
+      turn.body.assistantMessage.content,
+    );
+  });
+
+  it("lets the gate tester try a language without saving it", async () => {
+    testApp.setMockUser(storage.seedUser().userId);
+    const res = await request(app)
+      .post("/api/gates/simulate")
+      .send({ content: "hallo", language: "es" });
+    expect(res.body).toMatchObject({ locale: "es", gateId: "ultra_short" });
+
+    const bad = await request(app)
+      .post("/api/gates/simulate")
+      .send({ content: "hallo", language: "it" });
+    expect(bad.status).toBe(400);
+  });
+});
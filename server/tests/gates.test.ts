@@ -0,0 +1,229 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  GATE_PIPELINE,
+  createMemoryCooldownStore,
+  runGatePipeline,
+  simulateGates,
+  type GateSession,
+} from "../gates";
+import { generateResponse, generateResponseStream } from "../voice-engine";
+
+const user = (content: string) => [{ role: "user", content }];
+
+function fakeClock(start = 1_000_000) {
+  let t = start;
+  return { now: () => t, advance: (ms: number) => (t += ms) };
+}
+
+function session(overrides: Partial<GateSession> = {}): GateSession {
+  return {
+    userId: "u1",
+    conversationId: "c1",
+    allowMemoryReferences: false,
+    cooldowns: createMemoryCooldownStore(),
+    loadMemories: async () => [],
+    now: fakeClock().now,
+    random: () => 0,
+    ...overrides,
+  };
+}
+
+async function fire(content: string, s?: GateSession, history: string[] = []) {
+  const messages = [...history.flatMap((h) => user(h)), ...user(content)];
+  return (await runGatePipeline("quiet", messages, s)).outcome;
+}
+
+describe("gate pipeline: one ordered list of gates", () => {
+  it("runs the protected-zone order", () => {
+    expect(GATE_PIPELINE.map((g) => g.id)).toEqual([
+      "greeting",
+      "ellipsis",
+      "ultra_short",
+      "casual_probe",
+      "invite",
+      "reflection",
+      "continuity",
+    ]);
+    expect(GATE_PIPELINE.find((g) => g.id === "continuity")?.wraps).toBe("reflection");
+    for (const gate of GATE_PIPELINE) {
+      expect(gate.cooldown !== null).toBe(["reflection", "continuity"].includes(gate.id));
+    }
+  });
+
+  it.each([
+    ["hey", "greeting"],
+    ["…", "ellipsis"],
+    ["ok", "ultra_short"],
+    ["not much", "ultra_short"],
+    ["are you there?", "casual_probe"],
+    ["Can we talk?", "invite"],
+  ])("%j is answered by %s", async (content, gateId) => {
+    expect((await fire(content))?.gateId).toBe(gateId);
+  });
+
+  it("lets short questions and substantive messages through to the model", async () => {
+    expect(await fire("why not?")).toBeNull();
+    const s = session();
+    expect(
+      await fire("I'm stressed because the project slipped again and again", s),
+    ).toBeNull();
+  });
+
+  it("answers the invite with the fixed line", async () => {
+    expect((await fire("I want to talk about something"))?.response).toBe(
+      "Sure. Go ahead—I'm listening.",
+    );
+  });
+});
+
+describe("gate pipeline: Stage 2 reflection and Stage 3 continuity", () => {
+  it("needs a session: stateful gates never run without somewhere to keep a cooldown", async () => {
+    const run = await runGatePipeline("quiet", user("I'm stressed today"));
+    expect(run.outcome).toBeNull();
+    expect(run.trace.find((t) => t.gateId === "reflection")?.result).toBe("no_session");
+  });
+
+  it("reflects once, then respects the cooldown until it expires", async () => {
+    const clock = fakeClock();
+    const s = session({ now: clock.now });
+    const first = await fire("I'm stressed today", s);
+    expect(first).toMatchObject({
+      gateId: "reflection",
+      stage: "stage2_reflection",
+      response: "That sounds like a lot to carry.",
+    });
+
+    // Cooldowns are returned, not applied: nothing changed yet.
+    expect(await s.cooldowns.get("reflection", "u1:c1")).toBeUndefined();
+    await s.cooldowns.set("reflection", "u1:c1", first!.cooldownWrites[0].entry);
+
+    expect(await fire("I'm so tired tonight", s)).toBeNull();
+    clock.advance(46_000);
+    expect((await fire("I'm so tired tonight", s))?.gateId).toBe("reflection");
+  });
+
+  it("uses the repeat line when the feeling keeps coming up", async () => {
+    const out = await fire("still stressed out here", session(), [
+      "I'm stressed at work",
+      "so much pressure lately",
+    ]);
+    expect(out?.response).toBe("This pressure has come up more than once lately.");
+  });
+
+  it("adds one continuity sentence only when opted in and a memory matches", async () => {
+    const memories = async () => [
+      { id: "m1", content: "I like the color purple" },
+      { id: "m2", content: "I've been stressed at work lately" },
+    ];
+
+    const off = await fire("I'm stressed today", session({ loadMemories: memories }));
+    expect(off?.chain).toEqual(["reflection"]);
+    expect(off?.memoryReads).toBe(0);
+
+    const on = await fire(
+      "I'm stressed today",
+      session({ allowMemoryReferences: true, loadMemories: memories }),
+    );
+    expect(on).toMatchObject({
+      gateId: "reflection",
+      chain: ["continuity", "reflection"],
+      response:
+        "Earlier you mentioned I've been stressed at work lately. That sounds like a lot to carry.",
+      memoryReads: 1,
+    });
+    expect(on?.cooldownWrites.map((w) => w.kind)).toEqual(["reflection", "continuity"]);
+  });
+
+  it("falls back to the plain reflection if loading memories fails", async () => {
+    const out = await fire(
+      "I'm stressed today",
+      session({
+        allowMemoryReferences: true,
+        loadMemories: async () => {
+          throw new Error("db down");
+        },
+      }),
+    );
+    expect(out).toMatchObject({
+      chain: ["reflection"],
+      response: "That sounds like a lot to carry.",
+    });
+  });
+});
+
+describe("gate pipeline: both voice-engine paths report the gate", () => {
+  it("buffered and streaming answers carry the gate id and start cooldowns", async () => {
+    const callModel = vi.fn(async () => "unused");
+    const s = session();
+    const buffered = await generateResponse({
+      mode: "quiet",
+      systemPrompt: "",
+      messages: user("I'm stressed today"),
+      callModel,
+      gates: s,
+    });
+    expect(callModel).not.toHaveBeenCalled();
+    expect(buffered).toMatchObject({
+      shortCircuited: true,
+      stage: "stage2_reflection",
+      gateId: "reflection",
+      reason: "reflection",
+    });
+    expect(await s.cooldowns.get("reflection", "u1:c1")).toBeDefined();
+
+    const streamModel = vi.fn(async function* () {
+      yield "unused";
+    });
+    const deltas: string[] = [];
+    const streamed = await generateResponseStream({
+      mode: "quiet",
+      systemPrompt: "",
+      messages: user("Can we talk?"),
+      streamModel,
+      onDelta: (d) => deltas.push(d),
+      gates: s,
+    });
+    expect(streamModel).not.toHaveBeenCalled();
+    expect(streamed.gateId).toBe("invite");
+    expect(deltas).toEqual(["Sure. Go ahead—I'm listening."]);
+  });
+});
+
+describe("gate dry run", () => {
+  it("reports the gate, its cooldown reads and a model call without touching state", async () => {
+    const clock = fakeClock();
+    const s = session({ now: clock.now });
+    const set = vi.spyOn(s.cooldowns, "set");
+
+    const sim = await simulateGates("quiet", user("I'm stressed today"), s);
+    expect(sim).toMatchObject({
+      gateId: "reflection",
+      stage: "stage2_reflection",
+      modelCall: false,
+      wouldStartCooldowns: ["reflection"],
+      cooldowns: { reflection: { scopeKey: "u1:c1", lastAt: null, active: false } },
+    });
+    expect(set).not.toHaveBeenCalled();
+
+    // Same message again: still the reflection, because nothing was recorded.
+    expect((await simulateGates("quiet", user("I'm stressed today"), s)).gateId).toBe(
+      "reflection",
+    );
+  });
+
+  it("shows an active cooldown pushing the message through to the model", async () => {
+    const clock = fakeClock();
+    const s = session({ now: clock.now });
+    await s.cooldowns.set("reflection", "u1:c1", { lastAt: clock.now() - 5_000 });
+
+    const sim = await simulateGates("quiet", user("I'm so tired tonight"), s);
+    expect(sim).toMatchObject({
+      gateId: null,
+      stage: "llm_call",
+      reason: "no_gate_matched",
+      modelCall: true,
+      cooldowns: { reflection: { active: true, remainingMs: 40_000 } },
+    });
+    expect(sim.trace.find((t) => t.gateId === "reflection")?.result).toBe("cooldown");
+  });
+});
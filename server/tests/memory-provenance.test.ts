@@ -0,0 +1,79 @@
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+// "Remember this": a memory saved from a chat message keeps the message ID and the
+// message's text as it was saved.
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+let testApp: TestApp;
+let app: Express;
+let storage: MemoryStorage;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  ({ app, storage } = testApp);
+});
+
+afterAll(() => testApp.close());
+
+async function seedMessage(content: string) {
+  const { userId, conversationId } = storage.seedUser();
+  const message = await storage.createMessage(
+    { conversationId, role: "user", content },
+    userId,
+  );
+  return { userId, conversationId, messageId: message!.id };
+}
+
+describe("remember a chat message", () => {
+  it("stores the message ID and the server's copy of its text", async () => {
+    const source = await seedMessage("My sister Ana gets married in June");
+    testApp.setMockUser(source.userId);
+    const res = await request(app).post("/api/memories").send({
+      content: "Ana's wedding is in June",
+      type: "milestone",
+      sourceConversationId: source.conversationId,
+      sourceMessageId: source.messageId,
+      sourceSnapshot: "something else entirely",
+    });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      content: "Ana's wedding is in June",
+      sourceConversationId: source.conversationId,
+      sourceMessageId: source.messageId,
+      sourceSnapshot: "My sister Ana gets married in June",
+    });
+
+    const moved = await request(app)
+      .patch(`/api/memories/${res.body.id}`)
+      .send({ sourceMessageId: null, importance: "high" });
+    expect(moved.body).toMatchObject({
+      importance: "high",
+      sourceMessageId: source.messageId,
+    });
+  });
+
+  it("refuses another user's message", async () => {
+    const other = await seedMessage("not yours");
+    testApp.setMockUser(storage.seedUser().userId);
+    const res = await request(app).post("/api/memories").send({
+      content: "not yours",
+      sourceConversationId: other.conversationId,
+      sourceMessageId: other.messageId,
+    });
+    expect(res.status).toBe(404);
+
+    const orphan = await request(app).post("/api/memories").send({
+      content: "no conversation given",
+      sourceMessageId: other.messageId,
+    });
+    expect(orphan.status).toBe(404);
+  });
+});
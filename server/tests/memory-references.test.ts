@@ -0,0 +1,89 @@
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+// Memory reference ledger: a row each time Stage 3 continuity cites a memory in a
+// saved reply, keyed to the message and the turn's requestId.
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+let testApp: TestApp;
+let app: Express;
+let storage: MemoryStorage;
+let getLastDecision: typeof import("../telemetry/decision-log").getLastDecision;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  ({ app, storage } = testApp);
+  ({ getLastDecision } = await import("../telemetry/decision-log"));
+});
+
+afterAll(() => testApp.close());
+
+describe("memory reference ledger", () => {
+  it("records the memory a continuity reply cited", async () => {
+    const { userId, conversationId } = storage.seedUser({
+      settings: { allowMemoryReferences: true },
+      memories: ["stressed about the move", "has a sister named Ana"],
+    });
+    testApp.setMockUser(userId);
+    const [cited] = await storage.getMemories(userId);
+
+    const turn = await request(app)
+      .post(`/api/conversations/${conversationId}/turn`)
+      .send({ content: "so stressed today" });
+    const { assistantMessage } = turn.body;
+    expect(assistantMessage.content).toContain("stressed about the move");
+    expect(turn.body.memoryReferences).toEqual([
+      expect.objectContaining({
+        memoryId: cited.id,
+        messageId: assistantMessage.id,
+        requestId: assistantMessage.requestId,
+      }),
+    ]);
+    expect(getLastDecision(userId)).toMatchObject({
+      requestId: assistantMessage.requestId,
+      memoryIds: [cited.id],
+    });
+
+    const ledger = await request(app).get(
+      `/api/conversations/${conversationId}/memory-references`,
+    );
+    expect(ledger.body).toHaveLength(1);
+
+    const memories = await request(app).get("/api/memories");
+    expect(memories.body).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          id: cited.id,
+          referenceCount: 1,
+          lastReferencedAt: ledger.body[0].referencedAt,
+        }),
+        expect.objectContaining({ referenceCount: 0, lastReferencedAt: null }),
+      ]),
+    );
+  });
+
+  it("records nothing for a reply that cites no memory", async () => {
+    const { userId, conversationId } = storage.seedUser({
+      memories: ["stressed about the move"],
+    });
+    testApp.setMockUser(userId);
+    // Memory references are off for this user
+    const turn = await request(app)
+      .post(`/api/conversations/${conversationId}/turn`)
+      .send({ content: "so stressed today" });
+    expect(turn.body.memoryReferences).toEqual([]);
+
+    testApp.setMockUser(storage.seedUser().userId);
+    const other = await request(app).get(
+      `/api/conversations/${conversationId}/memory-references`,
+    );
+    expect(other.status).toBe(404);
+  });
+});
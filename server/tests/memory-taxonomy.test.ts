@@ -0,0 +1,115 @@
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createMemoryCooldownStore, runGatePipeline } from "../gates";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+// Stage 5 memories: typed, ranked by importance, and expired lazily when read.
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+const YESTERDAY = new Date(Date.now() - 86_400_000);
+const TOMORROW = new Date(Date.now() + 86_400_000);
+
+describe("continuity ranking", () => {
+  it("weights overlap by importance", async () => {
+    const { outcome } = await runGatePipeline(
+      "quiet",
+      [{ role: "user", content: "so stressed and tired today" }],
+      {
+        userId: "u1",
+        conversationId: "c1",
+        allowMemoryReferences: true,
+        cooldowns: createMemoryCooldownStore(),
+        loadMemories: async () => [
+          // more terms in common, but low importance
+          { id: "m1", content: "stressed and tired all week", importance: "low" },
+          { id: "m2", content: "stressed about the move", importance: "critical" },
+        ],
+        now: () => 1_000_000,
+        random: () => 0,
+      },
+    );
+    expect(outcome?.response).toContain("stressed about the move");
+  });
+});
+
+let testApp: TestApp;
+let app: Express;
+let storage: MemoryStorage;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  ({ app, storage } = testApp);
+});
+
+afterAll(() => testApp.close());
+
+// The user's memories as a read on an earlier date would see them, without purging:
+// an expired row shows up only if it is still stored.
+async function rowsAsOf(userId: string, date: Date) {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(date.getTime() - 3_600_000);
+  try {
+    return await storage.getMemories(userId, { purgeExpired: false });
+  } finally {
+    vi.useRealTimers();
+  }
+}
+
+describe("memory routes", () => {
+  it("creates typed memories and rejects the old types", async () => {
+    testApp.setMockUser(storage.seedUser().userId);
+    const res = await request(app).post("/api/memories").send({
+      content: "Prefers mornings for hard conversations",
+      type: "preference",
+      reviewAfter: TOMORROW.toISOString(),
+    });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      type: "preference",
+      importance: "medium",
+      expiresAt: null,
+      reviewAfter: TOMORROW.toISOString(),
+    });
+
+    const old = await request(app)
+      .post("/api/memories")
+      .send({ content: "x", type: "long-term" });
+    expect(old.status).toBe(400);
+    const patch = await request(app)
+      .patch(`/api/memories/${res.body.id}`)
+      .send({ type: "short-term" });
+    expect(patch.status).toBe(400);
+  });
+
+  it("hides expired memories and purges them on read, not on a dry run", async () => {
+    const { userId } = storage.seedUser({
+      memories: [
+        "Has a sister named Ana",
+        { content: "stressed about the exam", expiresAt: YESTERDAY },
+        { content: "Trip next week", expiresAt: TOMORROW },
+      ],
+    });
+    testApp.setMockUser(userId);
+
+    const dry = await request(app)
+      .post("/api/gates/simulate")
+      .send({ content: "so stressed today", allowMemoryReferences: true });
+    // the expired memory is not cited, and still stored
+    expect(dry.body.gateId).toBe("reflection");
+    expect(await rowsAsOf(userId, YESTERDAY)).toHaveLength(3);
+
+    const res = await request(app).get("/api/memories");
+    expect(res.body.map((m: any) => m.content).sort()).toEqual([
+      "Has a sister named Ana",
+      "Trip next week",
+    ]);
+    // Gone for good, not just hidden
+    expect(await rowsAsOf(userId, YESTERDAY)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  ModelCallError,
+  createModelDeadline,
+  toModelCallError,
+  upstreamError,
+} from "../providers/errors";
+import { mockAdapter } from "../providers/mock";
+import { openaiAdapter } from "../providers/openai";
+
+const input = (content: string, endpoint = "mock://local") => ({
+  endpoint,
+  apiKey: "test",
+  model: "mock-1",
+  systemPrompt: "",
+  messages: [{ role: "user", content }],
+  maxTokens: 50,
+});
+
+async function callWithDeadline(
+  endpoint: string,
+  content: string,
+  timeoutMs: number,
+  parent?: AbortSignal,
+) {
+  const deadline = createModelDeadline(parent, timeoutMs);
+  const adapter = endpoint.startsWith("mock") ? mockAdapter : openaiAdapter;
+  try {
+    await adapter.complete({ ...input(content, endpoint), signal: deadline.signal });
+    return null;
+  } catch (error) {
+    return toModelCallError(error, deadline.signal);
+  } finally {
+    deadline.done();
+  }
+}
+
+describe("model call errors: structured, never assistant text", () => {
+  it("classifies upstream statuses as retryable or not", () => {
+    expect(upstreamError(503).toJSON()).toMatchObject({
+      type: "upstream",
+      retryable: true,
+      upstreamStatus: 503,
+    });
+    expect(upstreamError(429).retryable).toBe(true);
+    expect(upstreamError(401).retryable).toBe(false);
+    expect(upstreamError(401).httpStatus).toBe(502);
+  });
+
+  it("turns a missed deadline into a retryable timeout", async () => {
+    const error = await callWithDeadline("mock://local", "[mock:latency=500]", 20);
+    expect(error).toBeInstanceOf(ModelCallError);
+    expect(error?.toJSON()).toMatchObject({ type: "timeout", retryable: true });
+    expect(error?.httpStatus).toBe(504);
+  });
+
+  it("turns a client abort into a non-retryable abort", async () => {
+    const client = new AbortController();
+    setTimeout(() => client.abort(), 10);
+    const error = await callWithDeadline(
+      "mock://local",
+      "[mock:latency=500]",
+      5_000,
+      client.signal,
+    );
+    expect(error?.toJSON()).toMatchObject({ type: "aborted", retryable: false });
+  });
+});
+
+describe("model call errors: aborts reach the upstream request", () => {
+  let stub: Server;
+  let endpoint: string;
+  let upstreamClosed: Promise<void>;
+
+  beforeAll(async () => {
+    let markClosed!: () => void;
+    upstreamClosed = new Promise((resolve) => (markClosed = resolve));
+    // Never answers; only notices when the caller hangs up.
+    stub = createServer((_req, res) => {
+      res.on("close", markClosed);
+    });
+    await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+    endpoint = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(() => {
+    stub.closeAllConnections();
+    stub.close();
+  });
+
+  it("cancels the in-flight fetch on timeout", async () => {
+    const error = await callWithDeadline(endpoint, "hello", 500);
+    expect(error?.type).toBe("timeout");
+    await expect(upstreamClosed).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { resolveModelSelection } from "../model-selection";
+import { buildAnthropicRequest } from "../providers/anthropic";
+import { buildOpenAIRequest } from "../providers/openai";
+
+const settings = {
+  provider: "openai",
+  modelName: "gpt-4",
+  apiEndpoint: "https://api.openai.com/v1",
+};
+
+const unpinned = { provider: null, modelName: null, maxTokens: null, temperature: null };
+
+describe("model selection: version pins fall back to settings", () => {
+  it("uses settings when the version pins nothing", () => {
+    expect(resolveModelSelection(settings, unpinned)).toEqual({
+      provider: "openai",
+      providerSource: "settings",
+      modelName: "gpt-4",
+      modelSource: "settings",
+      apiEndpoint: "https://api.openai.com/v1",
+      maxTokens: 220,
+      temperature: undefined,
+    });
+  });
+
+  it("lets a version pin provider, model, reply length and temperature", () => {
+    const selection = resolveModelSelection(
+      settings,
+      {
+        provider: "anthropic",
+        modelName: "claude-3-5-haiku-latest",
+        maxTokens: 400,
+        temperature: 0.3,
+      },
+      "gpt-4-turbo",
+    );
+    expect(selection).toEqual({
+      provider: "anthropic",
+      providerSource: "version",
+      modelName: "claude-3-5-haiku-latest",
+      modelSource: "version",
+      // Switching provider switches to that provider's endpoint.
+      apiEndpoint: "https://api.anthropic.com/v1",
+      maxTokens: 400,
+      temperature: 0.3,
+    });
+  });
+
+  it("pins the model alone while keeping the configured endpoint", () => {
+    const custom = {
+      ...settings,
+      provider: "custom",
+      apiEndpoint: "http://localhost:11434/v1",
+    };
+    const selection = resolveModelSelection(custom, { ...unpinned, modelName: "llama3" });
+    expect(selection).toMatchObject({
+      provider: "custom",
+      providerSource: "settings",
+      modelName: "llama3",
+      modelSource: "version",
+      apiEndpoint: "http://localhost:11434/v1",
+    });
+  });
+
+  it("ranks a model from the request body with settings, below a version pin", () => {
+    expect(resolveModelSelection(settings, undefined, "gpt-4-turbo")).toMatchObject({
+      modelName: "gpt-4-turbo",
+      modelSource: "settings",
+    });
+  });
+
+  it("sends temperature upstream only when pinned", () => {
+    const base = {
+      endpoint: "https://api.example.com/v1",
+      apiKey: "k",
+      model: "m",
+      systemPrompt: "",
+      messages: [{ role: "user", content: "hi" }],
+      maxTokens: 400,
+    };
+    expect(buildOpenAIRequest(base).body).not.toHaveProperty("temperature");
+    expect(buildOpenAIRequest({ ...base, temperature: 0 }).body).toMatchObject({
+      temperature: 0,
+      max_tokens: 400,
+    });
+    expect(buildAnthropicRequest({ ...base, temperature: 0.7 }).body).toMatchObject({
+      temperature: 0.7,
+      max_tokens: 400,
+    });
+  });
+});
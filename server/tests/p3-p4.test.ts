@@ -87,7 +87,7 @@ async function seedTestData() {
     content: "Test memory content",
     tags: ["test"],
     importance: "medium",
-    type: "long-term",
+    type: "fact",
   });
 
   backupA = await storage.createBackup({
@@ -170,6 +170,18 @@ describe("P3/P4 Security Verification Harness", () => {
           .send({ role: "user", content: "Hacked message" });
         expect(res.status).toBe(404);
       });
+
+      it("POST /api/conversations/:id/turn returns 404 when userB takes a turn in userA conversation", async () => {
+        setMockUser(userB.id);
+        const res = await request(app)
+          .post(`/api/conversations/${conversationA.id}/turn`)
+          .send({ content: "Hacked turn" });
+        expect(res.status).toBe(404);
+
+        setMockUser(userA.id);
+        const msgs = await storage.getMessages(conversationA.id, userA.id);
+        expect(msgs?.some((m) => m.content === "Hacked turn")).toBe(false);
+      });
     });
 
     describe("Memories", () => {
@@ -257,4 +269,37 @@ describe("P3/P4 Security Verification Harness", () => {
       expect(res.status).not.toBe(400);
     });
   });
+
+  describe("Server-authoritative turn: /api/conversations/:id/turn", () => {
+    beforeAll(() => {
+      setMockUser(userA.id);
+    });
+
+    it("returns 400 when content is empty", async () => {
+      const res = await request(app)
+        .post(`/api/conversations/${conversationA.id}/turn`)
+        .send({ content: "   " });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain("Invalid request");
+    });
+
+    it("persists the user and assistant messages and returns both server rows", async () => {
+      const res = await request(app)
+        .post(`/api/conversations/${conversationA.id}/turn`)
+        .send({ content: "I'm tired tonight" });
+      expect(res.status).toBe(200);
+      expect(res.body.userMessage.role).toBe("user");
+      expect(res.body.userMessage.content).toBe("I'm tired tonight");
+      expect(res.body.assistantMessage.role).toBe("assistant");
+      expect(res.body.assistantMessage.content).toBeTruthy();
+
+      const msgs = (await storage.getMessages(conversationA.id, userA.id)) ?? [];
+      const ids = msgs.map((m) => m.id);
+      expect(ids).toContain(res.body.userMessage.id);
+      expect(ids).toContain(res.body.assistantMessage.id);
+      expect(ids.indexOf(res.body.userMessage.id)).toBeLessThan(
+        ids.indexOf(res.body.assistantMessage.id),
+      );
+    });
+  });
 });
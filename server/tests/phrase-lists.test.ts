@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import type { PhraseRule } from "@shared/schema";
+import {
+  DEFAULT_PHRASE_ENTRIES,
+  resolvePhraseList,
+  validatePhrasePattern,
+} from "../phrase-lists";
+import { generateResponseStream, sanitizeReply } from "../voice-engine";
+
+function rule(overrides: Partial<PhraseRule>): PhraseRule {
+  return {
+    id: "r1",
+    userId: "u1",
+    versionId: null,
+    list: "banned",
+    pattern: "no worries",
+    matchType: "phrase",
+    enabled: true,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("phrase lists: which entries apply", () => {
+  it("keeps defaults unless switched off, and scopes entries to their version", () => {
+    const rules = [
+      rule({ id: "all" }),
+      rule({ id: "v1-only", versionId: "v1", pattern: "rest assured" }),
+      rule({ id: "off", enabled: false, pattern: "off" }),
+    ];
+    const disabled = ["default:banned:it sounds like"];
+
+    const v1 = resolvePhraseList(rules, disabled, "v1");
+    expect(v1.map((e) => e.id)).toEqual(
+      expect.arrayContaining(["default:banned:i can imagine", "all", "v1-only"]),
+    );
+    expect(v1.map((e) => e.id)).not.toContain("default:banned:it sounds like");
+    expect(v1.map((e) => e.id)).not.toContain("off");
+    expect(v1.find((e) => e.id === "v1-only")?.source).toBe("version");
+
+    const v2 = resolvePhraseList(rules, [], "v2").map((e) => e.id);
+    expect(v2).toContain("all");
+    expect(v2).not.toContain("v1-only");
+  });
+
+  it("rejects unusable patterns", () => {
+    expect(validatePhrasePattern("  ", "phrase")).toMatch(/empty/);
+    expect(validatePhrasePattern("(unclosed", "regex")).toBe(
+      "Invalid regular expression",
+    );
+    expect(validatePhrasePattern("a*", "regex")).toMatch(/empty text/);
+    expect(validatePhrasePattern("rest (assured|easy)", "regex")).toBeNull();
+  });
+});
+
+describe("phrase lists: sanitizer records the entry that fired", () => {
+  const phrases = resolvePhraseList(
+    [rule({ id: "regex", matchType: "regex", pattern: "rest (assured|easy),?" })],
+    [],
+  );
+
+  it("strips regex entries and reports every entry used", () => {
+    const out = sanitizeReply(
+      "Rest assured, I'm here. It sounds like a lot.",
+      phrases,
+      "long day",
+    );
+    expect(out.response).toBe("I'm here. a lot.");
+    expect(out.sanitizedBy.map((e) => e.id)).toEqual([
+      "default:banned:it sounds like",
+      "regex",
+    ]);
+  });
+
+  it("leaves conditional phrases alone when the user asked what Nova is", () => {
+    const reply = "As an AI, I don't sleep.";
+    expect(
+      sanitizeReply(reply, DEFAULT_PHRASE_ENTRIES, "are you an ai?").sanitizedBy,
+    ).toEqual([]);
+    expect(
+      sanitizeReply(reply, DEFAULT_PHRASE_ENTRIES, "hm, ok then").sanitizedBy[0]?.id,
+    ).toBe("default:conditional:as an ai");
+  });
+
+  it("honours a switched-off default on the streaming path", async () => {
+    const deltas: string[] = [];
+    const result = await generateResponseStream({
+      mode: "engaged",
+      systemPrompt: "",
+      messages: [{ role: "user", content: "I had a long talk with my sister today" }],
+      streamModel: async function* () {
+        yield "It sounds like it went well. ";
+        yield "Rest easy tonight.";
+      },
+      onDelta: (d) => deltas.push(d),
+      phrases: resolvePhraseList(
+        [rule({ id: "regex", matchType: "regex", pattern: "rest (assured|easy)" })],
+        ["default:banned:it sounds like"],
+      ),
+    });
+    expect(result.response).toBe("It sounds like it went well. tonight.");
+    expect(result.sanitizedBy?.map((e) => e.id)).toEqual(["regex"]);
+    expect(result.reason).toBe("sanitized_banned_phrase:rest (assured|easy)");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { assembleSystemPrompt } from "../prompt-assembly";
+
+describe("prompt assembly: version rules, tone traits and boundaries reach the model", () => {
+  it("includes only enabled rules, numeric traits and enabled boundaries", () => {
+    const prompt = assembleSystemPrompt(
+      {
+        systemPrompt: "You are Nova.",
+        rules: [
+          {
+            id: "r1",
+            name: "Pact of Trust",
+            content: "Always be honest.",
+            enabled: true,
+          },
+          { id: "r2", name: "Old Rule", content: "Talk like a pirate.", enabled: false },
+        ],
+        toneTraits: { warmth: 80, directness: 140, mood: "sunny" as unknown as number },
+      },
+      [
+        { id: "b1", type: "dont", content: "Give medical advice.", enabled: true },
+        { id: "b2", type: "do", content: "Use my name.", enabled: false },
+      ],
+    );
+
+    expect(prompt.startsWith("You are Nova.")).toBe(true);
+    expect(prompt).toContain("- Pact of Trust: Always be honest.");
+    expect(prompt).not.toContain("pirate");
+
+    expect(prompt).toContain("- Warmth: 80/100");
+    expect(prompt).toContain("- Directness: 100/100"); // clamped
+    expect(prompt).not.toContain("sunny");
+
+    expect(prompt).toContain("- Never: Give medical advice.");
+    expect(prompt).not.toContain("Use my name.");
+  });
+
+  it("omits empty sections", () => {
+    const prompt = assembleSystemPrompt(
+      { systemPrompt: "You are Nova.", rules: [], toneTraits: {} },
+      [],
+    );
+    expect(prompt).toBe("You are Nova.");
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server, type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+import { anthropicAdapter, toAnthropicMessages } from "../providers/anthropic";
+import { resolveProviderAdapter } from "../providers";
+
+type Captured = { url?: string; headers: IncomingMessage["headers"]; body: any };
+
+let stub: Server;
+let endpoint: string;
+let captured: Captured;
+let nextReply: { status: number; body: unknown };
+
+beforeAll(async () => {
+  stub = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      captured = { url: req.url, headers: req.headers, body: JSON.parse(raw || "null") };
+      if (captured.body?.stream) {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        const start = { type: "message_start", message: { usage: { input_tokens: 42 } } };
+        res.write(`event: message_start\ndata: ${JSON.stringify(start)}\n\n`);
+        for (const text of ["I'm ", "here."]) {
+          const delta = {
+            type: "content_block_delta",
+            delta: { type: "text_delta", text },
+          };
+          res.write(`event: content_block_delta\ndata: ${JSON.stringify(delta)}\n\n`);
+        }
+        const done = { type: "message_delta", usage: { output_tokens: 3 } };
+        res.write(`event: message_delta\ndata: ${JSON.stringify(done)}\n\n`);
+        res.end(`event: message_stop\ndata: {"type":"message_stop"}\n\n`);
+        return;
+      }
+      res.writeHead(nextReply.status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(nextReply.body));
+    });
+  });
+  await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+  endpoint = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(() => {
+  stub.close();
+});
+
+describe("providers: Anthropic Messages adapter", () => {
+  it("sends a native Messages request and maps text blocks back", async () => {
+    nextReply = {
+      status: 200,
+      body: {
+        type: "message",
+        role: "assistant",
+        content: [
+          { type: "text", text: "I'm here." },
+          { type: "text", text: " Still here." },
+        ],
+        usage: { input_tokens: 30, output_tokens: 5 },
+      },
+    };
+
+    const result = await anthropicAdapter.complete({
+      endpoint,
+      apiKey: "sk-ant-test",
+      model: "claude-3-5-haiku-latest",
+      systemPrompt: "You are Nova.",
+      messages: [
+        { role: "system", content: "ignored" },
+        { role: "user", content: "I'm stressed today." },
+      ],
+      maxTokens: 220,
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      content: "I'm here. Still here.",
+      usage: { promptTokens: 30, completionTokens: 5 },
+    });
+
+    expect(captured.url).toBe("/v1/messages");
+    expect(captured.headers["x-api-key"]).toBe("sk-ant-test");
+    expect(captured.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(captured.headers.authorization).toBeUndefined();
+
+    expect(captured.body).toEqual({
+      model: "claude-3-5-haiku-latest",
+      system: "You are Nova.",
+      max_tokens: 220,
+      messages: [
+        { role: "user", content: [{ type: "text", text: "I'm stressed today." }] },
+      ],
+    });
+  });
+
+  it("returns a non-ok result with the upstream status on errors", async () => {
+    nextReply = {
+      status: 401,
+      body: { type: "error", error: { type: "authentication_error" } },
+    };
+
+    const result = await anthropicAdapter.complete({
+      endpoint,
+      apiKey: "bad",
+      model: "claude-3-5-haiku-latest",
+      systemPrompt: "",
+      messages: [{ role: "user", content: "hello there" }],
+      maxTokens: 220,
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.status).toBe(401);
+  });
+
+  it("streams text deltas from content_block_delta events", async () => {
+    const result = await anthropicAdapter.stream({
+      endpoint,
+      apiKey: "sk-ant-test",
+      model: "claude-3-5-haiku-latest",
+      systemPrompt: "You are Nova.",
+      messages: [{ role: "user", content: "I'm stressed today." }],
+      maxTokens: 220,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const deltas: string[] = [];
+    for await (const d of result.deltas) deltas.push(d);
+
+    expect(captured.body.stream).toBe(true);
+    expect(deltas).toEqual(["I'm ", "here."]);
+    expect(result.usage?.()).toEqual({ promptTokens: 42, completionTokens: 3 });
+  });
+
+  it("drops leading assistant turns and merges consecutive roles", () => {
+    expect(
+      toAnthropicMessages([
+        { role: "assistant", content: "Hey." },
+        { role: "user", content: "one" },
+        { role: "user", content: "two" },
+        { role: "assistant", content: "Mm." },
+      ]),
+    ).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "one" },
+          { type: "text", text: "two" },
+        ],
+      },
+      { role: "assistant", content: [{ type: "text", text: "Mm." }] },
+    ]);
+  });
+
+  it("resolves the adapter from the provider setting", () => {
+    expect(resolveProviderAdapter("anthropic", "https://api.anthropic.com/v1").id).toBe(
+      "anthropic",
+    );
+    expect(resolveProviderAdapter("openai", "https://api.openai.com/v1").id).toBe(
+      "openai",
+    );
+    expect(resolveProviderAdapter(undefined, "https://api.anthropic.com/v1").id).toBe(
+      "anthropic",
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, afterAll, beforeAll, vi } from "vitest";
+import {
+  MOCK_BANNED_REPLY,
+  createMockProvider,
+  mockAdapter,
+  mockDirectivesEnabled,
+} from "../providers/mock";
+import { startMockLlmServer, type MockLlmServer } from "../providers/mock-server";
+import { openaiAdapter } from "../providers/openai";
+import { generateResponse } from "../voice-engine";
+
+const call = (content: string, endpoint = "mock://local") => ({
+  endpoint,
+  apiKey: "",
+  model: "mock-1",
+  systemPrompt: "You are Nova.",
+  messages: [{ role: "user", content }],
+  maxTokens: 220,
+});
+
+async function collect(deltas: AsyncIterable<string>) {
+  let text = "";
+  for await (const d of deltas) text += d;
+  return text;
+}
+
+describe("mock provider: deterministic replies without a network", () => {
+  it("answers the same input the same way", async () => {
+    const a = await mockAdapter.complete(call("I had a long day."));
+    const b = await mockAdapter.complete(call("I had a long day."));
+    expect(a).toEqual(b);
+    expect(a.ok).toBe(true);
+  });
+
+  it("emits banned phrases on demand, which the voice engine then strips", async () => {
+    const raw = await mockAdapter.complete(call("[mock:banned] rough week"));
+    expect(raw).toEqual({ ok: true, content: MOCK_BANNED_REPLY });
+
+    const result = await generateResponse({
+      mode: "quiet",
+      systemPrompt: "You are Nova.",
+      messages: [{ role: "user", content: "[mock:banned] rough week" }],
+      callModel: async (msgs, sys) => {
+        const r = await mockAdapter.complete({
+          ...call(""),
+          messages: msgs,
+          systemPrompt: sys,
+        });
+        return r.ok ? r.content : "";
+      },
+    });
+    expect(result.rewritten).toBe(true);
+    expect(result.response.toLowerCase()).not.toContain(
+      "tell me how that makes you feel",
+    );
+  });
+
+  it("returns upstream errors and waits for requested latency", async () => {
+    const started = Date.now();
+    const res = await mockAdapter.complete(call("[mock:latency=40][mock:error=503]"));
+    expect(Date.now() - started).toBeGreaterThanOrEqual(35);
+    expect(res).toMatchObject({ ok: false, status: 503 });
+  });
+
+  it("leaves no abort listener behind once the latency has passed", async () => {
+    const { signal } = new AbortController();
+    const added = vi.spyOn(signal, "addEventListener");
+    const removed = vi.spyOn(signal, "removeEventListener");
+    await mockAdapter.complete({ ...call("[mock:latency=5] hi"), signal });
+    await mockAdapter.complete({ ...call("[mock:latency=5] hi"), signal });
+    expect(added).toHaveBeenCalledTimes(2);
+    expect(removed.mock.calls).toEqual(added.mock.calls.map(([type, fn]) => [type, fn]));
+  });
+
+  it("plays a script in order, then falls back to rules", async () => {
+    const mock = createMockProvider();
+    mock.setScript([{ reply: "One." }, { error: { status: 429 } }]);
+    expect(await mock.complete(call("x"))).toEqual({ ok: true, content: "One." });
+    expect(await mock.complete(call("x"))).toMatchObject({
+      ok: false,
+      status: 429,
+    });
+
+    const streamed = await mockAdapter.stream(call("[mock:long]"));
+    expect(streamed.ok).toBe(true);
+    if (streamed.ok) {
+      expect((await collect(streamed.deltas)).split(". ").length).toBe(8);
+    }
+  });
+
+  it("ignores scripts and directives outside tests unless enabled", async () => {
+    expect(mockDirectivesEnabled({ NODE_ENV: "production" })).toBe(false);
+    expect(
+      mockDirectivesEnabled({ NODE_ENV: "production", NOVA_MOCK_DIRECTIVES: "1" }),
+    ).toBe(true);
+
+    // Demo mode: a user typing directives still gets a plain presence line
+    const demo = createMockProvider({ directives: false });
+    demo.setScript([{ reply: "Scripted." }]);
+    const res = await demo.complete(call("[mock:error=503][mock:reply=Pwned] hi"));
+    expect(res).toEqual({ ok: true, content: expect.any(String) });
+    expect(JSON.stringify(res)).not.toMatch(/Scripted|Pwned/);
+  });
+});
+
+describe("mock HTTP stub: OpenAI-compatible, same rules", () => {
+  let server: MockLlmServer;
+
+  beforeAll(async () => {
+    server = await startMockLlmServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it("serves buffered and streamed completions through the real adapter", async () => {
+    const buffered = await openaiAdapter.complete(
+      call("[mock:reply=Hello there.]", server.url),
+    );
+    expect(buffered).toEqual({ ok: true, content: "Hello there." });
+
+    const streamed = await openaiAdapter.stream(call("[mock:long]", server.url));
+    expect(streamed.ok).toBe(true);
+    if (streamed.ok)
+      expect(await collect(streamed.deltas)).toContain("Eighth, that's all.");
+
+    const failed = await openaiAdapter.complete(call("[mock:error=502]", server.url));
+    expect(failed).toMatchObject({ ok: false, status: 502 });
+  });
+});
@@ -0,0 +1,101 @@
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+// Regenerate: a fresh turn over the same history, earlier replies kept as alternates.
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+let testApp: TestApp;
+let app: Express;
+let storage: MemoryStorage;
+let getLastDecision: typeof import("../telemetry/decision-log").getLastDecision;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  ({ app, storage } = testApp);
+  ({ getLastDecision } = await import("../telemetry/decision-log"));
+});
+
+afterAll(() => testApp.close());
+
+async function startConversation() {
+  const seeded = storage.seedUser();
+  testApp.setMockUser(seeded.userId);
+  const turn = await request(app)
+    .post(`/api/conversations/${seeded.conversationId}/turn`)
+    .send({ content: "I spent the afternoon repotting plants and it felt good." });
+  expect(turn.status).toBe(200);
+  return { ...seeded, turn: turn.body };
+}
+
+describe("regenerate the last reply", () => {
+  it("keeps the earlier reply as an alternate, each with its own requestId", async () => {
+    const { userId, conversationId, turn } = await startConversation();
+    const first = turn.assistantMessage;
+    expect(first.requestId).toBe(getLastDecision(userId)?.requestId);
+
+    const res = await request(app)
+      .post(`/api/conversations/${conversationId}/messages/${first.id}/regenerate`)
+      .send({});
+    expect(res.status).toBe(200);
+
+    const regenerated = res.body.assistantMessage;
+    const decision = getLastDecision(userId);
+    expect(regenerated.id).toBe(first.id);
+    expect(regenerated.alternates).toHaveLength(2);
+    expect(regenerated.alternates[0]).toMatchObject({
+      content: first.content,
+      requestId: first.requestId,
+    });
+    expect(regenerated.alternateIndex).toBe(1);
+    expect(regenerated.content).toBe(regenerated.alternates[1].content);
+    expect(regenerated.requestId).toBe(decision?.requestId);
+    expect(regenerated.requestId).not.toBe(first.requestId);
+    expect(decision?.modelCallCount).toBe(1);
+  });
+
+  it("makes the chosen alternate the history later turns see", async () => {
+    const { userId, conversationId, turn } = await startConversation();
+    const first = turn.assistantMessage;
+    await request(app)
+      .post(`/api/conversations/${conversationId}/messages/${first.id}/regenerate`)
+      .send({});
+
+    const res = await request(app)
+      .patch(`/api/conversations/${conversationId}/messages/${first.id}/alternate`)
+      .send({ index: 0 });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      content: first.content,
+      requestId: first.requestId,
+      alternateIndex: 0,
+    });
+
+    const history = await storage.getMessages(conversationId, userId);
+    expect(history?.map((m) => m.content)).toEqual([
+      turn.userMessage.content,
+      first.content,
+    ]);
+
+    const bad = await request(app)
+      .patch(`/api/conversations/${conversationId}/messages/${first.id}/alternate`)
+      .send({ index: 5 });
+    expect(bad.status).toBe(400);
+  });
+
+  it("only regenerates the last assistant message", async () => {
+    const { conversationId, turn } = await startConversation();
+    const res = await request(app)
+      .post(
+        `/api/conversations/${conversationId}/messages/${turn.userMessage.id}/regenerate`,
+      )
+      .send({});
+    expect(res.status).toBe(409);
+  });
+});
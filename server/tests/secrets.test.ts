@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { randomBytes } from "crypto";
+import { ProviderKeyError, resolveProviderApiKey } from "../provider-keys";
+import {
+  decryptSecret,
+  encryptSecret,
+  isSecretStoreConfigured,
+  lastFour,
+  SecretStoreError,
+} from "../secrets";
+
+vi.mock("../storage", () => ({
+  storage: {
+    getProviderKey: async () => ({ provider: "anthropic", encryptedKey: "v1:bad:row:x" }),
+  },
+}));
+
+describe("secrets: provider keys are encrypted at rest", () => {
+  const original = process.env.NOVA_MASTER_KEY;
+
+  beforeEach(() => {
+    process.env.NOVA_MASTER_KEY = randomBytes(32).toString("hex");
+  });
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.NOVA_MASTER_KEY;
+    else process.env.NOVA_MASTER_KEY = original;
+  });
+
+  it("round-trips without the plaintext appearing in the payload", () => {
+    const payload = encryptSecret("sk-test-1234567890abcd", "provider-key:u1:openai");
+    expect(payload.startsWith("v1:")).toBe(true);
+    expect(payload).not.toContain("sk-test");
+    expect(decryptSecret(payload, "provider-key:u1:openai")).toBe(
+      "sk-test-1234567890abcd",
+    );
+    expect(lastFour("sk-test-1234567890abcd")).toBe("abcd");
+  });
+
+  it("refuses a payload copied to another user or provider", () => {
+    const payload = encryptSecret("sk-test-secret", "provider-key:u1:openai");
+    expect(() => decryptSecret(payload, "provider-key:u2:openai")).toThrow(
+      SecretStoreError,
+    );
+    expect(() => decryptSecret(payload, "provider-key:u1:anthropic")).toThrow(
+      SecretStoreError,
+    );
+  });
+
+  it("refuses to decrypt under a different master key", () => {
+    const payload = encryptSecret("sk-test-secret", "ctx");
+    process.env.NOVA_MASTER_KEY = randomBytes(32).toString("base64");
+    expect(() => decryptSecret(payload, "ctx")).toThrow(SecretStoreError);
+  });
+
+  it("reports the store as unconfigured without a valid master key", () => {
+    delete process.env.NOVA_MASTER_KEY;
+    expect(isSecretStoreConfigured()).toBe(false);
+    expect(() => encryptSecret("x", "ctx")).toThrow(SecretStoreError);
+
+    process.env.NOVA_MASTER_KEY = "too-short";
+    expect(isSecretStoreConfigured()).toBe(false);
+  });
+});
+
+describe("secrets: stored provider keys", () => {
+  it("reports an unreadable key instead of treating it as missing", async () => {
+    await expect(resolveProviderApiKey("u1", "anthropic")).rejects.toThrow(
+      ProviderKeyError,
+    );
+  });
+});
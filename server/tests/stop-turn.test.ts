@@ -0,0 +1,163 @@
+import type { Express } from "express";
+import type { AddressInfo } from "net";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+// Stop button: the server cancels the model call, logs the turn as aborted and
+// saves no reply unless the user keeps what had streamed.
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+let testApp: TestApp;
+let app: Express;
+let baseUrl = "";
+let storage: MemoryStorage;
+let getLastDecision: typeof import("../telemetry/decision-log").getLastDecision;
+
+beforeAll(async () => {
+  testApp = await createTestApp();
+  ({ app, storage } = testApp);
+  const { httpServer } = testApp;
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  ({ getLastDecision } = await import("../telemetry/decision-log"));
+});
+
+afterAll(() => testApp.close());
+
+// A streamed turn read one SSE event at a time.
+async function openStream(url: string, body: Record<string, unknown> = {}) {
+  const res = await fetch(`${baseUrl}${url}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  return async function next(): Promise<{ event: string; data: any }> {
+    while (!buffer.includes("\n\n")) {
+      const { done, value } = await reader.read();
+      if (done) throw new Error("stream ended");
+      buffer += decoder.decode(value, { stream: true });
+    }
+    const block = buffer.slice(0, buffer.indexOf("\n\n"));
+    buffer = buffer.slice(block.length + 2);
+    return {
+      event: block.match(/^event: (.*)$/m)![1],
+      data: JSON.parse(block.match(/^data: (.*)$/m)![1]),
+    };
+  };
+}
+
+const openTurn = (conversationId: string, content: string) =>
+  openStream(`/api/conversations/${conversationId}/turn`, { content });
+
+const STALLED = "[mock:reply=Rain all week. The garden loves it.][mock:stall=5000]";
+
+describe("stop a running turn", () => {
+  it("aborts the model call and saves nothing by default", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const next = await openTurn(conversationId, STALLED);
+
+    const start = await next();
+    expect(start.event).toBe("start");
+    expect(await next()).toMatchObject({ event: "delta" });
+
+    const stop = await request(app).post(`/api/turns/${start.data.requestId}/stop`);
+    expect(stop.status).toBe(200);
+
+    let last = await next();
+    while (last.event === "delta") last = await next();
+    expect(last).toMatchObject({ event: "error", data: { type: "aborted" } });
+    expect(getLastDecision(userId)).toMatchObject({
+      requestId: start.data.requestId,
+      status: "aborted",
+    });
+    const saved = await storage.getMessages(conversationId, userId);
+    expect(saved?.map((m) => m.role)).toEqual(["user"]);
+
+    const again = await request(app).post(`/api/turns/${start.data.requestId}/stop`);
+    expect(again.status).toBe(404);
+  });
+
+  it("keeps the streamed part only when asked", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const next = await openTurn(conversationId, STALLED);
+    const { requestId } = (await next()).data;
+    await next();
+    await request(app).post(`/api/turns/${requestId}/stop`);
+    while ((await next()).event !== "error");
+
+    const keep = await request(app).post(
+      `/api/conversations/${conversationId}/turns/${requestId}/keep`,
+    );
+    expect(keep.status).toBe(200);
+    expect(keep.body.assistantMessage).toMatchObject({
+      content: "Rain all week.",
+      requestId,
+    });
+    const twice = await request(app).post(
+      `/api/conversations/${conversationId}/turns/${requestId}/keep`,
+    );
+    expect(twice.status).toBe(404);
+  });
+
+  it("stops a regenerate too, keeping its part only as an alternate", async () => {
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const turn = await request(app)
+      .post(`/api/conversations/${conversationId}/turn`)
+      .send({ content: STALLED });
+    const reply = turn.body.assistantMessage;
+    const errors = vi.spyOn(console, "error");
+
+    const next = await openStream(
+      `/api/conversations/${conversationId}/messages/${reply.id}/regenerate`,
+    );
+    const start = await next();
+    expect(start.event).toBe("start");
+    await next();
+    await request(app).post(`/api/turns/${start.data.requestId}/stop`);
+    while ((await next()).event !== "error");
+    expect(getLastDecision(userId)).toMatchObject({
+      requestId: start.data.requestId,
+      status: "aborted",
+    });
+    // A stop is not a failure
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+    const [, unchanged] = (await storage.getMessages(conversationId, userId)) ?? [];
+    expect(unchanged).toMatchObject({ content: reply.content, alternates: [] });
+
+    const keep = await request(app).post(
+      `/api/conversations/${conversationId}/turns/${start.data.requestId}/keep`,
+    );
+    expect(keep.body.assistantMessage).toMatchObject({
+      id: reply.id,
+      content: "Rain all week.",
+      alternateIndex: 1,
+    });
+  });
+
+  it("only stops the user's own turns", async () => {
+    const owner = storage.seedUser();
+    testApp.setMockUser(owner.userId);
+    const next = await openTurn(owner.conversationId, "[mock:latency=5000] slow one");
+    const { requestId } = (await next()).data;
+
+    testApp.setMockUser(storage.seedUser().userId);
+    expect((await request(app).post(`/api/turns/${requestId}/stop`)).status).toBe(404);
+
+    testApp.setMockUser(owner.userId);
+    await request(app).post(`/api/turns/${requestId}/stop`);
+    expect(await next()).toMatchObject({ event: "error", data: { type: "aborted" } });
+  });
+});
@@ -0,0 +1,97 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import { costForTokens, loadPriceTable, priceForModel } from "../pricing";
+import { parseAnthropicUsage } from "../providers/anthropic";
+import { parseOpenAIUsage } from "../providers/openai";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+describe("usage accounting: provider counts", () => {
+  it("reads usage from OpenAI and Anthropic responses", () => {
+    expect(
+      parseOpenAIUsage({ usage: { prompt_tokens: 120, completion_tokens: 30 } }),
+    ).toEqual({ promptTokens: 120, completionTokens: 30 });
+    expect(
+      parseAnthropicUsage({ usage: { input_tokens: 90, output_tokens: 12 } }),
+    ).toEqual({ promptTokens: 90, completionTokens: 12 });
+  });
+
+  it("reports nothing when the upstream sends no usage", () => {
+    expect(parseOpenAIUsage({ choices: [] })).toBeUndefined();
+    expect(parseAnthropicUsage(null)).toBeUndefined();
+  });
+});
+
+describe("usage accounting: price table", () => {
+  it("prices by longest model-name prefix", () => {
+    expect(priceForModel("gpt-4o-mini-2024-07-18")).toEqual({ input: 0.15, output: 0.6 });
+    expect(priceForModel("gpt-4-0613")).toEqual({ input: 30, output: 60 });
+    expect(priceForModel("llama3")).toBeNull();
+  });
+
+  it("computes USD cost per turn, null for unpriced models", () => {
+    expect(costForTokens("gpt-4", 1000, 500)).toBeCloseTo(0.06, 10);
+    expect(costForTokens("mock-1", 5000, 5000)).toBe(0);
+    expect(costForTokens("llama3", 1000, 500)).toBeNull();
+  });
+
+  it("merges operator prices from a JSON file and skips bad entries", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "nova-prices-"));
+    const file = path.join(dir, "prices.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        prices: {
+          Llama3: { input: 0.1, output: 0.2 },
+          "gpt-4": { input: 1, output: 2 },
+          broken: { input: -1, output: "x" },
+        },
+      }),
+    );
+
+    const table = loadPriceTable({ NOVA_PRICES_FILE: file });
+    expect(priceForModel("llama3:8b", table)).toEqual({ input: 0.1, output: 0.2 });
+    expect(priceForModel("gpt-4", table)).toEqual({ input: 1, output: 2 });
+    expect(priceForModel("broken", table)).toBeNull();
+    expect(costForTokens("llama3", 1_000_000, 1_000_000, table)).toBeCloseTo(0.3, 10);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe("usage accounting: recorded turns", () => {
+  let testApp: TestApp;
+  let app: Express;
+  let storage: MemoryStorage;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+    ({ app, storage } = testApp);
+  });
+
+  afterAll(() => testApp.close());
+
+  it("books a demo-mode turn to the mock model, not the selected one", async () => {
+    // gpt-4 is selected, but with no key the offline adapter answers
+    const { userId, conversationId } = storage.seedUser();
+    testApp.setMockUser(userId);
+    const recorded = vi.spyOn(storage, "recordTurnUsage");
+
+    const turn = await request(app)
+      .post(`/api/conversations/${conversationId}/turn`)
+      .send({ content: "I spent the afternoon repotting plants and it felt good." });
+    expect(turn.body.mock).toBe(true);
+    expect(recorded).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "mock-1", costUsd: 0 }),
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import { generateResponseStream } from "../voice-engine";
+
+function chunked(text: string, size = 3) {
+  return async function* () {
+    for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size);
+  };
+}
+
+describe("voice-engine: streaming keeps the buffered guarantees", () => {
+  it("never emits a banned phrase, and every delta survives into the final text", async () => {
+    const streamModel = vi.fn(
+      chunked("That sounds heavy. Tell me how that makes you feel. I'm here."),
+    );
+    const deltas: string[] = [];
+
+    const result = await generateResponseStream({
+      mode: "quiet",
+      systemPrompt: "You are Nova.",
+      messages: [{ role: "user", content: "I'm stressed today." }],
+      streamModel,
+      onDelta: (d) => deltas.push(d),
+    });
+
+    expect(streamModel).toHaveBeenCalledTimes(1);
+    expect(result.rewritten).toBe(true);
+    expect(result.reason).toBe("sanitized_banned_phrase:tell me how that makes you feel");
+
+    // Nothing shown is ever retracted: the deltas ARE the final reply.
+    expect(deltas.join("")).toBe(result.response);
+    for (const d of deltas) {
+      expect(d.toLowerCase()).not.toContain("tell me how that makes you feel");
+    }
+    expect(result.response).toBe("That sounds heavy. I'm here.");
+  });
+
+  it("applies the sentence cap incrementally and stops reading upstream", async () => {
+    let pulled = 0;
+    const streamModel = async function* () {
+      for (const s of ["One. ", "Two. ", "Three. ", "Four. "]) {
+        pulled++;
+        yield s;
+      }
+    };
+    const deltas: string[] = [];
+
+    const result = await generateResponseStream({
+      mode: "quiet",
+      systemPrompt: "",
+      messages: [{ role: "user", content: "I'm tired tonight" }],
+      streamModel,
+      onDelta: (d) => deltas.push(d),
+    });
+
+    expect(result.response).toBe("One. Two.");
+    expect(deltas.join("")).toBe(result.response);
+    expect(pulled).toBeLessThan(4);
+  });
+
+  it("answers local short-circuits instantly without a model stream", async () => {
+    const streamModel = vi.fn(chunked("should not be used"));
+    const deltas: string[] = [];
+
+    const result = await generateResponseStream({
+      mode: "quiet",
+      systemPrompt: "",
+      messages: [{ role: "user", content: "hey" }],
+      streamModel,
+      onDelta: (d) => deltas.push(d),
+    });
+
+    expect(streamModel).not.toHaveBeenCalled();
+    expect(result.shortCircuited).toBe(true);
+    expect(deltas).toEqual([result.response]);
+  });
+});
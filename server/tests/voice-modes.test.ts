@@ -0,0 +1,128 @@
+import type { Express } from "express";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { CustomVoiceMode } from "@shared/schema";
+import { buildEnhancedSystemPrompt } from "../voice-engine";
+import {
+  BUILT_IN_VOICE_MODES,
+  customVoiceModeProfile,
+  customVoiceModeSchema,
+  resolveVoiceMode,
+} from "../voice-modes";
+import type { MemoryStorage } from "./fixtures/memory-storage";
+import { createTestApp, type TestApp } from "./fixtures/test-app";
+
+vi.mock("../storage", async () => {
+  const { createMemoryStorage } = await import("./fixtures/memory-storage");
+  return { storage: createMemoryStorage() };
+});
+
+function customMode(overrides: Partial<CustomVoiceMode> = {}): CustomVoiceMode {
+  return {
+    id: "11111111-1111-4111-8111-111111111111",
+    userId: "u1",
+    name: "Lighthouse",
+    maxSentences: 3,
+    allowQuestionsOnGreeting: false,
+    warmthBias: 50,
+    greetingResponses: ["Light's on."],
+    instructions: "Speak with subtle weight and presence, as if each word matters.",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("voice modes: custom modes render like built-ins", () => {
+  it("produces the built-in prompt when a custom mode copies a built-in", () => {
+    const copy = customVoiceModeProfile(customMode({ name: "Mythic" }));
+    expect(buildEnhancedSystemPrompt("Base.", copy)).toBe(
+      buildEnhancedSystemPrompt("Base.", "mythic"),
+    );
+  });
+
+  it("renders the knobs and each instruction line", () => {
+    const prompt = buildEnhancedSystemPrompt(
+      "Base.",
+      customVoiceModeProfile(
+        customMode({
+          maxSentences: 1,
+          allowQuestionsOnGreeting: true,
+          warmthBias: 90,
+          instructions: "Use nautical words.\n\n- Never mention storms.",
+        }),
+      ),
+    );
+    expect(prompt).toContain("Default to 1 sentence maximum");
+    expect(prompt).toContain(
+      "You may ask brief questions only when the user provides context.",
+    );
+    expect(prompt).toContain("Warmth level: 90% - warm and engaged");
+    expect(prompt).toMatch(
+      /- Mode: Lighthouse\n- Use nautical words\.\n- Never mention storms\.$/,
+    );
+  });
+
+  it("falls back to quiet for a mode that no longer exists", () => {
+    expect(resolveVoiceMode("blunt").id).toBe("blunt");
+    expect(resolveVoiceMode(customMode().id, [customMode()]).name).toBe("Lighthouse");
+    expect(resolveVoiceMode(customMode().id, [])).toBe(BUILT_IN_VOICE_MODES.quiet);
+  });
+
+  it("validates mode definitions", () => {
+    const valid = {
+      name: "Lighthouse",
+      maxSentences: 3,
+      allowQuestionsOnGreeting: false,
+      warmthBias: 50,
+      greetingResponses: ["Light's on."],
+    };
+    expect(customVoiceModeSchema.safeParse(valid).success).toBe(true);
+    for (const bad of [
+      { ...valid, name: "Quiet" },
+      { ...valid, warmthBias: 150 },
+      { ...valid, maxSentences: 0 },
+      { ...valid, greetingResponses: [] },
+    ]) {
+      expect(customVoiceModeSchema.safeParse(bad).success, JSON.stringify(bad)).toBe(
+        false,
+      );
+    }
+  });
+});
+
+describe("voice modes: selected custom mode drives a chat turn", () => {
+  let testApp: TestApp;
+  let app: Express;
+  let storage: MemoryStorage;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+    ({ app, storage } = testApp);
+  });
+
+  afterAll(() => testApp.close());
+
+  it("answers a greeting from the custom mode's pool", async () => {
+    const seeded = storage.seedUser({
+      customVoiceMode: { name: "Lighthouse", greetingResponses: ["Light's on."] },
+    });
+    testApp.setMockUser(seeded.userId);
+    const res = await request(app)
+      .post(`/api/conversations/${seeded.conversationId}/turn`)
+      .send({ content: "hey" });
+    expect(res.status).toBe(200);
+    expect(res.body.assistantMessage.content).toBe("Light's on.");
+    expect(res.body.voiceEngine.mode).toBe(
+      (await storage.getSettings(seeded.userId))?.voiceMode,
+    );
+  });
+
+  it("rejects selecting a mode the user does not own", async () => {
+    testApp.setMockUser(storage.seedUser().userId);
+    const res = await request(app)
+      .patch("/api/settings")
+      .send({ voiceMode: customMode().id });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Chat turns in flight, so the Stop button can cancel one on the server (a dropped
+ * connection cancels it too). When a stopped turn had already streamed some text,
+ * that text is held here for a while in case the user asks to keep it; it is never
+ * saved on its own. Process memory only: a restart forgets both.
+ */
+
+export const STOPPED_TURN_TTL_MS = 10 * 60_000;
+
+interface TurnOwner {
+  userId: string;
+  conversationId: string;
+  // Where a kept reply goes: a new reply under the user message, or for a regenerate
+  // another alternate of the reply being regenerated.
+  keepAs: { userMessageId: string } | { regeneratedMessageId: string };
+}
+
+export interface StoppedTurn extends TurnOwner {
+  content: string;
+  stoppedAt: number;
+}
+
+const inFlight = new Map<string, TurnOwner & { controller: AbortController }>();
+const stopped = new Map<string, StoppedTurn>();
+
+function purgeExpired(now = Date.now()) {
+  for (const [requestId, turn] of Array.from(stopped.entries())) {
+    if (now - turn.stoppedAt > STOPPED_TURN_TTL_MS) stopped.delete(requestId);
+  }
+}
+
+// Register a running turn. `controller` is the one whose signal the model call uses.
+export function trackTurn(
+  requestId: string,
+  owner: TurnOwner,
+  controller: AbortController,
+) {
+  inFlight.set(requestId, { ...owner, controller });
+  let streamed = "";
+  return {
+    onDelta: (text: string) => {
+      streamed += text;
+    },
+    // `aborted`: keep what was streamed so far for a possible "keep partial reply".
+    finish: (aborted: boolean) => {
+      inFlight.delete(requestId);
+      if (aborted && streamed.trim()) {
+        purgeExpired();
+        stopped.set(requestId, {
+          ...owner,
+          content: streamed.trim(),
+          stoppedAt: Date.now(),
+        });
+      }
+    },
+  };
+}
+
+// Cancel the user's running turn. False when it is not running (already finished,
+// already stopped, or someone else's).
+export function stopTurn(requestId: string, userId: string): boolean {
+  const turn = inFlight.get(requestId);
+  if (!turn || turn.userId !== userId) return false;
+  turn.controller.abort();
+  return true;
+}
+
+// The text a stopped turn had streamed, removed once taken.
+export function takeStoppedTurn(requestId: string, userId: string): StoppedTurn | null {
+  purgeExpired();
+  const turn = stopped.get(requestId);
+  if (!turn || turn.userId !== userId) return null;
+  stopped.delete(requestId);
+  return turn;
+}
@@ -1,102 +1,21 @@
 import type { VoiceMode } from "@shared/schema";
-
-// Response style configuration per mode
-interface ResponseStyle {
-  maxSentences: number;
-  allowQuestionsOnGreeting: boolean;
-  warmthBias: number; // 0-100
-}
-
-// Mode configurations
-const MODE_STYLES: Record<VoiceMode, ResponseStyle> = {
-  quiet: {
-    maxSentences: 2,
-    allowQuestionsOnGreeting: false,
-    warmthBias: 40,
-  },
-  engaged: {
-    maxSentences: 4,
-    allowQuestionsOnGreeting: true,
-    warmthBias: 70,
-  },
-  mythic: {
-    maxSentences: 3,
-    allowQuestionsOnGreeting: false,
-    warmthBias: 50,
-  },
-  blunt: {
-    maxSentences: 2,
-    allowQuestionsOnGreeting: false,
-    warmthBias: 20,
-  },
-};
-
-// Banned phrases that violate Nova's voice
-const BANNED_PHRASES = [
-  "tell me how that makes you feel",
-  "that's a thoughtful observation",
-  "i'm here to help",
-  "how does that make you feel",
-  "what a great question",
-  "that's a great point",
-  "i understand how you feel",
-  "it sounds like you're feeling",
-  "i hear what you're saying",
-  "thank you for sharing",
-  "i'm glad you shared that",
-  "that's understandable",
-  "that must be difficult",
-  "i can imagine",
-  "let's explore that",
-  "let's unpack that",
-  "it sounds like",
-  "i'm sorry you're going through",
-  "you are valid",
-];
-
-// Conditional banned phrases (allowed only if user asked about capabilities)
-const CONDITIONAL_BANNED_PHRASES = [
-  "as an ai",
-  "as an artificial intelligence",
-];
-
-// Greeting patterns
-const GREETING_PATTERNS = /^(hi|hey|hello|yo|sup|heya|hiya|howdy)[\s!.,]*$/i;
-
-// Casual presence questions
-const CASUAL_PROBE_PATTERNS = [
-  /^(you there|are you there)\??$/i,
-  /^what('?re| are) you (doing|up to)\??$/i,
-  /^(whatcha|watcha) (doing|doin)\??$/i,
-];
-
-// Presence responses for greetings (no questions)
-const GREETING_RESPONSES = [
-  "Hey.",
-  "Hi.",
-  "Mm.",
-  "Yeah.",
-  "I'm here.",
-  "Here.",
-  "Hey—I'm here.",
-];
-
-// Mode-specific greeting responses
-const MODE_GREETING_RESPONSES: Record<VoiceMode, string[]> = {
-  quiet: GREETING_RESPONSES,
-  engaged: ["Hey.", "Hi.", "I'm here.", "Yeah—I'm here.", "Hey, I'm here."],
-  mythic: ["I’m here.", "I’m with you.", "Here.", "Still here."],
-  blunt: ["Yeah.", "Here.", "I'm here."],
-};
-
-// Responses for ellipsis-only messages
-const ELLIPSIS_RESPONSES = ["…", "Mm.", "I’m here.", "Still here."];
-
-// Responses for ultra-short inputs (single word / very short)
-const ULTRA_SHORT_RESPONSES = ["Yeah.", "Mm.", "Got it.", "Okay."];
-
-// Responses for casual probes (presence check)
-const CASUAL_PROBE_RESPONSES = ["Yeah.", "I’m here.", "Here.", "I’m here with you."];
+import {
+  commitCooldownWrites,
+  cooldownScopeKey,
+  isGreeting,
+  recordCooldownReads,
+  runGatePipeline,
+  type GateId,
+  type GateOutcome,
+  type GateSession,
+} from "./gates";
+import {
+  DEFAULT_PHRASE_ENTRIES,
+  findPhrase,
+  stripPhrase,
+  type PhraseEntry,
+} from "./phrase-lists";
+import { toVoiceModeProfile, type VoiceModeProfile } from "./voice-modes";
 
 // Detect if user asked about AI nature/capabilities
 function isAskingAboutCapabilities(message: string): boolean {
@@ -113,51 +32,6 @@ function isAskingAboutCapabilities(message: string): boolean {
   );
 }
 
-// Detect banned phrase presence (returns the matched phrase or null)
-function containsBannedPhrase(
-  response: string,
-  userAskedAboutCapabilities: boolean,
-): string | null {
-  const lower = response.toLowerCase();
-
-  for (const phrase of BANNED_PHRASES) {
-    if (lower.includes(phrase)) return phrase;
-  }
-
-  if (!userAskedAboutCapabilities) {
-    for (const phrase of CONDITIONAL_BANNED_PHRASES) {
-      if (lower.includes(phrase)) return phrase;
-    }
-  }
-
-  return null;
-}
-
-// Simple greeting detection
-function isGreeting(message: string): boolean {
-  return GREETING_PATTERNS.test(message.trim());
-}
-
-// Ellipsis-only detection
-function isEllipsisOnly(message: string): boolean {
-  const trimmed = message.trim();
-  return trimmed === "..." || trimmed === "…";
-}
-
-// Ultra-short detection (<= 2 words or <= 6 characters)
-function isUltraShort(message: string): boolean {
-  const trimmed = message.trim();
-  if (trimmed.length === 0) return false;
-  const words = trimmed.split(/\s+/).filter(Boolean);
-  return words.length <= 2 && trimmed.length <= 6;
-}
-
-// Casual probe detection
-function isCasualProbe(message: string): boolean {
-  const trimmed = message.trim();
-  return CASUAL_PROBE_PATTERNS.some((re) => re.test(trimmed));
-}
-
 // Count sentences roughly
 function countSentences(text: string): number {
   const matches = text.trim().match(/[.!?]+/g);
@@ -181,11 +55,6 @@ function truncateToMaxSentences(text: string, maxSentences: number): string {
   return result.trim();
 }
 
-// Random choice helper
-function randomChoice<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
 // Determine if user has provided context (meaningful length/questions)
 function hasUserProvidedContext(
   messages: Array<{ role: string; content: string }>,
@@ -208,13 +77,17 @@ function hasUserProvidedContext(
 }
 
 export interface VoiceEngineInput {
-  mode: VoiceMode;
+  mode: VoiceMode | VoiceModeProfile; // built-in name or a resolved (possibly custom) mode
   systemPrompt: string;
   messages: Array<{ role: string; content: string }>;
   callModel: (
     messages: Array<{ role: string; content: string }>,
     systemPrompt: string,
   ) => Promise<string>;
+  // Per-user gate state (cooldowns, memories). Without it only stateless gates run.
+  gates?: GateSession;
+  // Sanitizer entries in force (see resolvePhraseList); built-in defaults when absent.
+  phrases?: PhraseEntry[];
 }
 
 export interface VoiceEngineOutput {
@@ -223,15 +96,33 @@ export interface VoiceEngineOutput {
   rewritten: boolean;
 
   // Stage 4: gate decision visibility (observability-only)
-  stage?: string; // "stage1_local_short_circuit" | "llm_call"
-  reason?: string; // "greeting" | "ellipsis" | "ultra_short" | "casual_probe" | "sanitized_banned_phrase:<phrase>" | null
+  stage?: string; // GateStage of the gate that answered, or "llm_call"
+  reason?: string; // gate id | "sanitized_banned_phrase:<pattern>" | undefined
+  gateId?: GateId; // gate that answered locally
+  gateChain?: GateId[]; // e.g. ["continuity", "reflection"]
+  memoryReadCount?: number;
+  memoryIds?: string[]; // memories the reply cites (Stage 3 continuity)
+  sanitizedBy?: PhraseEntry[]; // list entries stripped from the reply, in order
+}
+
+export interface VoiceEngineStreamInput extends Omit<VoiceEngineInput, "callModel"> {
+  streamModel: (
+    messages: Array<{ role: string; content: string }>,
+    systemPrompt: string,
+  ) => AsyncIterable<string>;
+  onDelta: (text: string) => void;
 }
 
 export function buildEnhancedSystemPrompt(
   basePrompt: string,
-  mode: VoiceMode,
+  mode: VoiceMode | VoiceModeProfile,
 ): string {
-  const style = MODE_STYLES[mode];
+  const style = toVoiceModeProfile(mode);
+  const instructions = style.instructions
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => (line.startsWith("- ") ? line : `- ${line}`));
 
   const voiceRules = `
 
@@ -255,37 +146,94 @@ export function buildEnhancedSystemPrompt(
         ? "subtly warm"
         : "warm and engaged"
   }
-- Mode: ${mode.charAt(0).toUpperCase() + mode.slice(1)}
-${mode === "mythic" ? "- Speak with subtle weight and presence, as if each word matters." : ""}
-${mode === "blunt" ? "- Be direct and minimal. No fluff." : ""}`;
+- Mode: ${style.name}${instructions.length ? `\n${instructions.join("\n")}` : ""}`;
 
   return basePrompt + voiceRules;
 }
 
 /**
- * Sanitize a response that contains a banned phrase.
+ * Sanitize a response that contains banned phrases.
  * IMPORTANT: This must be deterministic and MUST NOT call the model.
  * This preserves the "single causal chain" rule (one model call per user turn).
  */
-function escapeRegExp(input: string): string {
-  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+export function sanitizeReply(
+  response: string,
+  phrases: PhraseEntry[],
+  lastUserMessage: string,
+): { response: string; sanitizedBy: PhraseEntry[] } {
+  const userAskedAboutCapabilities = isAskingAboutCapabilities(lastUserMessage);
+  const sanitizedBy: PhraseEntry[] = [];
+  let text = response;
+
+  let entry = findPhrase(text, phrases, userAskedAboutCapabilities);
+  while (entry && !sanitizedBy.includes(entry)) {
+    sanitizedBy.push(entry);
+    text = stripPhrase(text, entry);
+    entry = findPhrase(text, phrases, userAskedAboutCapabilities);
+  }
+
+  // If we removed everything meaningful, fall back to a safe minimal presence line.
+  if (sanitizedBy.length > 0 && text.length === 0) text = "I'm here.";
+
+  return { response: text, sanitizedBy };
 }
 
-function sanitizeBannedPhrase(response: string, bannedPhrase: string): string {
-  const re = new RegExp(escapeRegExp(bannedPhrase), "ig");
-  let sanitized = response.replace(re, "");
+// Turns racing in one conversation: how often a turn re-runs its gates after another
+// turn started a cooldown it had read, before leaving the reply to the model.
+const COOLDOWN_COMMIT_ATTEMPTS = 3;
 
-  // Clean up whitespace/punctuation artifacts from removal
-  sanitized = sanitized.replace(/\s{2,}/g, " ");
-  sanitized = sanitized.replace(/\s+([,.;:!?])/g, "$1");
-  sanitized = sanitized.replace(/([,.;:!?])([A-Za-z])/g, "$1 $2");
-  sanitized = sanitized.trim();
-  sanitized = sanitized.replace(/^[\"\'“”‘’]+|[\"\'“”‘’]+$/g, "").trim();
+// Run the gates and start the cooldowns of the gate that answered. The gates read
+// cooldowns and memories without a lock; only the final check-and-write holds the
+// conversation's lock, and a turn that lost the race runs the gates again.
+async function runSessionGates(
+  mode: VoiceModeProfile,
+  messages: Array<{ role: string; content: string }>,
+  session: GateSession,
+): Promise<GateOutcome | null> {
+  let memories: ReturnType<GateSession["loadMemories"]> | undefined;
+  const loadMemories = () => (memories ??= session.loadMemories());
+  const scopeKey = cooldownScopeKey(session.userId, session.conversationId);
+
+  for (let attempt = 0; attempt < COOLDOWN_COMMIT_ATTEMPTS; attempt++) {
+    const { store, reads } = recordCooldownReads(session.cooldowns);
+    const { outcome } = await runGatePipeline(mode, messages, {
+      ...session,
+      cooldowns: store,
+      loadMemories,
+    });
+    if (!outcome) return null;
+    if (await commitCooldownWrites(session.cooldowns, scopeKey, reads, outcome.cooldownWrites)) {
+      return outcome;
+    }
+  }
+  return null;
+}
 
-  // If we removed everything meaningful, fall back to a safe minimal presence line.
-  if (sanitized.length === 0) return "I'm here.";
+/**
+ * Local gates (no model call), shared by the buffered and streaming paths.
+ * Cooldowns start only when a gate actually answers.
+ */
+async function localShortCircuit(
+  mode: VoiceModeProfile,
+  messages: Array<{ role: string; content: string }>,
+  session?: GateSession,
+): Promise<VoiceEngineOutput | null> {
+  const outcome = session
+    ? await runSessionGates(mode, messages, session)
+    : (await runGatePipeline(mode, messages)).outcome;
+  if (!outcome) return null;
 
-  return sanitized;
+  return {
+    response: outcome.response,
+    shortCircuited: true,
+    rewritten: false,
+    stage: outcome.stage,
+    reason: outcome.gateId,
+    gateId: outcome.gateId,
+    gateChain: outcome.chain,
+    memoryReadCount: outcome.memoryReads,
+    memoryIds: outcome.memoryIds,
+  };
 }
 
 /**
@@ -294,57 +242,16 @@ function sanitizeBannedPhrase(response: string, bannedPhrase: string): string {
 export async function generateResponse(
   input: VoiceEngineInput,
 ): Promise<VoiceEngineOutput> {
-  const { mode, systemPrompt, messages, callModel } = input;
-  const style = MODE_STYLES[mode];
+  const { systemPrompt, messages, callModel, gates } = input;
+  const phrases = input.phrases ?? DEFAULT_PHRASE_ENTRIES;
+  const mode = toVoiceModeProfile(input.mode);
 
   // Get the last user message
   const lastUserMessage =
     messages.filter((m) => m.role === "user").pop()?.content || "";
 
-  // Short-circuit: Simple greeting
-  if (isGreeting(lastUserMessage)) {
-    const greetingResponses = MODE_GREETING_RESPONSES[mode];
-    return {
-      response: randomChoice(greetingResponses),
-      shortCircuited: true,
-      rewritten: false,
-      stage: "stage1_local_short_circuit",
-      reason: "greeting",
-    };
-  }
-
-  // Short-circuit: Ellipsis-only
-  if (isEllipsisOnly(lastUserMessage)) {
-    return {
-      response: randomChoice(ELLIPSIS_RESPONSES),
-      shortCircuited: true,
-      rewritten: false,
-      stage: "stage1_local_short_circuit",
-      reason: "ellipsis",
-    };
-  }
-
-  // Short-circuit: Ultra-short input
-  if (isUltraShort(lastUserMessage)) {
-    return {
-      response: randomChoice(ULTRA_SHORT_RESPONSES),
-      shortCircuited: true,
-      rewritten: false,
-      stage: "stage1_local_short_circuit",
-      reason: "ultra_short",
-    };
-  }
-
-  // Short-circuit: Casual probe
-  if (isCasualProbe(lastUserMessage)) {
-    return {
-      response: randomChoice(CASUAL_PROBE_RESPONSES),
-      shortCircuited: true,
-      rewritten: false,
-      stage: "stage1_local_short_circuit",
-      reason: "casual_probe",
-    };
-  }
+  const local = await localShortCircuit(mode, messages, gates);
+  if (local) return local;
 
   // Build enhanced system prompt
   const enhancedPrompt = buildEnhancedSystemPrompt(systemPrompt, mode);
@@ -352,29 +259,21 @@ export async function generateResponse(
   // Call the model
   let response = await callModel(messages, enhancedPrompt);
 
-  // Post-processing: Check for banned phrases
-  const userAskedAboutCapabilities = isAskingAboutCapabilities(lastUserMessage);
-  const bannedPhrase = containsBannedPhrase(response, userAskedAboutCapabilities);
-
-  let rewritten = false;
-  let reason: string | undefined;
-
-  if (bannedPhrase) {
-    // IMPORTANT: keep a single causal chain per response (no second model call).
-    const sanitized = sanitizeBannedPhrase(response, bannedPhrase);
-    if (sanitized !== response) {
-      response = sanitized;
-      rewritten = true;
-      reason = `sanitized_banned_phrase:${bannedPhrase}`;
-    }
-  }
+  // Post-processing: strip banned phrases.
+  // IMPORTANT: keep a single causal chain per response (no second model call).
+  const sanitized = sanitizeReply(response, phrases, lastUserMessage);
+  const rewritten = sanitized.response !== response;
+  response = sanitized.response;
+  const reason = rewritten
+    ? `sanitized_banned_phrase:${sanitized.sanitizedBy[0].pattern}`
+    : undefined;
 
   // Post-processing: Enforce max sentences (unless user provided context)
   if (
     !hasUserProvidedContext(messages) &&
-    countSentences(response) > style.maxSentences
+    countSentences(response) > mode.maxSentences
   ) {
-    response = truncateToMaxSentences(response, style.maxSentences);
+    response = truncateToMaxSentences(response, mode.maxSentences);
   }
 
   return {
@@ -383,7 +282,137 @@ export async function generateResponse(
     rewritten,
     stage: "llm_call",
     reason,
+    sanitizedBy: rewritten ? sanitized.sanitizedBy : undefined,
+  };
+}
+
+/**
+ * Incremental post-processing for streamed replies.
+ * Text is released one complete sentence at a time, after banned-phrase stripping and the
+ * sentence cap, so the user never sees text that later disappears.
+ */
+function createStreamSanitizer(opts: {
+  maxSentences: number | null; // null = user provided context, no cap
+  userAskedAboutCapabilities: boolean;
+  phrases: PhraseEntry[];
+}) {
+  let buffer = "";
+  let emitted = "";
+  let pendingWs = "";
+  let sentenceCount = 0;
+  let closed = false;
+  const sanitizedBy: PhraseEntry[] = [];
+
+  const release = (raw: string, isSentence: boolean): string => {
+    if (closed) return "";
+
+    const leadingWs = raw.match(/^\s*/)?.[0] ?? "";
+    let text = raw.trim();
+
+    let banned = findPhrase(text, opts.phrases, opts.userAskedAboutCapabilities);
+    while (banned) {
+      if (!sanitizedBy.includes(banned)) sanitizedBy.push(banned);
+      const stripped = stripPhrase(text, banned);
+      if (stripped === text) break;
+      text = stripped;
+      banned = findPhrase(text, opts.phrases, opts.userAskedAboutCapabilities);
+    }
+
+    // Whole sentence was counselor-speak: drop it (and its punctuation) entirely.
+    if (!/[^\s.,;:!?"'“”‘’…—-]/.test(text)) return "";
+
+    if (opts.maxSentences !== null && sentenceCount >= opts.maxSentences) {
+      closed = true;
+      return "";
+    }
+
+    const out = (emitted ? pendingWs + leadingWs || " " : "") + text;
+    emitted += out;
+    pendingWs = "";
+    if (isSentence) sentenceCount++;
+    if (opts.maxSentences !== null && sentenceCount >= opts.maxSentences) closed = true;
+    return out;
+  };
+
+  return {
+    push(delta: string): string {
+      buffer += delta;
+      let out = "";
+      let match: RegExpExecArray | null;
+      while (!closed && (match = /[.!?]+(\s+)/.exec(buffer))) {
+        const end = match.index + match[0].length - match[1].length;
+        out += release(buffer.slice(0, end), true);
+        if (emitted) pendingWs = match[1];
+        buffer = buffer.slice(match.index + match[0].length);
+      }
+      return out;
+    },
+
+    flush(): string {
+      let out = buffer.trim() ? release(buffer, /[.!?]+$/.test(buffer.trim())) : "";
+      buffer = "";
+      // If we removed everything meaningful, fall back to a safe minimal presence line.
+      if (!emitted) {
+        emitted = "I'm here.";
+        out = emitted;
+      }
+      closed = true;
+      return out;
+    },
+
+    isClosed: () => closed,
+
+    result: () => ({ response: emitted, sanitizedBy }),
+  };
+}
+
+/**
+ * Streaming variant of generateResponse.
+ * Same gates and the same single model call; deltas are pushed through onDelta as they
+ * become safe to show. Local short-circuits emit their full line immediately.
+ */
+export async function generateResponseStream(
+  input: VoiceEngineStreamInput,
+): Promise<VoiceEngineOutput> {
+  const { systemPrompt, messages, streamModel, onDelta, gates } = input;
+  const mode = toVoiceModeProfile(input.mode);
+
+  const lastUserMessage =
+    messages.filter((m) => m.role === "user").pop()?.content || "";
+
+  const local = await localShortCircuit(mode, messages, gates);
+  if (local) {
+    onDelta(local.response);
+    return local;
+  }
+
+  const enhancedPrompt = buildEnhancedSystemPrompt(systemPrompt, mode);
+
+  const sanitizer = createStreamSanitizer({
+    maxSentences: hasUserProvidedContext(messages) ? null : mode.maxSentences,
+    userAskedAboutCapabilities: isAskingAboutCapabilities(lastUserMessage),
+    phrases: input.phrases ?? DEFAULT_PHRASE_ENTRIES,
+  });
+
+  for await (const delta of streamModel(messages, enhancedPrompt)) {
+    const out = sanitizer.push(delta);
+    if (out) onDelta(out);
+    // Sentence cap reached: stop reading so the upstream stream is released early.
+    if (sanitizer.isClosed()) break;
+  }
+
+  const tail = sanitizer.flush();
+  if (tail) onDelta(tail);
+
+  const { response, sanitizedBy } = sanitizer.result();
+  const rewritten = sanitizedBy.length > 0;
+  return {
+    response,
+    shortCircuited: false,
+    rewritten,
+    stage: "llm_call",
+    reason: rewritten ? `sanitized_banned_phrase:${sanitizedBy[0].pattern}` : undefined,
+    sanitizedBy: rewritten ? sanitizedBy : undefined,
   };
 }
 
-export { MODE_STYLES };
@@ -0,0 +1,129 @@
+import { z } from "zod";
+import type { CustomVoiceMode, VoiceMode } from "@shared/schema";
+
+/**
+ * Voice modes: the four built-ins plus user-defined modes stored in custom_voice_modes.
+ * Both resolve to one VoiceModeProfile, which is all the voice engine and the greeting
+ * gate read, so a custom mode renders exactly like a built-in one.
+ */
+
+export interface VoiceModeProfile {
+  id: string; // built-in VoiceMode or the custom_voice_modes row id
+  name: string; // shown in the prompt as "Mode: <name>"
+  builtIn: boolean;
+  maxSentences: number;
+  allowQuestionsOnGreeting: boolean;
+  warmthBias: number; // 0-100
+  greetingResponses: string[];
+  instructions: string; // extra prompt lines, one per line
+}
+
+export const BUILT_IN_VOICE_MODES: Record<VoiceMode, VoiceModeProfile> = {
+  quiet: {
+    id: "quiet",
+    name: "Quiet",
+    builtIn: true,
+    maxSentences: 2,
+    allowQuestionsOnGreeting: false,
+    warmthBias: 40,
+    greetingResponses: [
+      "Hey.",
+      "Hi.",
+      "Mm.",
+      "Yeah.",
+      "I'm here.",
+      "Here.",
+      "Hey—I'm here.",
+    ],
+    instructions: "",
+  },
+  engaged: {
+    id: "engaged",
+    name: "Engaged",
+    builtIn: true,
+    maxSentences: 4,
+    allowQuestionsOnGreeting: true,
+    warmthBias: 70,
+    greetingResponses: ["Hey.", "Hi.", "I'm here.", "Yeah—I'm here.", "Hey, I'm here."],
+    instructions: "",
+  },
+  mythic: {
+    id: "mythic",
+    name: "Mythic",
+    builtIn: true,
+    maxSentences: 3,
+    allowQuestionsOnGreeting: false,
+    warmthBias: 50,
+    greetingResponses: ["I’m here.", "I’m with you.", "Here.", "Still here."],
+    instructions: "Speak with subtle weight and presence, as if each word matters.",
+  },
+  blunt: {
+    id: "blunt",
+    name: "Blunt",
+    builtIn: true,
+    maxSentences: 2,
+    allowQuestionsOnGreeting: false,
+    warmthBias: 20,
+    greetingResponses: ["Yeah.", "Here.", "I'm here."],
+    instructions: "Be direct and minimal. No fluff.",
+  },
+};
+
+export function isBuiltInVoiceMode(id: string): id is VoiceMode {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_VOICE_MODES, id);
+}
+
+export function customVoiceModeProfile(mode: CustomVoiceMode): VoiceModeProfile {
+  return {
+    id: mode.id,
+    name: mode.name,
+    builtIn: false,
+    maxSentences: mode.maxSentences,
+    allowQuestionsOnGreeting: mode.allowQuestionsOnGreeting,
+    warmthBias: mode.warmthBias,
+    // An empty pool would leave the greeting gate with nothing to say.
+    greetingResponses: mode.greetingResponses.length
+      ? mode.greetingResponses
+      : BUILT_IN_VOICE_MODES.quiet.greetingResponses,
+    instructions: mode.instructions,
+  };
+}
+
+/**
+ * Profile for a settings value. A custom mode that no longer exists (deleted, or
+ * another user's id) falls back to quiet rather than failing the turn.
+ */
+export function resolveVoiceMode(
+  selected: string | null | undefined,
+  customModes: CustomVoiceMode[] = [],
+): VoiceModeProfile {
+  if (selected && isBuiltInVoiceMode(selected)) return BUILT_IN_VOICE_MODES[selected];
+  const custom = customModes.find((m) => m.id === selected);
+  return custom ? customVoiceModeProfile(custom) : BUILT_IN_VOICE_MODES.quiet;
+}
+
+// Engine entry points accept a built-in name (tests, dry runs) or a resolved profile.
+export function toVoiceModeProfile(mode: VoiceMode | VoiceModeProfile): VoiceModeProfile {
+  return typeof mode === "string" ? BUILT_IN_VOICE_MODES[mode] : mode;
+}
+
+export const MAX_CUSTOM_VOICE_MODES = 20;
+
+export const customVoiceModeSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(40, "Name must be at most 40 characters")
+    .refine((name) => !isBuiltInVoiceMode(name.toLowerCase()), {
+      message: "Name is taken by a built-in mode",
+    }),
+  maxSentences: z.number().int().min(1).max(10),
+  allowQuestionsOnGreeting: z.boolean(),
+  warmthBias: z.number().int().min(0).max(100),
+  greetingResponses: z
+    .array(z.string().trim().min(1).max(200))
+    .min(1, "Add at least one greeting response")
+    .max(20),
+  instructions: z.string().max(2000).optional(),
+});
@@ -5,7 +5,9 @@ import {
   boolean,
   timestamp,
   jsonb,
+  real,
   uuid,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -38,6 +40,11 @@ export const novaVersions = pgTable("nova_versions", {
   toneTraits: jsonb("tone_traits").$type<Record<string, number>>().notNull().default({}),
   modules: text("modules").array().notNull().default([]),
   parentVersionId: uuid("parent_version_id"),
+  // Optional model pins; null falls back to the user's settings.
+  provider: text("provider"),
+  modelName: text("model_name"),
+  maxTokens: integer("max_tokens"),
+  temperature: real("temperature"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -67,6 +74,9 @@ export const conversations = pgTable("conversations", {
     .references(() => novaVersions.id)
     .notNull(),
   title: text("title").notNull().default("New Conversation"),
+  // Last message of the branch being shown. Null for conversations that have never been
+  // written since branching existed: their messages are one linear thread.
+  activeLeafId: uuid("active_leaf_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -87,9 +97,24 @@ export const messages = pgTable("messages", {
     .notNull(),
   role: text("role").$type<"user" | "assistant">().notNull(),
   content: text("content").notNull(),
+  // Previous message on the same branch; null for a root. Editing a user message adds
+  // a sibling with the same parent, so messages form a tree.
+  parentMessageId: uuid("parent_message_id"),
+  // Decision-log requestId of the turn that produced this reply (assistant rows)
+  requestId: text("request_id"),
+  // Regenerated replies, oldest first; content mirrors alternates[alternateIndex].
+  // Empty until the reply is first regenerated.
+  alternates: jsonb("alternates").$type<MessageAlternate[]>().notNull().default([]),
+  alternateIndex: integer("alternate_index").notNull().default(0),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+export interface MessageAlternate {
+  content: string;
+  requestId: string | null;
+  timestamp: string; // ISO
+}
+
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
   timestamp: true,
@@ -97,7 +122,13 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
 export type InsertMessage = typeof messages.$inferInsert;
 export type Message = typeof messages.$inferSelect;
 
-// Memories
+// Memories (Stage 5 taxonomy: explicit types, importance weighting, expiry)
+export const MEMORY_TYPES = ["fact", "preference", "boundary", "milestone"] as const;
+export type MemoryType = (typeof MEMORY_TYPES)[number];
+
+export const MEMORY_IMPORTANCE = ["low", "medium", "high", "critical"] as const;
+export type MemoryImportance = (typeof MEMORY_IMPORTANCE)[number];
+
 export const memories = pgTable("memories", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id")
@@ -105,12 +136,17 @@ export const memories = pgTable("memories", {
     .notNull(),
   content: text("content").notNull(),
   tags: text("tags").array().notNull().default([]),
-  importance: text("importance")
-    .$type<"low" | "medium" | "high" | "critical">()
-    .notNull()
-    .default("medium"),
-  type: text("type").$type<"short-term" | "long-term">().notNull().default("long-term"),
+  importance: text("importance").$type<MemoryImportance>().notNull().default("medium"),
+  type: text("type").$type<MemoryType>().notNull().default("fact"),
+  // Hidden once past, and deleted the next time the user's memories are read
+  expiresAt: timestamp("expires_at"),
+  // When the user wants to look at it again; nothing acts on it automatically
+  reviewAfter: timestamp("review_after"),
   sourceConversationId: uuid("source_conversation_id"),
+  // "Remember this" on a chat message: the message, and its text when saved, which
+  // outlives edits and deleted conversations
+  sourceMessageId: uuid("source_message_id"),
+  sourceSnapshot: text("source_snapshot"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -124,6 +160,30 @@ export type Memory = typeof memories.$inferSelect;
 // Voice modes - affects style, not core identity
 export type VoiceMode = "quiet" | "engaged" | "mythic" | "blunt";
 
+// Languages the local presence gates understand (server/gates/locales.ts).
+export const GATE_LOCALES = ["en", "es", "fr", "de"] as const;
+export type GateLocale = (typeof GATE_LOCALES)[number];
+
+// User-defined voice modes, selectable next to the built-ins (settings.voiceMode then
+// holds the row id). Same knobs as a built-in mode, plus greetings and extra instructions.
+export const customVoiceModes = pgTable("custom_voice_modes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .references(() => users.id)
+    .notNull(),
+  name: text("name").notNull(),
+  maxSentences: integer("max_sentences").notNull().default(2),
+  allowQuestionsOnGreeting: boolean("allow_questions_on_greeting").notNull().default(false),
+  warmthBias: integer("warmth_bias").notNull().default(50), // 0-100
+  greetingResponses: text("greeting_responses").array().notNull().default([]),
+  instructions: text("instructions").notNull().default(""),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type InsertCustomVoiceMode = typeof customVoiceModes.$inferInsert;
+export type CustomVoiceMode = typeof customVoiceModes.$inferSelect;
+
 // User Settings (non-secret)
 export const userSettings = pgTable("user_settings", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -134,9 +194,17 @@ export const userSettings = pgTable("user_settings", {
   provider: text("provider").notNull().default("openai"),
   apiEndpoint: text("api_endpoint").notNull().default("https://api.openai.com/v1"),
   modelName: text("model_name").notNull().default("gpt-4"),
-  voiceMode: text("voice_mode").$type<VoiceMode>().notNull().default("quiet"),
+  // A built-in VoiceMode or the id of one of the user's custom voice modes
+  voiceMode: text("voice_mode").notNull().default("quiet"),
   allowMemoryReferences: boolean("allow_memory_references").notNull().default(false),
+  // A GateLocale, or "auto" to guess each message's language
+  language: text("language").notNull().default("auto"),
+  // Gate cooldowns: Stage 2 reflection and Stage 3 continuity
+  reflectionCooldownSec: integer("reflection_cooldown_sec").notNull().default(45),
+  continuityCooldownSec: integer("continuity_cooldown_sec").notNull().default(600),
   boundaries: jsonb("boundaries").$type<Boundary[]>().notNull().default([]),
+  // Built-in sanitizer phrases switched off by the user ("default:<list>:<phrase>" ids)
+  disabledDefaultPhrases: text("disabled_default_phrases").array().notNull().default([]),
   currentMood: jsonb("current_mood").$type<NovaMood>().notNull().default({
     emotion: "calm",
     intensity: 60,
@@ -165,6 +233,186 @@ export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
 export type InsertUserSettings = typeof userSettings.$inferInsert;
 export type UserSettings = typeof userSettings.$inferSelect;
 
+// Reply sanitizer entries added by the user. versionId null applies to every version.
+export type PhraseListKind = "banned" | "conditional";
+export type PhraseMatchType = "phrase" | "regex";
+
+export const phraseRules = pgTable("phrase_rules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .references(() => users.id)
+    .notNull(),
+  versionId: uuid("version_id").references(() => novaVersions.id, { onDelete: "cascade" }),
+  list: text("list").$type<PhraseListKind>().notNull(),
+  pattern: text("pattern").notNull(),
+  matchType: text("match_type").$type<PhraseMatchType>().notNull().default("phrase"),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type InsertPhraseRule = typeof phraseRules.$inferInsert;
+export type PhraseRule = typeof phraseRules.$inferSelect;
+
+// Provider API keys (secret). Encrypted at rest with the server master key and
+// never returned to the client; only set/not set and the last 4 characters are.
+export const providerKeys = pgTable(
+  "provider_keys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    provider: text("provider").notNull(),
+    encryptedKey: text("encrypted_key").notNull(),
+    last4: text("last4").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => [unique("provider_keys_user_provider").on(t.userId, t.provider)],
+);
+
+export type InsertProviderKey = typeof providerKeys.$inferInsert;
+export type ProviderKey = typeof providerKeys.$inferSelect;
+
+export interface ProviderKeyStatus {
+  provider: string;
+  isSet: boolean;
+  last4: string | null;
+  updatedAt: string | null;
+}
+
+// Token usage per model call. Conversation and version ids are plain columns (no FK)
+// so spend history survives deleting either.
+export const turnUsage = pgTable("turn_usage", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .references(() => users.id)
+    .notNull(),
+  requestId: text("request_id").notNull(),
+  conversationId: uuid("conversation_id"),
+  versionId: uuid("version_id"),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  totalTokens: integer("total_tokens").notNull(),
+  // true when the provider reported nothing and the counts are local estimates
+  estimated: boolean("estimated").notNull().default(false),
+  // null when the model has no entry in the price table
+  costUsd: real("cost_usd"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type InsertTurnUsage = typeof turnUsage.$inferInsert;
+export type TurnUsage = typeof turnUsage.$inferSelect;
+
+export interface UsageBucket {
+  key: string | null; // day (YYYY-MM-DD), versionId or conversationId
+  turns: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  estimatedTurns: number;
+  unpricedTurns: number;
+}
+
+export interface UsageTotals {
+  since: string;
+  total: UsageBucket;
+  byDay: UsageBucket[];
+  byVersion: UsageBucket[];
+  byConversation: UsageBucket[];
+}
+
+// Response ratings, one per assistant message. The reply text and the turn's gate, voice
+// mode, version and model are copied from the message and its decision record when it
+// is rated, so the feedback view still reads correctly after a regenerate and after the
+// in-memory decision log has moved on.
+export type FeedbackRating = "up" | "down";
+
+export const messageFeedback = pgTable("message_feedback", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .references(() => users.id)
+    .notNull(),
+  messageId: uuid("message_id")
+    .references(() => messages.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  conversationId: uuid("conversation_id").notNull(),
+  requestId: text("request_id"), // the reply that was rated; a regenerate changes it
+  content: text("content").notNull(),
+  rating: text("rating").$type<FeedbackRating>().notNull(),
+  note: text("note"),
+  // "model" when no gate answered; null when the decision record was unavailable
+  gate: text("gate"),
+  voiceMode: text("voice_mode"),
+  versionId: uuid("version_id"),
+  model: text("model"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type InsertMessageFeedback = typeof messageFeedback.$inferInsert;
+export type MessageFeedback = typeof messageFeedback.$inferSelect;
+
+export interface FeedbackFilters {
+  versionId?: string;
+  gate?: string;
+  rating?: FeedbackRating;
+  conversationId?: string;
+}
+
+// Gate cooldowns, one row per user, conversation and kind. Read and written in one
+// transaction per turn, so restarts and other server processes see the same state.
+export type GateCooldownKind = "reflection" | "continuity";
+
+export const gateCooldowns = pgTable(
+  "gate_cooldowns",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    conversationId: text("conversation_id").notNull(), // "default" outside a conversation
+    kind: text("kind").$type<GateCooldownKind>().notNull(),
+    lastAt: timestamp("last_at").notNull(),
+    // reflection: signature of the message reflected on; continuity: memory id referenced
+    lastSig: text("last_sig"),
+  },
+  (t) => [unique("gate_cooldowns_scope").on(t.userId, t.conversationId, t.kind)],
+);
+
+export type GateCooldown = typeof gateCooldowns.$inferSelect;
+
+// Memory reference ledger: one row each time a memory shaped a reply (Stage 3
+// continuity), tied to the reply's message and its decision-log requestId
+export const memoryReferences = pgTable("memory_references", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .references(() => users.id)
+    .notNull(),
+  memoryId: uuid("memory_id")
+    .references(() => memories.id, { onDelete: "cascade" })
+    .notNull(),
+  messageId: uuid("message_id")
+    .references(() => messages.id, { onDelete: "cascade" })
+    .notNull(),
+  conversationId: uuid("conversation_id").notNull(),
+  requestId: text("request_id").notNull(),
+  referencedAt: timestamp("referenced_at").defaultNow().notNull(),
+});
+
+export type InsertMemoryReference = typeof memoryReferences.$inferInsert;
+export type MemoryReference = typeof memoryReferences.$inferSelect;
+
+// The ledger summed per memory, for the memory page
+export interface MemoryReferenceStats {
+  memoryId: string;
+  count: number;
+  lastReferencedAt: Date;
+}
+
 // Sync Status (for diagnostics)
 export const syncStatus = pgTable("sync_status", {
   id: uuid("id").primaryKey().defaultRandom(),